@@ -0,0 +1,68 @@
+import { promises as fs } from 'fs';
+import { config } from './utils/config';
+import { getLogger } from './utils/logger';
+import { createBackup, listBackups, readBackupArchive, restoreBackup, rotateBackups } from './modules/backup';
+
+const logger = getLogger();
+
+const USAGE = `Usage: bun run backup <command>
+
+Commands:
+  create [dir]        Write a backup archive to dir or the backup directory
+  list                List the archives in the backup directory
+  verify <file>       Check an archive without restoring it
+  restore <file>      Restore an archive; stop the bot first`;
+
+/**
+ * Runs a backup command from the command line
+ * @param args - Command and its arguments
+ * @returns Exit code
+ */
+async function runBackupCli(args: string[]): Promise<number> {
+    const [command, argument] = args;
+
+    switch (command) {
+        case 'create': {
+            const backup = await createBackup(undefined, argument);
+            if (!argument) {
+                await rotateBackups(config.BACKUP_KEEP > 0 ? config.BACKUP_KEEP : Infinity);
+            }
+            console.log(backup.path);
+            return 0;
+        }
+        case 'list': {
+            for (const backup of await listBackups()) {
+                console.log(`${backup.created_at}  ${(backup.size / 1024 / 1024).toFixed(1).padStart(8)} MB  ${backup.path}`);
+            }
+            return 0;
+        }
+        case 'verify':
+        case 'restore': {
+            if (!argument) {
+                console.error(USAGE);
+                return 1;
+            }
+            const archive = new Uint8Array(await fs.readFile(argument));
+            if (command === 'verify') {
+                const { manifest } = readBackupArchive(archive);
+                console.log(`Valid backup from ${manifest.created_at} (schema version ${manifest.schema_version}): ${manifest.files.join(', ')}`);
+                return 0;
+            }
+            const result = await restoreBackup(archive);
+            const rows = Object.values(result.tables).reduce((sum, count) => sum + count, 0);
+            console.log(`Restored ${rows} rows from the backup of ${result.manifest.created_at}. The previous state was saved to ${result.previous.path}.`);
+            result.skipped.forEach(file => console.log(`Skipped ${file}`));
+            return 0;
+        }
+        default:
+            console.error(USAGE);
+            return 1;
+    }
+}
+
+runBackupCli(process.argv.slice(2))
+    .then(code => process.exit(code))
+    .catch(error => {
+        logger.error(`Backup failed: ${error instanceof Error ? error.message : error}`);
+        process.exit(1);
+    });
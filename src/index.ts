@@ -1,8 +1,10 @@
 import { config } from './utils/config';
-import { downloadCacheAndFillDb } from './modules/iptv';
+import { downloadCacheAndFillDb, scheduleIPTVRefresh, watchLocalSources } from './modules/iptv';
 import { getLogger } from './utils/logger';
 import { client } from './utils/discord';
-import { initializeStreamer } from './modules/streaming';
+import { initializeStreamer, isStreaming } from './modules/streaming';
+import { scheduleReminders } from './modules/reminders';
+import { scheduleBackups } from './modules/backup';
 
 const logger = getLogger();
 
@@ -14,6 +16,16 @@ async function startOrbisCast() {
     try {
         await initializeStreamer();
         await downloadCacheAndFillDb();
+        await scheduleIPTVRefresh(isStreaming);
+        await scheduleBackups();
+        watchLocalSources();
+        await scheduleReminders(async (textChannelId, message) => {
+            const channel = await client.channels.fetch(textChannelId);
+            if (!channel?.isSendable()) {
+                throw new Error(`Cannot send messages to channel ${textChannelId}`);
+            }
+            await channel.send(message);
+        });
         logger.info('Attempting to log in OrbisCast...');
         await client.login(config.DISCORD_BOT_TOKEN);
         logger.info('OrbisCast logged in successfully');
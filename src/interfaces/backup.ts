@@ -0,0 +1,36 @@
+/**
+ * Description of a backup archive, stored as manifest.json in the archive
+ */
+export interface BackupManifest {
+    format: 'orbiscast-backup';
+    /** Version of the archive layout */
+    version: number;
+    created_at: string;
+    /** Database schema version at the time of the backup */
+    schema_version: number;
+    /** Names of the files in the archive besides the manifest */
+    files: string[];
+}
+
+/**
+ * Backup archive stored in the backup directory
+ */
+export interface BackupFile {
+    name: string;
+    path: string;
+    size: number;
+    created_at: string;
+}
+
+/**
+ * Outcome of restoring a backup
+ */
+export interface RestoreResult {
+    manifest: BackupManifest;
+    /** Number of restored rows by table */
+    tables: Record<string, number>;
+    /** Files that were not restored, with the reason */
+    skipped: string[];
+    /** Backup of the state before the restore */
+    previous: BackupFile;
+}
@@ -0,0 +1,63 @@
+/**
+ * Why a stream session ended.
+ * 'switched' when another channel was started, 'ended' when the source stopped sending
+ * and 'interrupted' when the bot restarted during the session.
+ */
+export type StopReason = 'manual' | 'idle' | 'error' | 'switched' | 'ended' | 'interrupted';
+
+/**
+ * Discord user who started a stream
+ */
+export interface StreamRequester {
+    id: string;
+    name: string;
+}
+
+/**
+ * Programme that aired during a stream session
+ */
+export interface AiredProgramme {
+    title: string;
+    /** Start as Unix timestamp in seconds, in the channel's time */
+    start_timestamp: number;
+}
+
+/**
+ * Stored stream session
+ */
+export interface StreamSession {
+    id: number;
+    requester_id: string | null;
+    requester_name: string | null;
+    channel_name: string;
+    voice_channel_id: string | null;
+    /** True for catch-up replays of past programmes */
+    replay: boolean;
+    programmes: AiredProgramme[];
+    /** Unix timestamps in seconds */
+    started_at: number;
+    stopped_at: number | null;
+    stop_reason: StopReason | null;
+    /** FFmpeg or player error for sessions that stopped with 'error' */
+    error: string | null;
+    peak_viewers: number;
+}
+
+/**
+ * Watch time and failures of a channel or requester
+ */
+export interface WatchTotals {
+    sessions: number;
+    hours: number;
+    failures: number;
+}
+
+/**
+ * Aggregated watch history over a period
+ */
+export interface WatchStats extends WatchTotals {
+    /** Start of the period as Unix timestamp in seconds, 0 for all time */
+    since: number;
+    top_channels: (WatchTotals & { channel_name: string })[];
+    top_requesters: (WatchTotals & { requester_id: string, requester_name: string })[];
+}
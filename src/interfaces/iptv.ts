@@ -10,6 +10,55 @@ export interface ChannelEntry {
     url: string;
     created_at?: string;
     country?: string;
+    source?: string;
+    fallback_urls?: string[];
+    /** ID of the XMLTV channel this channel is mapped to */
+    epg_id?: string;
+    /** How the XMLTV channel was matched, 'timeshift' for channels like "ITV +1" that use the guide of their base channel */
+    epg_match?: 'tvg_id' | 'display_name' | 'fuzzy' | 'manual' | 'timeshift';
+    /** Hours the guide is shifted by for this channel, from the manual offset, tvg-shift or a "+1" name */
+    epg_shift?: number;
+    /** Channel number from tvg-chno */
+    tvg_chno?: number;
+    /** Guide offset in hours from tvg-shift */
+    tvg_shift?: number;
+    /** All #EXTINF attributes as found in the playlist */
+    attributes?: Record<string, string>;
+    /** HTTP headers required to play the stream, e.g. User-Agent and Referer */
+    http_headers?: Record<string, string>;
+    /** Options from #EXTVLCOPT lines */
+    vlc_options?: Record<string, string>;
+    /** Properties from #KODIPROP lines */
+    kodi_props?: Record<string, string>;
+    /** How past programmes of the channel can be played */
+    catchup?: CatchupType;
+    /** Number of days past programmes stay available */
+    catchup_days?: number;
+    /** URL template for catch-up playback */
+    catchup_source?: string;
+}
+
+/**
+ * Catch-up URL templates supported for playing past programmes
+ */
+export type CatchupType = 'default' | 'append' | 'shift' | 'flussonic' | 'xc';
+
+/**
+ * Result of the last background check of a channel stream
+ */
+export interface ChannelHealth {
+    status: 'online' | 'offline';
+    checked_at: string;
+    /** Whether the stream was checked with ffprobe or by requesting it over HTTP */
+    method: 'ffprobe' | 'http';
+    /** Video resolution such as "1920x1080", when known */
+    resolution?: string;
+    /** Video codec such as "h264", when known */
+    codec?: string;
+    /** Reason of the last failed check */
+    error?: string;
+    /** Number of failed checks in a row */
+    failures: number;
 }
 
 /**
@@ -25,4 +74,209 @@ export interface ProgrammeEntry {
     description: string;
     category: string;
     created_at: string;
+    /** Episode title */
+    sub_title?: string;
+    /** Display form of the episode number, e.g. "S02E05" */
+    episode_num?: string;
+    season?: number;
+    episode?: number;
+    /** Age rating such as "PG" or "TV-14" */
+    rating?: string;
+    /** Star rating such as "7/10" */
+    star_rating?: string;
+    /** Poster or still image URL */
+    icon?: string;
+    /** All categories, the first one is also stored in category */
+    categories?: string[];
+    is_new?: boolean;
+    premiere?: boolean;
+    previously_shown?: boolean;
+    live?: boolean;
+    /** Name of the guide source or playlist provider the programme came from */
+    source?: string;
+}
+
+/**
+ * Represents a channel definition from the XMLTV guide
+ */
+export interface EpgChannelEntry {
+    id: string;
+    display_names: string[];
+    icon?: string;
+    created_at: string;
+}
+
+/**
+ * Represents a configured playlist source
+ */
+export interface PlaylistSource {
+    name: string;
+    /** Provider type, M3U playlists are used by default */
+    type: 'm3u' | 'xtream';
+    /** Playlist URL, or the server base URL for Xtream Codes sources */
+    url: string;
+    /** Lower values win when the same channel is found in several sources */
+    priority: number;
+    /** Refresh interval in minutes */
+    refresh: number;
+    /** Xtream Codes username */
+    username?: string;
+    /** Xtream Codes password */
+    password?: string;
+    /** Whether to fetch the short EPG from the Xtream Codes API */
+    epg?: boolean;
+    /** Stream container requested from the Xtream Codes API */
+    output?: 'ts' | 'm3u8';
+}
+
+/**
+ * Represents a configured XMLTV guide source
+ */
+export interface EpgSource {
+    name: string;
+    url: string;
+    /** Lower values win when several guides have programmes for the same channel at the same time */
+    priority: number;
+    /** Hours added to all programme times, for guides published with a wrong time zone */
+    shift?: number;
+}
+
+/**
+ * Represents the last parsed channel list of a playlist source
+ */
+export interface PlaylistSourceSnapshot {
+    fetched_at: string;
+    channels: ChannelEntry[];
+    /** Parse statistics of the content the channels came from */
+    statistics?: PlaylistParseStatistics;
+}
+
+/**
+ * Counts of parsed and skipped entries of a playlist
+ */
+export interface PlaylistParseStatistics {
+    parsed: number;
+    skipped: number;
+    /** Number of skipped entries per reason */
+    reasons: Record<string, number>;
+    /** First few skipped lines, for troubleshooting */
+    samples: string[];
+}
+
+/**
+ * Validators of the last download of a URL, used for conditional requests
+ */
+export interface DownloadValidators {
+    etag?: string;
+    last_modified?: string;
+    /** SHA-256 of the (decompressed) content */
+    hash: string;
+    checked_at: string;
+}
+
+/**
+ * Selects channels by regular expressions, all given fields have to match
+ */
+export interface ChannelRuleMatcher {
+    group?: string;
+    country?: string;
+    name?: string;
+}
+
+/**
+ * Renames matching channels, either to a fixed name or by a regex replacement
+ */
+export interface ChannelRenameRule extends ChannelRuleMatcher {
+    /** New name of the channel */
+    to?: string;
+    /** Regular expression replaced in the channel name */
+    pattern?: string;
+    /** Replacement for pattern, may use $1 style groups */
+    replace?: string;
+}
+
+/**
+ * Assigns consecutive channel numbers to matching channels
+ */
+export interface ChannelNumberRule extends ChannelRuleMatcher {
+    start: number;
+}
+
+/**
+ * Rules applied to the merged channel list, stage by stage in the order of the fields
+ */
+export interface ChannelRules {
+    /** If set, only channels matching at least one rule are kept */
+    include: ChannelRuleMatcher[];
+    exclude: ChannelRuleMatcher[];
+    rename: ChannelRenameRule[];
+    /** Channels matching the first rule come first, then the second, the rest keep their order at the end */
+    sort: ChannelRuleMatcher[];
+    numbers: ChannelNumberRule[];
+}
+
+/**
+ * Outcome of a refresh step
+ */
+export type IngestStatus = 'updated' | 'unchanged' | 'refused' | 'failed';
+
+/**
+ * Report of the playlist sources read during a channel refresh
+ */
+export interface SourceIngestReport {
+    name: string;
+    /** Whether the source was parsed, reused from its snapshot because it did not change or is not due, or failed */
+    status: 'parsed' | 'unchanged' | 'failed';
+    channels: number;
+    statistics?: PlaylistParseStatistics;
+}
+
+/**
+ * Report of the last channel refresh
+ */
+export interface ChannelIngestReport {
+    finished_at: string;
+    status: IngestStatus;
+    sources: SourceIngestReport[];
+    /** Channels after merging and applying the rules */
+    total: number;
+    duplicates: number;
+    /** First few names of collapsed duplicate channels */
+    duplicate_names: string[];
+    without_tvg_id: number;
+}
+
+/**
+ * Report of the last programme refresh
+ */
+export interface ProgrammeIngestReport {
+    finished_at: string;
+    status: IngestStatus;
+    total: number;
+    failed: number;
+    /** First few programmes that could not be parsed, with the reason */
+    failures: string[];
+    first_start?: string;
+    last_start?: string;
+    epg_channels: number;
+}
+
+/**
+ * How many channels have guide data
+ */
+export interface EpgCoverageReport {
+    computed_at: string;
+    channels: number;
+    without_programmes: number;
+    /** First few channels without programmes */
+    without_programmes_names: string[];
+}
+
+/**
+ * Structured report of the last refresh, each part is updated by the refresh step it belongs to
+ */
+export interface IngestReport {
+    channels?: ChannelIngestReport;
+    programmes?: ProgrammeIngestReport;
+    coverage?: EpgCoverageReport;
 }
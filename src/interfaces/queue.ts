@@ -0,0 +1,29 @@
+import type { ChannelEntry, ProgrammeEntry } from './iptv';
+import type { StreamRequester } from './history';
+
+/**
+ * Channel waiting in the queue of a stream session
+ */
+export interface QueueEntry {
+    id: number;
+    channel: ChannelEntry;
+    /**
+     * Unix timestamp in seconds to switch at, or null to switch when the programme airing
+     * on the streamed channel ends once the entry is first in the queue
+     */
+    switch_at: number | null;
+    requester?: StreamRequester;
+    /** Unix timestamp in seconds */
+    added_at: number;
+}
+
+/**
+ * Queue of a stream session and when its first entry starts
+ */
+export interface QueueStatus {
+    entries: QueueEntry[];
+    /** Unix timestamp in seconds the first entry starts at, or null when it waits for the stream to end */
+    next_switch: number | null;
+    /** Programme whose end starts the first entry */
+    waiting_for: ProgrammeEntry | null;
+}
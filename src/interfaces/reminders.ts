@@ -0,0 +1,17 @@
+/**
+ * Reminder for a programme, set from the search results
+ */
+export interface Reminder {
+    id: number;
+    /** Discord user to mention */
+    user_id: string;
+    /** Discord text channel the reminder is posted in */
+    text_channel_id: string;
+    channel_name: string;
+    title: string;
+    /** Start of the programme as Unix timestamp in seconds, in the channel's time */
+    start_timestamp: number;
+    /** When the reminder is due as Unix timestamp in seconds */
+    remind_at: number;
+    created_at: string;
+}
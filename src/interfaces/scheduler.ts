@@ -0,0 +1,19 @@
+/**
+ * Outcome of a scheduled job run
+ */
+export type JobRunStatus = 'success' | 'failed' | 'skipped' | 'error';
+
+/**
+ * Persisted state of a scheduled job
+ */
+export interface JobState {
+    /** Schedule the next run was computed from, so a changed schedule is picked up after a restart */
+    schedule: string;
+    next_run?: string;
+    last_run?: string;
+    last_status?: JobRunStatus;
+    /** Duration of the last run in milliseconds */
+    last_duration?: number;
+    /** Error or reason of the last run that did not succeed */
+    last_error?: string;
+}
@@ -0,0 +1,275 @@
+import { promises as fs } from 'fs';
+import { tmpdir } from 'os';
+import { basename, join, resolve } from 'path';
+import { strFromU8, strToU8, unzipSync, zipSync } from 'fflate';
+import { getLogger } from '../../utils/logger';
+import { config } from '../../utils/config';
+import { dataDir, exportDatabase, importDatabase, prepareDatabaseImport } from '../database';
+import { registerJob, withLock } from '../scheduler';
+import { REFRESH_LOCK } from '../iptv';
+import type { BackupFile, BackupManifest, RestoreResult } from '../../interfaces/backup';
+
+const logger = getLogger();
+
+/**
+ * Version of the archive layout, raised when files are added or change their format
+ */
+export const BACKUP_VERSION = 1;
+
+const MANIFEST_FILE = 'manifest.json';
+const DATABASE_FILE = 'orbiscast.db';
+const RULES_FILE = 'channel-rules.json';
+const BACKUP_FILE_PATTERN = /^orbiscast-backup-.+\.zip$/;
+
+/**
+ * Returns the directory backups are written to, BACKUP_DIR or data/backups
+ *
+ * @returns {string} - Absolute path of the backup directory
+ */
+export function getBackupDir(): string {
+    return resolve(config.BACKUP_DIR || join(dataDir, 'backups'));
+}
+
+/**
+ * Creates a temporary path that does not exist yet
+ *
+ * @param {string} name - File name suffix
+ * @returns {string} - Path in the system's temporary directory
+ */
+function getTempPath(name: string): string {
+    return join(tmpdir(), `orbiscast-${process.pid}-${Date.now()}-${Math.random().toString(36).slice(2)}-${name}`);
+}
+
+/**
+ * Builds a backup archive of the database and the channel rules file
+ *
+ * @returns {Promise<Uint8Array>} - Zip archive with a manifest
+ */
+export async function buildBackupArchive(): Promise<Uint8Array> {
+    const files: Record<string, Uint8Array> = {};
+
+    const databaseCopy = getTempPath(DATABASE_FILE);
+    let schemaVersion: number;
+    try {
+        schemaVersion = exportDatabase(databaseCopy);
+        files[DATABASE_FILE] = new Uint8Array(await fs.readFile(databaseCopy));
+    } finally {
+        await fs.rm(databaseCopy, { force: true });
+    }
+
+    if (config.CHANNEL_RULES) {
+        try {
+            files[RULES_FILE] = new Uint8Array(await fs.readFile(config.CHANNEL_RULES));
+        } catch (error) {
+            logger.warn(`Channel rules ${config.CHANNEL_RULES} not included in the backup: ${error}`);
+        }
+    }
+
+    const manifest: BackupManifest = {
+        format: 'orbiscast-backup',
+        version: BACKUP_VERSION,
+        created_at: new Date().toISOString(),
+        schema_version: schemaVersion,
+        files: Object.keys(files),
+    };
+
+    return zipSync({ ...files, [MANIFEST_FILE]: strToU8(JSON.stringify(manifest, null, 2)) }, { level: 6 });
+}
+
+/**
+ * Writes a backup archive to the backup directory
+ *
+ * @param {string} label - Optional suffix of the file name, e.g. "pre-restore"
+ * @param {string} dir - Directory to write to, defaults to the backup directory
+ * @returns {Promise<BackupFile>} - Written archive
+ */
+export async function createBackup(label?: string, dir: string = getBackupDir()): Promise<BackupFile> {
+    const archive = await buildBackupArchive();
+    const createdAt = new Date().toISOString();
+    const name = `orbiscast-backup-${createdAt.replace(/[:.]/g, '-')}${label ? `-${label}` : ''}.zip`;
+    const path = join(dir, name);
+
+    await fs.mkdir(dir, { recursive: true });
+    await fs.writeFile(path, archive);
+    logger.info(`Created backup ${path} (${(archive.length / 1024 / 1024).toFixed(1)} MB)`);
+    return { name, path, size: archive.length, created_at: createdAt };
+}
+
+/**
+ * Lists the backup archives in the backup directory
+ *
+ * @param {string} dir - Directory to list, defaults to the backup directory
+ * @returns {Promise<BackupFile[]>} - Archives, newest first
+ */
+export async function listBackups(dir: string = getBackupDir()): Promise<BackupFile[]> {
+    let names: string[];
+    try {
+        names = await fs.readdir(dir);
+    } catch {
+        return [];
+    }
+
+    const backups: BackupFile[] = [];
+    for (const name of names.filter(name => BACKUP_FILE_PATTERN.test(name))) {
+        const path = join(dir, name);
+        const stats = await fs.stat(path);
+        backups.push({ name, path, size: stats.size, created_at: stats.mtime.toISOString() });
+    }
+    return backups.sort((a, b) => b.created_at.localeCompare(a.created_at) || b.name.localeCompare(a.name));
+}
+
+/**
+ * Deletes the oldest backups beyond the number to keep
+ *
+ * @param {number} keep - Number of backups to keep
+ * @param {string} dir - Directory to clean up, defaults to the backup directory
+ * @returns {Promise<string[]>} - Names of the deleted archives
+ */
+export async function rotateBackups(keep: number, dir: string = getBackupDir()): Promise<string[]> {
+    const stale = (await listBackups(dir)).slice(Math.max(keep, 0));
+    for (const backup of stale) {
+        await fs.rm(backup.path, { force: true });
+    }
+    if (stale.length > 0) {
+        logger.info(`Deleted ${stale.length} old backup(s)`);
+    }
+    return stale.map(backup => backup.name);
+}
+
+/**
+ * Reads and checks the manifest and files of a backup archive
+ *
+ * @param {Uint8Array} archive - Zip archive
+ * @returns {{ manifest: BackupManifest, files: Record<string, Uint8Array> }} - Manifest and archived files
+ * @throws {Error} - If the archive is not a backup, is incomplete or was made by a newer version
+ */
+export function readBackupArchive(archive: Uint8Array): { manifest: BackupManifest, files: Record<string, Uint8Array> } {
+    let files: Record<string, Uint8Array>;
+    try {
+        files = unzipSync(archive);
+    } catch (error) {
+        throw new Error(`Not a zip archive: ${error}`);
+    }
+
+    const manifestFile = files[MANIFEST_FILE];
+    if (!manifestFile) {
+        throw new Error(`Archive has no ${MANIFEST_FILE}`);
+    }
+
+    let manifest: BackupManifest;
+    try {
+        manifest = JSON.parse(strFromU8(manifestFile));
+    } catch (error) {
+        throw new Error(`Invalid ${MANIFEST_FILE}: ${error}`);
+    }
+
+    if (manifest.format !== 'orbiscast-backup' || typeof manifest.version !== 'number') {
+        throw new Error('Archive is not an OrbisCast backup');
+    }
+    if (manifest.version > BACKUP_VERSION) {
+        throw new Error(`Backup version ${manifest.version} is newer than the supported version ${BACKUP_VERSION}`);
+    }
+    const missing = (manifest.files || []).filter(name => !files[name]);
+    if (!manifest.files?.includes(DATABASE_FILE) || missing.length > 0) {
+        throw new Error(`Archive is incomplete, missing ${missing.join(', ') || DATABASE_FILE}`);
+    }
+    if (files[RULES_FILE]) {
+        try {
+            JSON.parse(strFromU8(files[RULES_FILE]));
+        } catch (error) {
+            throw new Error(`Invalid ${RULES_FILE}: ${error}`);
+        }
+    }
+
+    return { manifest, files };
+}
+
+/**
+ * Restores a backup archive. The archive is checked completely before anything is changed,
+ * and the current state is backed up first so the restore can be undone.
+ *
+ * @param {Uint8Array} archive - Zip archive created by createBackup
+ * @returns {Promise<RestoreResult>} - Restored tables and files
+ * @throws {Error} - If the archive is invalid
+ */
+export async function restoreBackup(archive: Uint8Array): Promise<RestoreResult> {
+    const { manifest, files } = readBackupArchive(archive);
+
+    const databaseCopy = getTempPath(DATABASE_FILE);
+    // Next to the rules file, so it can be renamed into place
+    const rulesCopy = config.CHANNEL_RULES ? `${config.CHANNEL_RULES}.restore` : null;
+    try {
+        await fs.writeFile(databaseCopy, files[DATABASE_FILE]!);
+        prepareDatabaseImport(databaseCopy);
+
+        const skipped: string[] = [];
+        const rules = files[RULES_FILE];
+        if (rules && rulesCopy) {
+            await fs.writeFile(rulesCopy, rules);
+        } else if (rules) {
+            skipped.push(`${RULES_FILE} (CHANNEL_RULES is not set)`);
+        }
+
+        const previous = await createBackup('pre-restore');
+        const tables = importDatabase(databaseCopy);
+        // The rules only replace the current ones once the database matches them
+        if (rules && rulesCopy) {
+            await fs.rename(rulesCopy, config.CHANNEL_RULES);
+        }
+
+        logger.info(`Restored backup from ${manifest.created_at} (schema version ${manifest.schema_version})`);
+        return { manifest, tables, skipped, previous };
+    } finally {
+        if (rulesCopy) {
+            await fs.rm(rulesCopy, { force: true });
+        }
+        await fs.rm(databaseCopy, { force: true });
+        await fs.rm(`${databaseCopy}-wal`, { force: true });
+        await fs.rm(`${databaseCopy}-shm`, { force: true });
+    }
+}
+
+/**
+ * Restores a backup while no refresh runs, so a refresh cannot write data from before the restore
+ *
+ * @param {Uint8Array} archive - Zip archive created by createBackup
+ * @returns {Promise<RestoreResult | null>} - Restored tables and files, or null if a refresh is running
+ * @throws {Error} - If the archive is invalid
+ */
+export async function restoreBackupLocked(archive: Uint8Array): Promise<RestoreResult | null> {
+    return withLock(REFRESH_LOCK, () => restoreBackup(archive));
+}
+
+/**
+ * Resolves the name of a backup in the backup directory to its path
+ *
+ * @param {string} name - File name from listBackups
+ * @returns {string} - Path in the backup directory
+ */
+export function getBackupPath(name: string): string {
+    return join(getBackupDir(), basename(name));
+}
+
+/**
+ * Schedules backups of the database that keep the newest BACKUP_KEEP archives.
+ * Setting BACKUP_KEEP to 0 disables scheduled backups.
+ *
+ * @returns {Promise<void>}
+ */
+export async function scheduleBackups(): Promise<void> {
+    if (config.BACKUP_KEEP <= 0) {
+        logger.info('Scheduled backups are disabled');
+        return;
+    }
+
+    await registerJob({
+        name: 'backup',
+        description: 'Database backup',
+        schedule: config.BACKUP_SCHEDULE,
+        jitter: config.SCHEDULE_JITTER,
+        run: async () => {
+            await createBackup();
+            await rotateBackups(config.BACKUP_KEEP);
+        },
+    });
+}
@@ -0,0 +1,147 @@
+import axios from 'axios';
+import { promises as fs } from 'fs';
+import { AttachmentBuilder, CommandInteraction, EmbedBuilder, MessageFlags } from 'discord.js';
+import { getLogger } from '../../utils/logger';
+import { config } from '../../utils/config';
+import { createBackup, getBackupPath, listBackups, restoreBackupLocked, rotateBackups } from '../../modules/backup';
+
+const logger = getLogger();
+
+/**
+ * Largest archive attached to the reply, Discord rejects bigger uploads
+ */
+const MAX_ATTACHMENT_SIZE = 25 * 1024 * 1024;
+
+/**
+ * Formats a file size in megabytes
+ * @param size - Size in bytes
+ * @returns Size such as "1.2 MB"
+ */
+function formatSize(size: number): string {
+    return `${(size / 1024 / 1024).toFixed(1)} MB`;
+}
+
+/**
+ * Creates a backup and rotates the old ones
+ * @returns Object containing success status, message and the archive as attachment if it is small enough
+ */
+export async function executeCreateBackup(): Promise<{ success: boolean, message: string, files?: AttachmentBuilder[] }> {
+    try {
+        const backup = await createBackup();
+        if (config.BACKUP_KEEP > 0) {
+            await rotateBackups(config.BACKUP_KEEP);
+        }
+        const attach = backup.size <= MAX_ATTACHMENT_SIZE;
+        return {
+            success: true,
+            message: `💾 Created backup \`${backup.name}\` (${formatSize(backup.size)}).${attach ? '' : ' It is too large to attach, find it in the backup directory.'}`,
+            files: attach ? [new AttachmentBuilder(backup.path, { name: backup.name })] : []
+        };
+    } catch (error) {
+        logger.error(`Error creating backup: ${error}`);
+        return { success: false, message: `Error creating backup: ${error instanceof Error ? error.message : error}` };
+    }
+}
+
+/**
+ * Lists the backups in the backup directory
+ * @returns Object containing success status, message and list embed
+ */
+export async function executeListBackups(): Promise<{ success: boolean, message: string, embed?: EmbedBuilder }> {
+    const backups = await listBackups();
+    if (backups.length === 0) {
+        return { success: false, message: 'No backups yet. Create one with `/backup create`.' };
+    }
+
+    const embed = new EmbedBuilder()
+        .setTitle('💾 Backups')
+        .setDescription(backups.slice(0, 25)
+            .map(backup => `\`${backup.name}\` • ${formatSize(backup.size)} • <t:${Math.floor(Date.parse(backup.created_at) / 1000)}:R>`)
+            .join('\n')
+            .substring(0, 4096))
+        .setFooter({ text: config.BACKUP_KEEP > 0 ? `Keeping the newest ${config.BACKUP_KEEP} backups, scheduled ${config.BACKUP_SCHEDULE}` : 'Scheduled backups are disabled' })
+        .setColor('#0099ff')
+        .setTimestamp();
+    return { success: true, message: '', embed };
+}
+
+/**
+ * Restores a backup from the backup directory or an uploaded archive
+ * @param archive - Content of the archive
+ * @returns Object containing success status and result message
+ */
+export async function executeRestoreBackup(archive: Uint8Array): Promise<{ success: boolean, message: string }> {
+    try {
+        const result = await restoreBackupLocked(archive);
+        if (!result) {
+            return { success: false, message: 'A refresh is running. Try again when it has finished.' };
+        }
+
+        const rows = Object.values(result.tables).reduce((sum, count) => sum + count, 0);
+        const lines = [
+            `✅ Restored ${rows} rows from the backup of <t:${Math.floor(Date.parse(result.manifest.created_at) / 1000)}:f>.`,
+            `The previous state was saved as \`${result.previous.name}\`.`,
+            ...result.skipped.map(file => `Skipped ${file}.`)
+        ];
+        return { success: true, message: lines.join('\n') };
+    } catch (error) {
+        logger.error(`Error restoring backup: ${error}`);
+        return { success: false, message: `Backup not restored: ${error instanceof Error ? error.message : error}` };
+    }
+}
+
+/**
+ * Returns autocomplete choices for the backups in the backup directory
+ * @param query - Text typed by the user
+ * @returns Up to 25 backups, newest first
+ */
+export async function getBackupChoices(query: string): Promise<{ name: string, value: string }[]> {
+    const lowerQuery = query.toLowerCase();
+    return (await listBackups())
+        .filter(backup => backup.name.toLowerCase().includes(lowerQuery))
+        .slice(0, 25)
+        .map(backup => ({ name: `${backup.name} (${formatSize(backup.size)})`.slice(0, 100), value: backup.name.slice(0, 100) }));
+}
+
+/**
+ * Handles the /backup slash command interaction
+ * @param interaction - The Discord command interaction
+ */
+export async function handleBackupCommand(interaction: CommandInteraction) {
+    try {
+        const action = interaction.options.get('action', true).value as 'create' | 'list' | 'restore';
+        await interaction.deferReply({ flags: MessageFlags.Ephemeral });
+
+        if (action === 'create') {
+            const result = await executeCreateBackup();
+            await interaction.editReply({ content: result.message, files: result.files || [] });
+        } else if (action === 'list') {
+            const result = await executeListBackups();
+            await interaction.editReply({ content: result.message || undefined, embeds: result.embed ? [result.embed] : [] });
+        } else {
+            const fileName = interaction.options.get('file')?.value as string | undefined;
+            const attachment = interaction.options.get('archive')?.attachment;
+
+            let archive: Uint8Array;
+            if (attachment) {
+                const response = await axios.get<ArrayBuffer>(attachment.url, { responseType: 'arraybuffer' });
+                archive = new Uint8Array(response.data);
+            } else if (fileName) {
+                archive = new Uint8Array(await fs.readFile(getBackupPath(fileName)));
+            } else {
+                await interaction.editReply('Pick a backup with `file` or upload one with `archive`.');
+                return;
+            }
+
+            const result = await executeRestoreBackup(archive);
+            await interaction.editReply(result.message);
+        }
+    } catch (error) {
+        logger.error(`Error handling backup command: ${error}`);
+        try {
+            await interaction.editReply('An error occurred while processing your request.');
+        } catch (replyError) {
+            logger.error(`Error sending reply: ${replyError}`);
+        }
+    }
+}
@@ -0,0 +1,58 @@
+import { CommandInteraction, EmbedBuilder, MessageFlags } from 'discord.js';
+import { getLogger } from '../../utils/logger';
+import { previewChannelRules } from '../../modules/iptv';
+
+const logger = getLogger();
+
+/**
+ * Previews the channel rules against the stored playlists without applying them
+ * @returns Object containing success status, message and preview embed
+ */
+export async function executeChannelRulesPreview(): Promise<{ success: boolean, message: string, embed?: EmbedBuilder }> {
+    try {
+        const preview = await previewChannelRules();
+        if (!preview) {
+            return { success: false, message: 'No channel rules configured. Set CHANNEL_RULES to the path of a rules file.' };
+        }
+
+        const embed = new EmbedBuilder()
+            .setTitle('📋 Channel Rules Preview')
+            .setDescription(`**${preview.total}** playlist channels → **${preview.channels.length}** channels after the rules.\nNothing is changed until the next refresh.`)
+            .setColor('#0099ff')
+            .setTimestamp();
+
+        const stages = ['include', 'exclude', 'rename', 'sort', 'numbers'] as const;
+        for (const stage of stages) {
+            const lines = preview.statistics
+                .filter(statistic => statistic.stage === stage)
+                .map(statistic => `- \`${statistic.rule}\`: ${statistic.matched} channels`);
+            if (lines.length > 0) {
+                embed.addFields({ name: stage, value: lines.join('\n').substring(0, 1024) });
+            }
+        }
+
+        const sample = preview.channels.slice(0, 10)
+            .map(channel => `- ${channel.tvg_chno !== undefined ? `${channel.tvg_chno}. ` : ''}${channel.tvg_name || 'Unknown'}`);
+        if (sample.length > 0) {
+            embed.addFields({ name: 'First channels', value: sample.join('\n').substring(0, 1024) });
+        }
+
+        return { success: true, message: '', embed };
+    } catch (error) {
+        logger.error(`Error previewing channel rules: ${error}`);
+        return { success: false, message: `An error occurred while previewing the channel rules: ${error instanceof Error ? error.message : error}` };
+    }
+}
+
+/**
+ * Handles the /channel-rules slash command interaction
+ * @param interaction - The Discord command interaction
+ */
+export async function handleChannelRulesCommand(interaction: CommandInteraction) {
+    await interaction.deferReply({ flags: MessageFlags.Ephemeral });
+    const result = await executeChannelRulesPreview();
+    await interaction.editReply({
+        content: result.message || undefined,
+        embeds: result.embed ? [result.embed] : []
+    });
+}
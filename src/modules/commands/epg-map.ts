@@ -0,0 +1,113 @@
+import { CommandInteraction, MessageFlags } from 'discord.js';
+import { getLogger } from '../../utils/logger';
+import { getChannelByName, getEpgChannels, getEpgShift, setEpgMappingOverride, setEpgShiftOverride } from '../../modules/database';
+import { applyEpgMapping } from '../../modules/iptv';
+
+const logger = getLogger();
+
+/**
+ * Shows, sets or clears the XMLTV mapping of a channel, or shifts its guide
+ * @param action - Mapping operation ('show', 'set', 'clear' or 'shift')
+ * @param channelName - Name of the playlist channel
+ * @param epgId - XMLTV channel ID to map the channel to, required for 'set'
+ * @param hours - Guide offset for 'shift', removes the manual offset if omitted
+ * @returns Object containing success status and result message
+ */
+export async function executeEpgMapping(action: string, channelName: string, epgId?: string, hours?: number): Promise<{ success: boolean, message: string }> {
+    try {
+        const channel = await getChannelByName(channelName);
+
+        if (!channel || !channel.tvg_name) {
+            return { success: false, message: `Channel not found: ${channelName}` };
+        }
+
+        if (action === 'show') {
+            if (!channel.epg_id) {
+                return { success: true, message: `**${channel.tvg_name}** is not mapped to an XMLTV channel (tvg-id: \`${channel.tvg_id || 'none'}\`).` };
+            }
+            const shift = getEpgShift(channel);
+            const shiftText = shift ? `, shifted by ${formatShift(shift)}` : '';
+            return { success: true, message: `**${channel.tvg_name}** is mapped to \`${channel.epg_id}\` (${channel.epg_match || 'unknown'} match${shiftText}).` };
+        }
+
+        if (action === 'set') {
+            if (!epgId) {
+                return { success: false, message: 'Please specify the XMLTV channel ID to map to.' };
+            }
+            const epgChannels = await getEpgChannels();
+            if (epgChannels.length > 0 && !epgChannels.some(epgChannel => epgChannel.id === epgId)) {
+                return { success: false, message: `XMLTV channel not found: ${epgId}` };
+            }
+
+            await setEpgMappingOverride(channel.tvg_name, epgId);
+            await applyEpgMapping();
+            logger.info(`Mapped channel ${channel.tvg_name} to XMLTV channel ${epgId}`);
+            return { success: true, message: `Mapped **${channel.tvg_name}** to \`${epgId}\`.` };
+        }
+
+        if (action === 'clear') {
+            await setEpgMappingOverride(channel.tvg_name, null);
+            await applyEpgMapping();
+            logger.info(`Cleared XMLTV mapping of channel ${channel.tvg_name}`);
+            return { success: true, message: `Cleared the manual mapping of **${channel.tvg_name}**, automatic matching is used again.` };
+        }
+
+        if (action === 'shift') {
+            await setEpgShiftOverride(channel.tvg_name, hours ?? null);
+            await applyEpgMapping();
+            if (hours === undefined) {
+                logger.info(`Cleared guide offset of channel ${channel.tvg_name}`);
+                return { success: true, message: `Cleared the manual guide offset of **${channel.tvg_name}**, the playlist offset is used again.` };
+            }
+            logger.info(`Shifted guide of channel ${channel.tvg_name} by ${hours} hours`);
+            return { success: true, message: `Shifted the guide of **${channel.tvg_name}** by ${formatShift(hours)}.` };
+        }
+
+        return { success: false, message: `Unknown mapping action: ${action}` };
+    } catch (error) {
+        logger.error(`Error updating XMLTV mapping: ${error}`);
+        return { success: false, message: 'An error occurred while updating the XMLTV mapping.' };
+    }
+}
+
+/**
+ * Formats a guide offset, e.g. "+1 hour" or "-2.5 hours"
+ * @param hours - Offset in hours
+ * @returns Signed offset with unit
+ */
+function formatShift(hours: number): string {
+    return `${hours > 0 ? '+' : ''}${hours} ${Math.abs(hours) === 1 ? 'hour' : 'hours'}`;
+}
+
+/**
+ * Returns autocomplete choices for XMLTV channel IDs
+ * @param query - Text typed by the user
+ * @returns Up to 25 matching XMLTV channels
+ */
+export async function getEpgChannelChoices(query: string): Promise<{ name: string, value: string }[]> {
+    const lowerQuery = query.toLowerCase();
+    const epgChannels = await getEpgChannels();
+
+    return epgChannels
+        .filter(epgChannel => epgChannel.id.toLowerCase().includes(lowerQuery) ||
+            epgChannel.display_names.some(name => name.toLowerCase().includes(lowerQuery)))
+        .slice(0, 25)
+        .map(epgChannel => ({
+            name: `${epgChannel.display_names[0] || epgChannel.id} (${epgChannel.id})`.slice(0, 100),
+            value: epgChannel.id.slice(0, 100)
+        }));
+}
+
+/**
+ * Handles the /epg-map slash command interaction
+ * @param interaction - The Discord command interaction
+ */
+export async function handleEpgMapCommand(interaction: CommandInteraction) {
+    const action = interaction.options.get('action', true).value as string;
+    const channelName = interaction.options.get('channel', true).value as string;
+    const epgId = interaction.options.get('epg_id')?.value as string | undefined;
+    const hours = interaction.options.get('hours')?.value as number | undefined;
+
+    const result = await executeEpgMapping(action, channelName, epgId, hours);
+    await interaction.reply({ content: result.message, flags: MessageFlags.Ephemeral });
+}
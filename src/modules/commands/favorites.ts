@@ -0,0 +1,69 @@
+import { CommandInteraction, MessageFlags } from 'discord.js';
+import { getLogger } from '../../utils/logger';
+import { addFavorite, getChannelByName, getFavorites, removeFavorite } from '../../modules/database';
+import { handleListCommand } from './list';
+
+const logger = getLogger();
+
+/**
+ * Adds a channel to or removes it from the favourites of a user
+ * @param userId - Discord user ID
+ * @param action - 'add' or 'remove'
+ * @param channelName - Name of the channel
+ * @returns Object containing success status and result message
+ */
+export async function executeFavorites(userId: string, action: 'add' | 'remove', channelName: string): Promise<{ success: boolean, message: string }> {
+    if (!channelName) {
+        return { success: false, message: 'Please specify a channel name.' };
+    }
+
+    try {
+        if (action === 'add') {
+            const channel = await getChannelByName(channelName);
+            if (!channel?.tvg_name) {
+                return { success: false, message: `Channel not found: ${channelName}` };
+            }
+            return await addFavorite(userId, channel.tvg_name)
+                ? { success: true, message: `⭐ Added **${channel.tvg_name}** to your favourites.` }
+                : { success: false, message: `**${channel.tvg_name}** already is one of your favourites.` };
+        }
+
+        // Favourites of channels that left the playlist can still be removed
+        return await removeFavorite(userId, channelName)
+            ? { success: true, message: `Removed **${channelName}** from your favourites.` }
+            : { success: false, message: `**${channelName}** is not one of your favourites.` };
+    } catch (error) {
+        logger.error(`Error updating favourites: ${error}`);
+        return { success: false, message: 'An error occurred while updating your favourites.' };
+    }
+}
+
+/**
+ * Returns autocomplete choices for removing a favourite
+ * @param userId - Discord user ID
+ * @param query - Text typed by the user
+ * @returns Up to 25 favourite channels containing the text
+ */
+export async function getFavoriteChoices(userId: string, query: string): Promise<{ name: string, value: string }[]> {
+    const lowerQuery = query.toLowerCase();
+    return (await getFavorites(userId))
+        .filter(name => name.toLowerCase().includes(lowerQuery))
+        .slice(0, 25)
+        .map(name => ({ name: `⭐ ${name}`.slice(0, 100), value: name.slice(0, 100) }));
+}
+
+/**
+ * Handles the /favorites slash command interaction
+ * @param interaction - The Discord command interaction
+ */
+export async function handleFavoritesCommand(interaction: CommandInteraction) {
+    const action = interaction.options.get('action', true).value as 'add' | 'remove' | 'list';
+    if (action === 'list') {
+        await handleListCommand(interaction, 'favorites');
+        return;
+    }
+
+    const channelName = interaction.options.get('channel')?.value as string || '';
+    const result = await executeFavorites(interaction.user.id, action, channelName);
+    await interaction.reply({ content: result.message, flags: MessageFlags.Ephemeral });
+}
@@ -0,0 +1,95 @@
+import { CommandInteraction, EmbedBuilder, MessageFlags } from 'discord.js';
+import { getLogger } from '../../utils/logger';
+import { getStreamSessions } from '../../modules/database';
+import type { StopReason, StreamSession } from '../../interfaces/history';
+
+const logger = getLogger();
+const SESSIONS_PER_PAGE = 10;
+
+const STOP_REASONS: Record<StopReason, string> = {
+    manual: '⏹️ stopped',
+    idle: '💤 no viewers',
+    error: '❌ error',
+    switched: '🔀 switched',
+    ended: '🏁 stream ended',
+    interrupted: '⚠️ restart',
+};
+
+/**
+ * Formats a duration in seconds, e.g. "1h 05m"
+ * @param seconds - Duration in seconds
+ * @returns Formatted duration
+ */
+function formatDuration(seconds: number): string {
+    const minutes = Math.round(seconds / 60);
+    if (minutes < 60) return `${minutes}m`;
+    return `${Math.floor(minutes / 60)}h ${String(minutes % 60).padStart(2, '0')}m`;
+}
+
+/**
+ * Formats a stream session for the history embed
+ * @param session - Stored session
+ * @param now - Current Unix timestamp in seconds
+ * @returns Field name and value
+ */
+function formatSession(session: StreamSession, now: number): { name: string, value: string } {
+    const status = session.stop_reason ? STOP_REASONS[session.stop_reason] : '🔴 streaming';
+    const duration = formatDuration((session.stopped_at ?? now) - session.started_at);
+    const lines = [
+        `<t:${session.started_at}:f> • ${duration} • 👥 ${session.peak_viewers} • ${status}`,
+        `Requested by ${session.requester_id ? `<@${session.requester_id}>` : 'unknown'}`,
+    ];
+    if (session.programmes.length > 0) {
+        lines.push(`${session.replay ? '⏪ Replay' : '📺 Aired'}: ${session.programmes.map(programme => programme.title).join(', ')}`);
+    }
+    if (session.stop_reason === 'error' && session.error) {
+        lines.push(`Error: ${session.error.substring(0, 200)}`);
+    }
+    return { name: session.channel_name.substring(0, 256), value: lines.join('\n').substring(0, 1024) };
+}
+
+/**
+ * Builds a page of the watch history
+ * @param page - Page number, starting at 1
+ * @returns Object containing success status, message and history embed
+ */
+export async function executeHistory(page: number = 1): Promise<{ success: boolean, message: string, embed?: EmbedBuilder }> {
+    try {
+        const sessions = await getStreamSessions({ offset: (page - 1) * SESSIONS_PER_PAGE, limit: SESSIONS_PER_PAGE });
+        const totalPages = Math.max(1, Math.ceil(sessions.total / SESSIONS_PER_PAGE));
+
+        if (sessions.total === 0) {
+            return { success: false, message: 'Nothing has been streamed yet.' };
+        }
+        if (page < 1 || page > totalPages) {
+            return { success: false, message: `Invalid page number. Please provide a number between 1 and ${totalPages}.` };
+        }
+
+        const now = Math.floor(Date.now() / 1000);
+        const embed = new EmbedBuilder()
+            .setTitle(`📜 Watch History (Page ${page}/${totalPages})`)
+            .setColor('#0099ff')
+            .addFields(sessions.items.map(session => formatSession(session, now)))
+            .setFooter({ text: `${sessions.total} streams in total` })
+            .setTimestamp();
+
+        return { success: true, message: '', embed };
+    } catch (error) {
+        logger.error(`Error building watch history: ${error}`);
+        return { success: false, message: 'An error occurred while reading the watch history.' };
+    }
+}
+
+/**
+ * Handles the /history slash command interaction
+ * @param interaction - The Discord command interaction
+ */
+export async function handleHistoryCommand(interaction: CommandInteraction) {
+    await interaction.deferReply({ flags: MessageFlags.Ephemeral });
+    const page = interaction.options.get('page')?.value as number | undefined;
+    const result = await executeHistory(page ?? 1);
+    await interaction.editReply({
+        content: result.message || undefined,
+        embeds: result.embed ? [result.embed] : []
+    });
+}
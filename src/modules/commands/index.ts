@@ -3,3 +3,14 @@ export { handleStopCommand } from './stop';
 export { handleListCommand } from './list';
 export { handleRefreshCommand } from './refresh';
 export { handleProgrammeCommand } from './programme';
+export { handleEpgMapCommand, getEpgChannelChoices } from './epg-map';
+export { handleReplayCommand, getReplayChannelChoices, getReplayProgrammeChoices } from './replay';
+export { handleChannelRulesCommand } from './channel-rules';
+export { handleIngestReportCommand } from './ingest-report';
+export { handleScheduleStatusCommand } from './schedule-status';
+export { handleSearchCommand, getSearchGroupChoices } from './search';
+export { handleHistoryCommand } from './history';
+export { handleStatsCommand } from './stats';
+export { handleFavoritesCommand, getFavoriteChoices } from './favorites';
+export { handleBackupCommand, getBackupChoices } from './backup';
+export { handleQueueCommand } from './queue';
\ No newline at end of file
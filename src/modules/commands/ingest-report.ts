@@ -0,0 +1,38 @@
+import { CommandInteraction, EmbedBuilder, MessageFlags } from 'discord.js';
+import { getLogger } from '../../utils/logger';
+import { getIngestReport } from '../../modules/database';
+import { createIngestReportEmbed, isIngestReport } from '../embeds';
+
+const logger = getLogger();
+
+/**
+ * Builds the report of the last channel and programme refresh
+ * @returns Object containing success status, message and report embed
+ */
+export async function executeIngestReport(): Promise<{ success: boolean, message: string, embed?: EmbedBuilder }> {
+    try {
+        const report = await getIngestReport();
+        if (!isIngestReport(report)) {
+            return { success: false, message: 'No refresh has finished yet.' };
+        }
+
+        const { embed } = await createIngestReportEmbed(report);
+        return { success: true, message: '', embed };
+    } catch (error) {
+        logger.error(`Error building ingest report: ${error}`);
+        return { success: false, message: 'An error occurred while building the ingest report.' };
+    }
+}
+
+/**
+ * Handles the /ingest-report slash command interaction
+ * @param interaction - The Discord command interaction
+ */
+export async function handleIngestReportCommand(interaction: CommandInteraction) {
+    await interaction.deferReply({ flags: MessageFlags.Ephemeral });
+    const result = await executeIngestReport();
+    await interaction.editReply({
+        content: result.message || undefined,
+        embeds: result.embed ? [result.embed] : []
+    });
+}
@@ -1,6 +1,8 @@
-import { ActionRowBuilder, ButtonBuilder, ButtonInteraction, ButtonStyle, CommandInteraction, EmbedBuilder, GuildMember, MessageFlags, ComponentType } from 'discord.js';
+import { ActionRowBuilder, ButtonBuilder, ButtonInteraction, ButtonStyle, CommandInteraction, EmbedBuilder, GuildMember, MessageFlags, ComponentType, PermissionFlagsBits } from 'discord.js';
 import { getLogger } from '../../utils/logger';
-import { getChannelEntries } from '../../modules/database';
+import { getChannelByName, getChannelHealth, getFavorites } from '../../modules/database';
+import { getHealthIcon, getVisibleChannels } from '../../modules/iptv';
+import type { ChannelEntry, ChannelHealth } from '../../interfaces/iptv';
 import { executeStreamChannel } from './stream';
 import { executeStopStream } from './stop';
 
@@ -21,7 +23,8 @@ export async function generateChannelList(pageOption: string | number | undefine
     embed?: EmbedBuilder,
     components?: ActionRowBuilder<ButtonBuilder>[]
 }> {
-    const channelEntries = await getChannelEntries();
+    const channelEntries = await getVisibleChannels();
+    const health = await getChannelHealth();
     const itemsPerPage = 25;
 
     if (pageOption === 'all') {
@@ -32,7 +35,7 @@ export async function generateChannelList(pageOption: string | number | undefine
 
         for (let i = 0; i < channelEntries.length; i += 10) {
             const chunk = channelEntries.slice(i, i + 10);
-            const fieldValue = chunk.map(channel => `- ${channel.tvg_name || 'Unknown'}`).join('\n');
+            const fieldValue = chunk.map(channel => formatChannelLine(channel, health[channel.url])).join('\n');
             embed.addFields({ name: `Channels ${i + 1}-${i + chunk.length}`, value: fieldValue });
         }
 
@@ -72,7 +75,7 @@ export async function generateChannelList(pageOption: string | number | undefine
 
     for (let i = 0; i < channelsToDisplay.length; i += 10) {
         const chunk = channelsToDisplay.slice(i, i + 10);
-        const fieldValue = chunk.map(channel => `- ${channel.tvg_name || 'Unknown'}`).join('\n');
+        const fieldValue = chunk.map(channel => formatChannelLine(channel, health[channel.url])).join('\n');
         embed.addFields({ name: `Channels ${start + i + 1}-${start + i + chunk.length}`, value: fieldValue });
     }
 
@@ -130,6 +133,72 @@ export async function generateChannelList(pageOption: string | number | undefine
     };
 }
 
+/**
+ * Generates the list of a user's favourite channels with play buttons
+ * @param userId - Discord user ID
+ * @returns Response object containing embed, components and status information
+ */
+export async function generateFavoritesList(userId: string): Promise<{
+    success: boolean,
+    message: string,
+    channels?: ChannelEntry[],
+    embed?: EmbedBuilder,
+    components?: ActionRowBuilder<ButtonBuilder>[]
+}> {
+    const favorites = await getFavorites(userId);
+    if (favorites.length === 0) {
+        return { success: false, message: 'You have no favourite channels yet. Add one with `/favorites add`.' };
+    }
+
+    const health = await getChannelHealth();
+    const channels: ChannelEntry[] = [];
+    const lines: string[] = [];
+    for (const name of favorites) {
+        const channel = await getChannelByName(name);
+        if (channel) {
+            channels.push(channel);
+            lines.push(formatChannelLine(channel, health[channel.url]));
+        } else {
+            // Kept in case the channel comes back with a later playlist refresh
+            lines.push(`- ⚠️ ${name} (not in the playlist)`);
+        }
+    }
+
+    const embed = new EmbedBuilder()
+        .setTitle('⭐ Favourite Channels')
+        .setDescription(lines.join('\n').substring(0, 4096))
+        .setColor('#0099ff')
+        .setTimestamp();
+
+    const components: ActionRowBuilder<ButtonBuilder>[] = [];
+    const maxButtonsPerRow = 5;
+    const maxButtonRows = 5;
+    const channelsForButtons = channels.slice(0, maxButtonsPerRow * maxButtonRows);
+
+    for (let i = 0; i < channelsForButtons.length; i += maxButtonsPerRow) {
+        components.push(new ActionRowBuilder<ButtonBuilder>().addComponents(
+            // Keyed by position, since channel names can be longer than the 100 characters a custom ID allows
+            channelsForButtons.slice(i, i + maxButtonsPerRow).map((channel, index) => new ButtonBuilder()
+                .setCustomId(`play_favorite_${i + index}`)
+                .setLabel(`▶️ ${channel.tvg_name}`.substring(0, 80))
+                .setStyle(ButtonStyle.Success))
+        ));
+    }
+
+    return { success: true, message: '', channels, embed, components };
+}
+
+/**
+ * Formats a channel for the channel list, with its health icon and resolution
+ * @param channel - Channel to format
+ * @param health - Result of the last health check of the channel
+ * @returns List line such as "- 🟢 BBC One (1920x1080)"
+ */
+function formatChannelLine(channel: ChannelEntry, health?: ChannelHealth): string {
+    const resolution = health?.status === 'online' && health.resolution ? ` (${health.resolution})` : '';
+    return `- ${getHealthIcon(health)} ${channel.tvg_name || 'Unknown'}${resolution}`;
+}
+
 /**
  * Handles the play channel button interaction
  * @param interaction - The Discord button interaction
@@ -148,7 +217,7 @@ async function handlePlayChannelButton(interaction: ButtonInteraction, channelNa
     }
 
     // Pass false for includeInteractionButtons since this is called from list
-    const result = await executeStreamChannel(channelName, voiceChannel.id);
+    const result = await executeStreamChannel(channelName, voiceChannel.guild.id, voiceChannel.id, { id: interaction.user.id, name: interaction.user.tag });
 
     if (result.success) {
         await interaction.followUp({
@@ -170,7 +239,9 @@ async function handlePlayChannelButton(interaction: ButtonInteraction, channelNa
  * @param interaction - The Discord button interaction
  */
 async function handleStopStreamButton(interaction: ButtonInteraction) {
-    const result = await executeStopStream();
+    const voiceChannelId = (interaction.member as GuildMember).voice.channelId || undefined;
+    const canManage = interaction.memberPermissions?.has(PermissionFlagsBits.ManageChannels) ?? false;
+    const result = await executeStopStream(interaction.guildId || '', voiceChannelId, canManage);
 
     await interaction.followUp({
         content: result.message,
@@ -212,12 +283,15 @@ async function handlePaginationButton(interaction: ButtonInteraction, currentPag
 /**
  * Handles the list command interaction, displaying available channels
  * @param interaction - The Discord command interaction
+ * @param view - 'favorites' to show the user's favourite channels regardless of the page option
  */
-export async function handleListCommand(interaction: CommandInteraction) {
+export async function handleListCommand(interaction: CommandInteraction, view?: 'favorites') {
     try {
-        const rawPageOption = interaction.options.get('page')?.value;
+        const rawPageOption = view ?? interaction.options.get('page')?.value;
         const pageOption = typeof rawPageOption === 'number' || rawPageOption === 'all' ? rawPageOption : undefined;
-        const result = await generateChannelList(pageOption);
+        const result = rawPageOption === 'favorites'
+            ? await generateFavoritesList(interaction.user.id)
+            : await generateChannelList(pageOption);
 
         if (!result.success) {
             await interaction.reply({
@@ -255,7 +329,7 @@ export async function handleListCommand(interaction: CommandInteraction) {
             logger.debug(`Button clicked: ${i.customId} by ${i.user.tag}`);
             try {
                 await i.deferUpdate();
-                await handleButtonInteraction(i);
+                await handleButtonInteraction(i, result.channels);
             } catch (error) {
                 // ... error handling
             }
@@ -276,8 +350,9 @@ export async function handleListCommand(interaction: CommandInteraction) {
 /**
  * Handles button interactions from channel list
  * @param interaction - The Discord button interaction
+ * @param channels - Channels of the list the button belongs to, for buttons keyed by position
  */
-export async function handleButtonInteraction(interaction: ButtonInteraction) {
+export async function handleButtonInteraction(interaction: ButtonInteraction, channels: ChannelEntry[] = []) {
     logger.debug(`Button clicked: ${interaction.customId}`);
 
     try {
@@ -288,6 +363,11 @@ export async function handleButtonInteraction(interaction: ButtonInteraction) {
         if (interaction.customId.startsWith('play_channel_')) {
             const channelName = interaction.customId.replace('play_channel_', '');
             await handlePlayChannelButton(interaction, channelName);
+        } else if (interaction.customId.startsWith('play_favorite_')) {
+            const channel = channels[parseInt(interaction.customId.split('_').pop() || '')];
+            if (channel?.tvg_name) {
+                await handlePlayChannelButton(interaction, channel.tvg_name);
+            }
         } else if (interaction.customId === 'stop_stream') {
             await handleStopStreamButton(interaction);
         } else if (interaction.customId.startsWith('channel_list_prev_') || interaction.customId.startsWith('channel_list_next_')) {
@@ -1,8 +1,8 @@
 import { ActionRowBuilder, ButtonBuilder, ButtonInteraction, ButtonStyle, CommandInteraction, ComponentType, EmbedBuilder, MessageFlags, type Channel } from 'discord.js';
 import { getLogger } from '../../utils/logger';
-import { getChannelEntries, getProgrammeEntries } from '../../modules/database';
+import { getChannelByName, getChannelEntries, getProgrammesForChannel } from '../../modules/database';
 import type { ChannelEntry, ProgrammeEntry } from '../../interfaces/iptv';
-import { getCurrentChannelEntry } from '../streaming';
+import { getActiveSessions } from '../streaming';
 import { ProgrammeEmbedProcessor } from '../embeds/programme';
 
 const logger = getLogger();
@@ -13,28 +13,22 @@ const logger = getLogger();
  */
 export async function generateProgrammeInfo(channelName: string) {
     try {
-        const channels = await getChannelEntries();
-        const channel = channels.find(ch => ch.tvg_name?.toLowerCase() === channelName.toLowerCase());
+        const channel = await getChannelByName(channelName);
 
-        if (!channel || !channel.tvg_id) {
+        if (!channel) {
             return { success: false, message: `Channel not found: ${channelName}`, embeds: [] };
         }
 
-        const allProgrammes = await getProgrammeEntries();
-        const channelProgrammes = allProgrammes.filter(p => p.channel === channel.tvg_id);
-
         const now = Math.floor(Date.now() / 1000);
-        const futureProgrammes = channelProgrammes
-            .filter(p => typeof p.stop_timestamp === 'number' && p.stop_timestamp >= now)
-            .sort((a, b) => (a.start_timestamp ?? 0) - (b.start_timestamp ?? 0))
-            .slice(0, 10); // Get the next 10 upcoming shows
+        // Get the next 10 upcoming shows
+        const futureProgrammes = (await getProgrammesForChannel(channel, now, Number.MAX_SAFE_INTEGER, { limit: 10 })).items;
 
         if (futureProgrammes.length === 0) {
             return { success: false, message: `No upcoming programmes found for channel: ${channelName}`, embeds: [] };
         }
 
         // Use the moved embed generation function
-        const embedsToSend = ProgrammeEmbedProcessor.generateProgrammeInfoEmbeds(channelName, channelProgrammes);
+        const embedsToSend = ProgrammeEmbedProcessor.generateProgrammeInfoEmbeds(channelName, futureProgrammes);
 
         if (embedsToSend.length === 0) {
             return { success: false, message: `No programme information available for channel: ${channelName}`, embeds: [] };
@@ -80,12 +74,14 @@ export async function generateProgrammeList(pageOption: number = 1): Promise<{
     const end = start + itemsPerPage;
     const channelsToDisplay = channelEntries.slice(start, end);
 
-    const liveChannel: ChannelEntry | null = getCurrentChannelEntry();
+    const liveChannels = getActiveSessions()
+        .map(session => session.channelEntry)
+        .filter((channel): channel is ChannelEntry => channel !== null);
 
     // Use the moved embed generation function
     const embed = ProgrammeEmbedProcessor.generateChannelListEmbed(
         channelsToDisplay,
-        liveChannel,
+        liveChannels,
         pageOption,
         totalPages
     );
@@ -118,7 +114,7 @@ export async function generateProgrammeList(pageOption: number = 1): Promise<{
 
         for (const channel of chunk) {
             if (channel.tvg_name) {
-                const isLive = liveChannel?.tvg_name === channel.tvg_name;
+                const isLive = liveChannels.some(live => live.tvg_name === channel.tvg_name);
 
                 // Sanitize the channel name for use in custom ID
                 // Discord has a 100 character limit on custom IDs
@@ -0,0 +1,209 @@
+import { CommandInteraction, EmbedBuilder, GuildMember, MessageFlags, PermissionFlagsBits } from 'discord.js';
+import { getLogger } from '../../utils/logger';
+import { config } from '../../utils/config';
+import { getChannelByName } from '../../modules/database';
+import { addToQueue, clearQueue, findActiveSession, getQueue, skipQueue, type ActiveSession } from '../../modules/streaming';
+import type { StreamRequester } from '../../interfaces/history';
+import type { QueueEntry, QueueStatus } from '../../interfaces/queue';
+
+const logger = getLogger();
+const NO_SESSION_MESSAGE = 'Nothing is streaming in your voice channel. Start a stream with `/stream` first.';
+
+/**
+ * Converts a time of day to the next time it occurs
+ * @param input - Time such as "22:00" or "9.30", in QUEUE_TIMEZONE
+ * @param now - Current Unix timestamp in seconds
+ * @returns Unix timestamp in seconds, or null if the time is invalid or more than a day ahead
+ */
+function parseSwitchTime(input: string, now: number): number | null {
+    const match = input.trim().match(/^(\d{1,2})[:.](\d{2})$/);
+    if (!match) {
+        return null;
+    }
+    const hours = parseInt(match[1]!);
+    const minutes = parseInt(match[2]!);
+    if (hours > 23 || minutes > 59) {
+        return null;
+    }
+
+    const today = getZonedTime(now);
+    for (const day of [today.day, today.day + 1]) {
+        // Date.UTC rolls over to the next month. The offset is looked up again at the estimate, so times skipped by DST move forward
+        const wallClock = Date.UTC(today.year, today.month - 1, day, hours, minutes) / 1000;
+        const estimate = wallClock - getZonedTime(wallClock).offset;
+        const switchAt = wallClock - getZonedTime(estimate).offset;
+        if (switchAt > now) {
+            return switchAt - now <= 24 * 60 * 60 ? switchAt : null;
+        }
+    }
+    return null;
+}
+
+/**
+ * Returns the date and UTC offset of a time in QUEUE_TIMEZONE
+ * @param timestamp - Unix timestamp in seconds
+ * @returns Year, month and day, and the offset from UTC in seconds
+ */
+function getZonedTime(timestamp: number): { year: number, month: number, day: number, offset: number } {
+    const formatter = new Intl.DateTimeFormat('en-US', {
+        timeZone: config.QUEUE_TIMEZONE,
+        hourCycle: 'h23',
+        year: 'numeric', month: 'numeric', day: 'numeric',
+        hour: 'numeric', minute: 'numeric', second: 'numeric',
+    });
+    const parts = Object.fromEntries(formatter.formatToParts(new Date(timestamp * 1000)).map(part => [part.type, parseInt(part.value)]));
+    const local = Date.UTC(parts.year!, parts.month! - 1, parts.day!, parts.hour!, parts.minute!, parts.second!) / 1000;
+    return { year: parts.year!, month: parts.month!, day: parts.day!, offset: local - timestamp };
+}
+
+/**
+ * Describes when a queue entry starts
+ * @param entry - Queued channel
+ * @param index - Position in the queue, starting at 0
+ * @param status - Queue status with the switch time of the first entry
+ * @returns Description such as "at 22:00" or "after Match ends at 22:05"
+ */
+function describeSwitch(entry: QueueEntry, index: number, status: QueueStatus): string {
+    if (entry.switch_at !== null) {
+        return `at <t:${entry.switch_at}:t>`;
+    }
+    if (index > 0) {
+        return 'after the programme airing then';
+    }
+    if (status.waiting_for) {
+        return `after **${status.waiting_for.title}** ends <t:${status.waiting_for.stop_timestamp}:t>`;
+    }
+    return status.next_switch === null ? 'when the stream ends' : 'right away';
+}
+
+/**
+ * Adds a channel to the queue of a stream session
+ * @param session - Session to queue the channel in
+ * @param channelName - Name of the channel to switch to
+ * @param at - Time of day to switch at, or undefined to switch after the airing programme
+ * @param requester - User who queued the channel
+ * @returns Object containing success status and result message
+ */
+export async function executeQueueAdd(session: ActiveSession, channelName: string, at?: string, requester?: StreamRequester): Promise<{ success: boolean, message: string }> {
+    if (!channelName) {
+        return { success: false, message: 'Please specify a channel name.' };
+    }
+
+    try {
+        const channel = await getChannelByName(channelName);
+        if (!channel) {
+            return { success: false, message: `Channel not found: ${channelName}` };
+        }
+
+        let switchAt: number | null = null;
+        if (at) {
+            switchAt = parseSwitchTime(at, Math.floor(Date.now() / 1000));
+            if (switchAt === null) {
+                return { success: false, message: `Invalid time: ${at}. Use hours and minutes in ${config.QUEUE_TIMEZONE}, e.g. \`22:00\`.` };
+            }
+        }
+
+        const entry = await addToQueue(session.guildId, session.voiceChannelId, channel, switchAt, requester);
+        const status = await getQueue(session.guildId, session.voiceChannelId);
+        const index = status?.entries.findIndex(queued => queued.id === entry.id) ?? -1;
+        if (!status || index < 0) {
+            return { success: true, message: `🔀 Switched to **${channel.tvg_name}**.` };
+        }
+
+        return {
+            success: true,
+            message: `📋 Queued **${channel.tvg_name}** at position ${index + 1}, switching ${describeSwitch(entry, index, status)}.`
+        };
+    } catch (error) {
+        logger.error(`Error adding to the queue: ${error}`);
+        return { success: false, message: `Error adding to the queue: ${error instanceof Error ? error.message : error}` };
+    }
+}
+
+/**
+ * Lists the queue of a stream session
+ * @param session - Session whose queue is listed
+ * @returns Object containing success status, message and queue embed
+ */
+export async function executeQueueList(session: ActiveSession): Promise<{ success: boolean, message: string, embed?: EmbedBuilder }> {
+    const status = await getQueue(session.guildId, session.voiceChannelId);
+    if (!status || status.entries.length === 0) {
+        return { success: false, message: 'The queue is empty. Add a channel with `/queue add`.' };
+    }
+
+    const lines = status.entries.map((entry, index) =>
+        `**${index + 1}. ${entry.channel.tvg_name}** • ${describeSwitch(entry, index, status)}` +
+        (entry.requester ? ` • queued by <@${entry.requester.id}>` : ''));
+
+    const embed = new EmbedBuilder()
+        .setTitle('📋 Queue')
+        .setDescription(`Now streaming in <#${session.voiceChannelId}>: **${session.channelEntry?.tvg_name || 'nothing'}**\n\n${lines.join('\n')}`.substring(0, 4096))
+        .setFooter({ text: 'Switch times follow the programme guide' })
+        .setColor('#0099ff')
+        .setTimestamp();
+    return { success: true, message: '', embed };
+}
+
+/**
+ * Switches a stream session to the first channel of its queue right away
+ * @param session - Session to switch
+ * @returns Object containing success status and result message
+ */
+export function executeQueueSkip(session: ActiveSession): { success: boolean, message: string } {
+    const entry = skipQueue(session.guildId, session.voiceChannelId);
+    return entry
+        ? { success: true, message: `⏭️ Switched to **${entry.channel.tvg_name}**.` }
+        : { success: false, message: 'The queue is empty.' };
+}
+
+/**
+ * Removes all channels from the queue of a stream session
+ * @param session - Session whose queue is cleared
+ * @returns Object containing success status and result message
+ */
+export function executeQueueClear(session: ActiveSession): { success: boolean, message: string } {
+    const removed = clearQueue(session.guildId, session.voiceChannelId);
+    return removed > 0
+        ? { success: true, message: `Removed ${removed} ${removed === 1 ? 'channel' : 'channels'} from the queue.` }
+        : { success: false, message: 'The queue is empty.' };
+}
+
+/**
+ * Handles the /queue slash command interaction
+ * @param interaction - The Discord command interaction
+ */
+export async function handleQueueCommand(interaction: CommandInteraction) {
+    try {
+        const action = interaction.options.get('action', true).value as 'add' | 'list' | 'skip' | 'clear';
+        await interaction.deferReply({ flags: MessageFlags.Ephemeral });
+
+        const voiceChannelId = (interaction.member as GuildMember | null)?.voice.channelId || undefined;
+        const canManage = interaction.memberPermissions?.has(PermissionFlagsBits.ManageChannels) ?? false;
+        const session = findActiveSession(interaction.guildId || '', voiceChannelId, canManage);
+        if (!session) {
+            await interaction.editReply(NO_SESSION_MESSAGE);
+            return;
+        }
+
+        if (action === 'add') {
+            const channelName = interaction.options.get('channel')?.value as string || '';
+            const at = interaction.options.get('at')?.value as string | undefined;
+            const result = await executeQueueAdd(session, channelName, at, { id: interaction.user.id, name: interaction.user.tag });
+            await interaction.editReply(result.message);
+        } else if (action === 'list') {
+            const result = await executeQueueList(session);
+            await interaction.editReply({ content: result.message || undefined, embeds: result.embed ? [result.embed] : [] });
+        } else if (action === 'skip') {
+            await interaction.editReply(executeQueueSkip(session).message);
+        } else {
+            await interaction.editReply(executeQueueClear(session).message);
+        }
+    } catch (error) {
+        logger.error(`Error handling queue command: ${error}`);
+        try {
+            await interaction.editReply('An error occurred while processing your request.');
+        } catch (replyError) {
+            logger.error(`Error sending reply: ${replyError}`);
+        }
+    }
+}
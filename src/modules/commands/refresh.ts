@@ -1,43 +1,98 @@
-import { CommandInteraction, MessageFlags } from 'discord.js';
+import { CommandInteraction, EmbedBuilder, MessageFlags } from 'discord.js';
 import { getLogger } from '../../utils/logger';
-import { downloadCacheAndFillDb, fillDbChannels, fillDbProgrammes } from '../../modules/iptv';
+import { downloadCacheAndFillDb, fillDbChannels, fillDbProgrammes, REFRESH_LOCK, rollbackRefresh } from '../../modules/iptv';
+import { withLock } from '../../modules/scheduler';
+import { getIngestReport } from '../../modules/database';
+import { createIngestReportEmbed } from '../embeds';
 
 const logger = getLogger();
 
 /**
  * Executes a refresh operation for channel or program data
- * @param type - Type of refresh operation ('all', 'channels', or 'programme')
- * @returns Object containing success status and result message
+ * @param type - Type of refresh operation ('all', 'channels', 'programme' or 'rollback')
+ * @param skipChecks - Whether to store the new data even if it fails the sanity checks
+ * @returns Object containing success status, result message and the ingest report embed
+ */
+export async function executeRefresh(type: string, skipChecks = false): Promise<{ success: boolean, message: string, embed?: EmbedBuilder }> {
+    const result = await withLock(REFRESH_LOCK, () => runRefresh(type, skipChecks));
+    return result || { success: false, message: 'Another refresh is running, try again once it has finished.' };
+}
+
+/**
+ * Runs a refresh operation while holding the refresh lock
+ * @param type - Type of refresh operation ('all', 'channels', 'programme' or 'rollback')
+ * @param skipChecks - Whether to store the new data even if it fails the sanity checks
+ * @returns Object containing success status, result message and the ingest report embed
  */
-export async function executeRefresh(type: string): Promise<{ success: boolean, message: string }> {
+async function runRefresh(type: string, skipChecks: boolean): Promise<{ success: boolean, message: string, embed?: EmbedBuilder }> {
     try {
+        let refreshed: boolean;
         if (type === 'all') {
             logger.info('Refreshing all data...');
-            await downloadCacheAndFillDb(true);
+            refreshed = await downloadCacheAndFillDb(true, skipChecks);
         } else if (type === 'channels') {
             logger.info('Refreshing channels...');
-            await fillDbChannels(true);
+            refreshed = await fillDbChannels(true, skipChecks);
         } else if (type === 'programme') {
             logger.info('Refreshing programme...');
-            await fillDbProgrammes(true);
+            refreshed = await fillDbProgrammes(true, skipChecks);
+        } else if (type === 'rollback') {
+            return await executeRollback();
         } else {
             return { success: false, message: `Unknown refresh type: ${type}` };
         }
 
+        const { embed } = await createIngestReportEmbed(await getIngestReport());
+        if (!refreshed) {
+            return {
+                success: false,
+                message: `The ${type} refresh failed or was refused by the sanity checks, the previous data is kept. ` +
+                    'Check the report and logs, or refresh again with `skip_checks` to accept the new data.',
+                embed
+            };
+        }
+
         logger.info(`Successfully refreshed ${type} data.`);
-        return { success: true, message: `Successfully refreshed ${type} data.` };
+        return { success: true, message: `Successfully refreshed ${type} data.`, embed };
     } catch (error) {
         logger.error(`Error refreshing ${type} data: ${error}`);
         return { success: false, message: `Failed to refresh ${type} data.` };
     }
 }
 
+/**
+ * Restores the channels and programmes replaced by the last successful refresh
+ * @returns Object containing success status and result message
+ */
+async function executeRollback(): Promise<{ success: boolean, message: string }> {
+    logger.info('Rolling back to the previous data...');
+    const { channels, programmes } = await rollbackRefresh();
+    if (!channels && !programmes) {
+        return { success: false, message: 'There is no previous data to roll back to.' };
+    }
+
+    const describe = (label: string, result: typeof channels) => result
+        ? `${result.count} ${label}${result.saved_at ? ` (replaced ${new Date(result.saved_at).toLocaleString()})` : ''}`
+        : `${label} unchanged`;
+    return {
+        success: true,
+        message: `Rolled back to ${describe('channels', channels)} and ${describe('programmes', programmes)}. Run the rollback again to undo it.`
+    };
+}
+
 /**
  * Handles the /refresh slash command interaction
  * @param interaction - The Discord command interaction
  */
 export async function handleRefreshCommand(interaction: CommandInteraction) {
     const type = interaction.options.get('type', true).value as string;
-    const result = await executeRefresh(type);
-    await interaction.reply({ content: result.message, flags: MessageFlags.Ephemeral });
+    const skipChecks = interaction.options.get('skip_checks')?.value === true;
+
+    // Refreshes can take longer than the 3 seconds Discord waits for a reply
+    await interaction.deferReply({ flags: MessageFlags.Ephemeral });
+    const result = await executeRefresh(type, skipChecks);
+    await interaction.editReply({
+        content: result.message,
+        embeds: result.embed ? [result.embed] : []
+    });
 }
@@ -0,0 +1,169 @@
+import { CommandInteraction, EmbedBuilder, GuildMember, MessageFlags } from 'discord.js';
+import { getLogger } from '../../utils/logger';
+import { getChannelByName, getProgrammesForChannel, searchChannels } from '../../modules/database';
+import { initializeStreamer, joinVoiceChannel, startStreaming } from '../../modules/streaming';
+import { createProgrammeEmbed } from '../embeds';
+import { buildCatchupUrl, getCatchupDays, isReplayable } from '../iptv';
+import type { ChannelEntry, ProgrammeEntry } from '../../interfaces/iptv';
+import type { StreamRequester } from '../../interfaces/history';
+
+const logger = getLogger();
+
+/**
+ * Finds a channel by name, ignoring case
+ * @param channelName - Name of the channel
+ * @returns The channel or undefined if not found
+ */
+async function findChannel(channelName: string): Promise<ChannelEntry | undefined> {
+    return await getChannelByName(channelName) || undefined;
+}
+
+/**
+ * Returns the programmes of a channel that can still be replayed, most recent first
+ * @param channel - Channel with catch-up support
+ * @returns Replayable programmes
+ */
+async function getReplayableProgrammes(channel: ChannelEntry): Promise<ProgrammeEntry[]> {
+    const now = Math.floor(Date.now() / 1000);
+    const oldest = now - getCatchupDays(channel) * 24 * 60 * 60;
+    return (await getProgrammesForChannel(channel, oldest, now)).items
+        .filter(p => isReplayable(channel, p, now))
+        .sort((a, b) => b.start_timestamp - a.start_timestamp);
+}
+
+/**
+ * Streams a past programme of a channel through its catch-up URL
+ * @param channelName - Name of the channel the programme aired on
+ * @param programmeStart - Start timestamp of the programme in seconds
+ * @param guildId - Discord guild ID of the voice channel
+ * @param voiceChannelId - Discord voice channel ID to stream to
+ * @param requester - User who started the replay, recorded in the watch history
+ * @returns Object containing success status, message and programme embed
+ */
+export async function executeReplay(
+    channelName: string,
+    programmeStart: string,
+    guildId: string,
+    voiceChannelId: string,
+    requester?: StreamRequester
+): Promise<{ success: boolean; message: string; embed?: EmbedBuilder }> {
+    try {
+        const channel = await findChannel(channelName);
+        if (!channel) {
+            return { success: false, message: `Channel not found: ${channelName}` };
+        }
+        if (!channel.catchup) {
+            return { success: false, message: `${channel.tvg_name} does not support catch-up.` };
+        }
+
+        const start = parseInt(programmeStart);
+        const programme = (await getReplayableProgrammes(channel)).find(p => p.start_timestamp === start);
+        if (!programme) {
+            return { success: false, message: 'Programme not found or no longer available for replay. Pick one from the suggestions.' };
+        }
+
+        const url = buildCatchupUrl(channel, programme);
+        if (!url) {
+            return { success: false, message: `Could not build a catch-up URL for ${channel.tvg_name} (${channel.catchup}).` };
+        }
+
+        if (!voiceChannelId) {
+            return { success: false, message: 'You need to be in a voice channel to use this function.' };
+        }
+
+        await initializeStreamer();
+        await new Promise(resolve => setTimeout(resolve, 750));
+
+        // Joining keeps the account of a voice channel that is already streaming
+        logger.info('Joining voice channel...');
+        try {
+            await joinVoiceChannel(guildId, voiceChannelId);
+        } catch (error) {
+            return { success: false, message: `Could not join the voice channel: ${error instanceof Error ? error.message : error}` };
+        }
+        await new Promise(resolve => setTimeout(resolve, 750));
+
+        logger.info(`Replaying "${programme.title}" from ${programme.start} on ${channel.tvg_name}`);
+        logger.debug(`Catch-up URL: ${url}`);
+
+        // we will not await this as it's a void function, but we need to call it to start the stream
+        startStreaming(guildId, voiceChannelId, { ...channel, url }, { requester, replay: programme });
+
+        const { embed } = await createProgrammeEmbed(programme, { title: `⏪ Replay: ${programme.title}` });
+        embed.setFooter({ text: `${channel.tvg_name} • aired ${new Date(programme.start).toLocaleString()}` });
+        return { success: true, message: '', embed };
+    } catch (error) {
+        logger.error(`Error replaying programme: ${error}`);
+        return { success: false, message: 'An error occurred while starting the replay.' };
+    }
+}
+
+/**
+ * Returns autocomplete choices for channels with catch-up support
+ * @param query - Text typed by the user
+ * @returns Up to 25 matching channels
+ */
+export async function getReplayChannelChoices(query: string): Promise<{ name: string, value: string }[]> {
+    const channels = await searchChannels(query, 25, { filter: channel => !!channel.catchup });
+
+    return channels.items
+        .map(channel => ({ name: channel.tvg_name!.slice(0, 100), value: channel.tvg_name!.slice(0, 100) }));
+}
+
+/**
+ * Returns autocomplete choices for the replayable programmes of a channel
+ * @param channelName - Channel selected in the command
+ * @param query - Text typed by the user
+ * @returns Up to 25 matching programmes, most recent first
+ */
+export async function getReplayProgrammeChoices(channelName: string, query: string): Promise<{ name: string, value: string }[]> {
+    const channel = channelName ? await findChannel(channelName) : undefined;
+    if (!channel?.catchup) {
+        return [];
+    }
+
+    const lowerQuery = query.toLowerCase();
+    return (await getReplayableProgrammes(channel))
+        .filter(p => p.title.toLowerCase().includes(lowerQuery) || p.sub_title?.toLowerCase().includes(lowerQuery))
+        .slice(0, 25)
+        .map(p => {
+            const start = new Date(p.start_timestamp * 1000);
+            const date = start.toLocaleDateString([], { weekday: 'short', day: 'numeric', month: 'short' });
+            const time = start.toLocaleTimeString([], { hour: '2-digit', minute: '2-digit', hour12: false });
+            const episode = p.episode_num ? ` ${p.episode_num}` : '';
+            return { name: `${date} ${time} – ${p.title}${episode}`.slice(0, 100), value: String(p.start_timestamp) };
+        });
+}
+
+/**
+ * Handles the /replay slash command interaction
+ * @param interaction - The Discord command interaction
+ */
+export async function handleReplayCommand(interaction: CommandInteraction) {
+    try {
+        const channelName = interaction.options.get('channel', true).value as string;
+        const programmeStart = interaction.options.get('programme', true).value as string;
+
+        await interaction.deferReply({ flags: MessageFlags.Ephemeral });
+
+        const member = interaction.member as GuildMember;
+        const voiceChannel = member.voice.channel;
+        if (!voiceChannel) {
+            await interaction.editReply('You need to be in a voice channel to use this command.');
+            return;
+        }
+
+        const result = await executeReplay(channelName, programmeStart, voiceChannel.guild.id, voiceChannel.id, { id: interaction.user.id, name: interaction.user.tag });
+        await interaction.editReply({
+            content: result.message || undefined,
+            embeds: result.embed ? [result.embed] : []
+        });
+    } catch (error) {
+        logger.error(`Error handling replay command: ${error}`);
+        try {
+            await interaction.editReply('An error occurred while processing your request.');
+        } catch (replyError) {
+            logger.error(`Error sending reply: ${replyError}`);
+        }
+    }
+}
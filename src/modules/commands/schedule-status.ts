@@ -0,0 +1,73 @@
+import { CommandInteraction, EmbedBuilder, MessageFlags } from 'discord.js';
+import { getLogger } from '../../utils/logger';
+import { getJobStatuses, isLocked } from '../../modules/scheduler';
+import { REFRESH_LOCK } from '../../modules/iptv';
+import type { JobRunStatus } from '../../interfaces/scheduler';
+
+const logger = getLogger();
+
+const STATUS_ICONS: Record<JobRunStatus, string> = {
+    success: '✅',
+    failed: '⚠️',
+    skipped: '⏭️',
+    error: '❌',
+};
+
+/**
+ * Builds an overview of the scheduled jobs with their last and next runs
+ * @returns Object containing success status, message and status embed
+ */
+export async function executeScheduleStatus(): Promise<{ success: boolean, message: string, embed?: EmbedBuilder }> {
+    try {
+        const jobs = await getJobStatuses();
+        if (jobs.length === 0) {
+            return { success: false, message: 'No jobs are scheduled yet.' };
+        }
+
+        const timestamp = (time: string) => `<t:${Math.floor(Date.parse(time) / 1000)}:R>`;
+        const embed = new EmbedBuilder()
+            .setTitle('🗓️ Schedule Status')
+            .setDescription(isLocked(REFRESH_LOCK) ? '🔒 A refresh is running.' : 'No refresh is running.')
+            .setColor('#0099ff')
+            .setTimestamp();
+
+        for (const job of jobs) {
+            const lines = [`Schedule: \`${job.schedule}\``];
+            if (job.running) {
+                lines.push('🔄 Running now');
+            }
+            if (job.last_run) {
+                const duration = job.last_duration !== undefined ? ` in ${(job.last_duration / 1000).toFixed(1)}s` : '';
+                const icon = job.last_status ? `${STATUS_ICONS[job.last_status]} ${job.last_status}` : '';
+                lines.push(`Last run: ${timestamp(job.last_run)} ${icon}${duration}`);
+            } else {
+                lines.push('Last run: never');
+            }
+            if (job.last_error) {
+                lines.push(`Reason: ${job.last_error.substring(0, 200)}`);
+            }
+            if (job.next_run) {
+                lines.push(`Next run: ${timestamp(job.next_run)}`);
+            }
+            embed.addFields({ name: `${job.description} (${job.name})`, value: lines.join('\n').substring(0, 1024) });
+        }
+
+        return { success: true, message: '', embed };
+    } catch (error) {
+        logger.error(`Error building schedule status: ${error}`);
+        return { success: false, message: 'An error occurred while reading the schedule.' };
+    }
+}
+
+/**
+ * Handles the /schedule-status slash command interaction
+ * @param interaction - The Discord command interaction
+ */
+export async function handleScheduleStatusCommand(interaction: CommandInteraction) {
+    await interaction.deferReply({ flags: MessageFlags.Ephemeral });
+    const result = await executeScheduleStatus();
+    await interaction.editReply({
+        content: result.message || undefined,
+        embeds: result.embed ? [result.embed] : []
+    });
+}
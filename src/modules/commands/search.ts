@@ -0,0 +1,253 @@
+import { ActionRowBuilder, ButtonBuilder, ButtonInteraction, ButtonStyle, CommandInteraction, ComponentType, EmbedBuilder, GuildMember, MessageFlags } from 'discord.js';
+import { getLogger } from '../../utils/logger';
+import { config } from '../../utils/config';
+import { getChannelEntries, getChannelHealth, searchProgrammes, type ProgrammeSearchResult } from '../../modules/database';
+import { setReminder } from '../../modules/reminders';
+import { ProgrammeEmbedProcessor } from '../embeds';
+import { executeStreamChannel } from './stream';
+
+const logger = getLogger();
+
+/**
+ * Number of results listed in the embed
+ */
+const MAX_RESULTS = 10;
+
+/**
+ * Number of results with stream and reminder buttons, one action row each
+ */
+const MAX_BUTTON_RESULTS = 5;
+
+/**
+ * Time ranges offered by the "when" option
+ */
+export type SearchWhen = 'now' | 'today' | 'tomorrow' | 'week';
+
+/**
+ * Converts the "when" option to a time range
+ * @param when - Selected range, or undefined for all upcoming programmes
+ * @param now - Current Unix timestamp in seconds
+ * @returns Range in Unix timestamps in seconds
+ */
+function getSearchRange(when: SearchWhen | undefined, now: number): { from: number, to?: number } {
+    const midnight = new Date(now * 1000);
+    midnight.setHours(24, 0, 0, 0);
+    const endOfToday = Math.floor(midnight.getTime() / 1000);
+    midnight.setDate(midnight.getDate() + 1);
+    const endOfTomorrow = Math.floor(midnight.getTime() / 1000);
+
+    switch (when) {
+        case 'now':
+            return { from: now, to: now + 1 };
+        case 'today':
+            return { from: now, to: endOfToday };
+        case 'tomorrow':
+            return { from: endOfToday, to: endOfTomorrow };
+        case 'week':
+            return { from: now, to: now + 7 * 24 * 60 * 60 };
+        default:
+            return { from: now };
+    }
+}
+
+/**
+ * Formats a search result for the result list
+ * @param result - Programme and channel
+ * @param index - Position in the list, starting at 0
+ * @param now - Current Unix timestamp in seconds
+ * @returns List line with channel and time
+ */
+function formatResult(result: ProgrammeSearchResult, index: number, now: number): string {
+    const { channel, programme } = result;
+    const episode = ProgrammeEmbedProcessor.formatEpisode(programme);
+    const time = programme.start_timestamp <= now
+        ? `🔴 airing, ends <t:${programme.stop_timestamp}:t>`
+        : `<t:${programme.start_timestamp}:f> (<t:${programme.start_timestamp}:R>)`;
+    return `**${index + 1}. ${programme.title}**${episode ? ` – ${episode}` : ''}\n📺 ${channel.tvg_name} • ${time}`;
+}
+
+/**
+ * Searches upcoming and airing programmes and builds the result message
+ * @param query - Words to search for in titles, episode titles, descriptions and categories
+ * @param when - Time range to search, or undefined for all upcoming programmes
+ * @param group - Only channels whose group contains this text
+ * @returns Response object with the results, embed and buttons
+ */
+export async function executeSearch(query: string, when?: SearchWhen, group?: string): Promise<{
+    success: boolean,
+    message: string,
+    results?: ProgrammeSearchResult[],
+    embed?: EmbedBuilder,
+    components?: ActionRowBuilder<ButtonBuilder>[]
+}> {
+    if (!query.trim()) {
+        return { success: false, message: 'Please enter something to search for.' };
+    }
+
+    const now = Math.floor(Date.now() / 1000);
+    const health = await getChannelHealth();
+    const groupFilter = group?.trim().toLowerCase();
+
+    const results = await searchProgrammes(query, {
+        ...getSearchRange(when, now),
+        limit: MAX_RESULTS,
+        filter: channel => (!config.HIDE_OFFLINE_CHANNELS || health[channel.url]?.status !== 'offline') &&
+            (!groupFilter || (channel.group_title || '').toLowerCase().includes(groupFilter)),
+    });
+
+    if (results.length === 0) {
+        return { success: false, message: `No programmes found for "${query}".` };
+    }
+
+    const embed = new EmbedBuilder()
+        .setTitle(`🔎 Programmes matching "${query}"`.substring(0, 256))
+        .setDescription(results.map((result, index) => formatResult(result, index, now)).join('\n\n').substring(0, 4096))
+        .setColor('#0099ff')
+        .setTimestamp()
+        .setFooter({ text: 'Programme information is subject to change' });
+
+    const components = results.slice(0, MAX_BUTTON_RESULTS).map((result, index) => {
+        const airing = result.programme.start_timestamp <= now;
+        return new ActionRowBuilder<ButtonBuilder>().addComponents(
+            new ButtonBuilder()
+                .setCustomId(`search_stream_${index}`)
+                .setLabel(`▶️ ${index + 1}. ${result.channel.tvg_name}`.substring(0, 80))
+                .setStyle(ButtonStyle.Success),
+            new ButtonBuilder()
+                .setCustomId(`search_remind_${index}`)
+                .setLabel(`⏰ Remind me`)
+                .setStyle(ButtonStyle.Secondary)
+                .setDisabled(airing)
+        );
+    });
+
+    return { success: true, message: '', results, embed, components };
+}
+
+/**
+ * Handles the stream button of a search result
+ * @param interaction - The Discord button interaction
+ * @param result - Selected result
+ */
+async function handleStreamButton(interaction: ButtonInteraction, result: ProgrammeSearchResult) {
+    const voiceChannel = (interaction.member as GuildMember).voice.channel;
+    if (!voiceChannel) {
+        await interaction.followUp({
+            content: 'You need to be in a voice channel to play this channel.',
+            flags: MessageFlags.Ephemeral
+        });
+        return;
+    }
+
+    const streamResult = await executeStreamChannel(result.channel.tvg_name || '', voiceChannel.guild.id, voiceChannel.id, { id: interaction.user.id, name: interaction.user.tag });
+    await interaction.followUp({
+        content: streamResult.message,
+        embeds: streamResult.success && streamResult.embed ? [streamResult.embed] : [],
+        components: streamResult.success ? streamResult.components || [] : [],
+        flags: MessageFlags.Ephemeral
+    });
+}
+
+/**
+ * Handles the reminder button of a search result
+ * @param interaction - The Discord button interaction
+ * @param result - Selected result
+ */
+async function handleRemindButton(interaction: ButtonInteraction, result: ProgrammeSearchResult) {
+    const { channel, programme } = result;
+    if (programme.start_timestamp <= Math.floor(Date.now() / 1000)) {
+        await interaction.followUp({
+            content: `**${programme.title}** has already started.`,
+            flags: MessageFlags.Ephemeral
+        });
+        return;
+    }
+
+    const added = await setReminder(interaction.user.id, interaction.channelId, channel, programme);
+    await interaction.followUp({
+        content: added
+            ? `⏰ I will remind you ${config.REMINDER_LEAD > 0 ? `${config.REMINDER_LEAD} minutes before` : 'when'} **${programme.title}** starts on **${channel.tvg_name}** <t:${programme.start_timestamp}:R>.`
+            : `You already have a reminder for **${programme.title}** on **${channel.tvg_name}**.`,
+        flags: MessageFlags.Ephemeral
+    });
+}
+
+/**
+ * Handles the search command interaction
+ * @param interaction - The Discord command interaction
+ */
+export async function handleSearchCommand(interaction: CommandInteraction) {
+    try {
+        const query = interaction.options.get('query')?.value as string || '';
+        const when = interaction.options.get('when')?.value as SearchWhen | undefined;
+        const group = interaction.options.get('group')?.value as string | undefined;
+
+        await interaction.deferReply({ flags: MessageFlags.Ephemeral });
+
+        const result = await executeSearch(query, when, group);
+        if (!result.success || !result.results) {
+            await interaction.editReply(result.message);
+            return;
+        }
+
+        const results = result.results;
+        const reply = await interaction.editReply({
+            content: result.message,
+            embeds: result.embed ? [result.embed] : [],
+            components: result.components || []
+        });
+
+        const collector = reply.createMessageComponentCollector({
+            componentType: ComponentType.Button,
+            time: 30 * 60 * 1000,
+        });
+
+        collector.on('collect', async (i) => {
+            logger.debug(`Button clicked: ${i.customId} by ${i.user.tag}`);
+            try {
+                await i.deferUpdate();
+                const selected = results[parseInt(i.customId.split('_').pop() || '')];
+                if (!selected) {
+                    return;
+                }
+
+                if (i.customId.startsWith('search_stream_')) {
+                    await handleStreamButton(i, selected);
+                } else if (i.customId.startsWith('search_remind_')) {
+                    await handleRemindButton(i, selected);
+                }
+            } catch (error) {
+                logger.error(`Error handling search button: ${error}`);
+                try {
+                    await i.followUp({
+                        content: 'An error occurred while processing your request.',
+                        flags: MessageFlags.Ephemeral
+                    });
+                } catch (followUpError) {
+                    logger.error(`Error sending follow-up message: ${followUpError}`);
+                }
+            }
+        });
+    } catch (error) {
+        logger.error(`Error handling search command: ${error}`);
+        try {
+            await interaction.editReply('An error occurred while processing your request.');
+        } catch (replyError) {
+            logger.error(`Error sending reply: ${replyError}`);
+        }
+    }
+}
+
+/**
+ * Returns autocomplete choices for the group option of the search command
+ * @param input - Text typed so far
+ * @returns Up to 25 channel groups containing the text
+ */
+export async function getSearchGroupChoices(input: string): Promise<{ name: string, value: string }[]> {
+    const search = input.toLowerCase();
+    const groups = new Set((await getChannelEntries()).map(channel => channel.group_title).filter((group): group is string => !!group));
+    return [...groups]
+        .filter(group => group.toLowerCase().includes(search))
+        .slice(0, 25)
+        .map(group => ({ name: group.substring(0, 100), value: group.substring(0, 100) }));
+}
@@ -0,0 +1,89 @@
+import { CommandInteraction, EmbedBuilder, MessageFlags } from 'discord.js';
+import { getLogger } from '../../utils/logger';
+import { getWatchStats } from '../../modules/database';
+import type { WatchTotals } from '../../interfaces/history';
+
+const logger = getLogger();
+
+/**
+ * Periods offered by the /stats command
+ */
+export type StatsPeriod = 'day' | 'week' | 'month' | 'all';
+
+const PERIODS: Record<StatsPeriod, { label: string, seconds: number }> = {
+    day: { label: 'Last 24 hours', seconds: 24 * 60 * 60 },
+    week: { label: 'Last 7 days', seconds: 7 * 24 * 60 * 60 },
+    month: { label: 'Last 30 days', seconds: 30 * 24 * 60 * 60 },
+    all: { label: 'All time', seconds: 0 },
+};
+
+/**
+ * Formats the share of failed sessions
+ * @param totals - Sessions and failures
+ * @returns Failure rate such as "25%"
+ */
+function formatFailureRate(totals: WatchTotals): string {
+    return totals.sessions > 0 ? `${Math.round(totals.failures / totals.sessions * 100)}%` : '0%';
+}
+
+/**
+ * Formats a number of streams, e.g. "1 stream" or "3 streams"
+ * @param sessions - Number of sessions
+ * @returns Counted noun
+ */
+function formatStreams(sessions: number): string {
+    return `${sessions} ${sessions === 1 ? 'stream' : 'streams'}`;
+}
+
+/**
+ * Builds the watch statistics of a period
+ * @param period - Period to aggregate, the last 7 days by default
+ * @returns Object containing success status, message and statistics embed
+ */
+export async function executeStats(period: StatsPeriod = 'week'): Promise<{ success: boolean, message: string, embed?: EmbedBuilder }> {
+    try {
+        const { label, seconds } = PERIODS[period];
+        const since = seconds > 0 ? Math.floor(Date.now() / 1000) - seconds : 0;
+        const stats = await getWatchStats(since);
+
+        if (stats.sessions === 0) {
+            return { success: false, message: `Nothing was streamed in this period (${label.toLowerCase()}).` };
+        }
+
+        const channels = stats.top_channels.map((channel, index) =>
+            `${index + 1}. **${channel.channel_name}** – ${channel.hours.toFixed(1)} h, ${formatStreams(channel.sessions)}, ${formatFailureRate(channel)} failed`);
+        const requesters = stats.top_requesters.map((requester, index) =>
+            `${index + 1}. <@${requester.requester_id}> – ${formatStreams(requester.sessions)}, ${requester.hours.toFixed(1)} h`);
+
+        const embed = new EmbedBuilder()
+            .setTitle(`📊 Watch Statistics – ${label}`)
+            .setColor('#0099ff')
+            .addFields(
+                { name: 'Hours watched', value: stats.hours.toFixed(1), inline: true },
+                { name: 'Streams', value: String(stats.sessions), inline: true },
+                { name: 'Failure rate', value: `${formatFailureRate(stats)} (${stats.failures})`, inline: true },
+                { name: '📺 Top channels', value: channels.join('\n').substring(0, 1024) || 'None' },
+                { name: '🙋 Top requesters', value: requesters.join('\n').substring(0, 1024) || 'None' }
+            )
+            .setTimestamp();
+
+        return { success: true, message: '', embed };
+    } catch (error) {
+        logger.error(`Error building watch statistics: ${error}`);
+        return { success: false, message: 'An error occurred while reading the watch statistics.' };
+    }
+}
+
+/**
+ * Handles the /stats slash command interaction
+ * @param interaction - The Discord command interaction
+ */
+export async function handleStatsCommand(interaction: CommandInteraction) {
+    await interaction.deferReply({ flags: MessageFlags.Ephemeral });
+    const period = interaction.options.get('period')?.value as StatsPeriod | undefined;
+    const result = await executeStats(period);
+    await interaction.editReply({
+        content: result.message || undefined,
+        embeds: result.embed ? [result.embed] : []
+    });
+}
@@ -1,18 +1,32 @@
-import { CommandInteraction, MessageFlags } from 'discord.js';
+import { CommandInteraction, GuildMember, MessageFlags, PermissionFlagsBits } from 'discord.js';
 import { getLogger } from '../../utils/logger';
-import { leaveVoiceChannel, stopStreaming } from '../../modules/streaming';
+import { findActiveSession, getActiveSessions, leaveVoiceChannel, stopStreaming } from '../../modules/streaming';
 
 const logger = getLogger();
 
 /**
- * Stops the current stream and disconnects from the voice channel
+ * Stops a stream and disconnects from its voice channel, other streams keep running
+ * @param guildId - Discord guild ID
+ * @param voiceChannelId - Voice channel of the caller, which has to be the voice channel of the stream
+ * @param canManage - Whether the caller has the Manage Channels permission and may stop the only stream of the guild from anywhere
  * @returns Object containing success status and result message
  */
-export async function executeStopStream() {
+export async function executeStopStream(guildId: string, voiceChannelId?: string, canManage = false) {
     try {
-        await stopStreaming();
+        const session = findActiveSession(guildId, voiceChannelId, canManage);
+        if (!session) {
+            const count = getActiveSessions(guildId).length;
+            return {
+                success: false,
+                message: count === 0
+                    ? 'Nothing is streaming in this server.'
+                    : `${count === 1 ? 'A voice channel is' : `${count} voice channels are`} streaming. Join the voice channel of the stream you want to stop.`
+            };
+        }
+
+        await stopStreaming(guildId, session.voiceChannelId);
         await new Promise(resolve => setTimeout(resolve, 500));
-        await leaveVoiceChannel();
+        await leaveVoiceChannel(guildId, session.voiceChannelId);
         await new Promise(resolve => setTimeout(resolve, 500));
         return { success: true, message: 'Stopped the stream and left the voice channel' };
     } catch (error) {
@@ -26,6 +40,8 @@ export async function executeStopStream() {
  * @param interaction - The Discord command interaction
  */
 export async function handleStopCommand(interaction: CommandInteraction) {
-    const result = await executeStopStream();
+    const voiceChannelId = (interaction.member as GuildMember | null)?.voice.channelId || undefined;
+    const canManage = interaction.memberPermissions?.has(PermissionFlagsBits.ManageChannels) ?? false;
+    const result = await executeStopStream(interaction.guildId || '', voiceChannelId, canManage);
     await interaction.reply({ content: result.message, flags: MessageFlags.Ephemeral });
 }
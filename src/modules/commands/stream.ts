@@ -1,12 +1,11 @@
-import { ActionRowBuilder, ButtonBuilder, ButtonStyle, CommandInteraction, ButtonInteraction, ComponentType, EmbedBuilder, GuildMember, Message, InteractionResponse, MessageFlags } from 'discord.js';
+import { ActionRowBuilder, ButtonBuilder, ButtonStyle, CommandInteraction, ButtonInteraction, ComponentType, EmbedBuilder, GuildMember, Message, InteractionResponse, MessageFlags, PermissionFlagsBits } from 'discord.js';
 import { getLogger } from '../../utils/logger';
-import { config } from '../../utils/config';
-import { getChannelEntries, getProgrammeEntries } from '../../modules/database';
-import { getVoiceConnection } from '@discordjs/voice';
-import { initializeStreamer, joinVoiceChannel, startStreaming, stopStreaming } from '../../modules/streaming';
+import { getChannelByName, getChannelHealth, getCurrentProgramme, getProgrammesForChannel } from '../../modules/database';
+import { initializeStreamer, joinVoiceChannel, startStreaming } from '../../modules/streaming';
 import { generateProgrammeInfo } from './programme';
 import { executeStopStream } from './stop';
 import { createStreamEmbed } from '../embeds';
+import type { StreamRequester } from '../../interfaces/history';
 
 const logger = getLogger();
 const PROGRAMME_BUTTON_ID = 'show_programme';
@@ -15,13 +14,16 @@ const STOP_BUTTON_ID = 'stop_stream';
 /**
  * Starts streaming the requested channel to a voice channel
  * @param channelName - Name of the channel to stream
+ * @param guildId - Discord guild ID of the voice channel
  * @param voiceChannelId - Discord voice channel ID to stream to
- * @param interaction - Optional Discord interaction for button collectors
+ * @param requester - User who started the stream, recorded in the watch history
  * @returns Object containing success status, message, and UI components
  */
 export async function executeStreamChannel(
     channelName: string,
+    guildId: string,
     voiceChannelId: string,
+    requester?: StreamRequester,
 ): Promise<{
     success: boolean;
     message: string;
@@ -37,10 +39,9 @@ export async function executeStreamChannel(
     logger.info(`Attempting to stream channel: ${channelName}`);
 
     try {
-        const channels = await getChannelEntries();
-        const channel = channels.find(ch => ch.tvg_name?.toLowerCase() === channelName.toLowerCase());
+        const channel = await getChannelByName(channelName);
 
-        if (!channel || !channel.tvg_id) {
+        if (!channel) {
             return { success: false, message: `Channel not found: ${channelName}` };
         }
 
@@ -52,30 +53,20 @@ export async function executeStreamChannel(
             await initializeStreamer();
             await new Promise(resolve => setTimeout(resolve, 750));
 
-            const connection = getVoiceConnection(config.GUILD);
-            if (connection && connection.joinConfig.channelId === voiceChannelId) {
-                logger.debug('Already connected to the desired voice channel');
-            } else {
-                logger.info('Joining voice channel...');
-                await joinVoiceChannel(config.GUILD, voiceChannelId);
-                await new Promise(resolve => setTimeout(resolve, 750));
-            }
+            // Joining keeps the account of a voice channel that is already streaming
+            logger.info('Joining voice channel...');
+            await joinVoiceChannel(guildId, voiceChannelId);
+            await new Promise(resolve => setTimeout(resolve, 750));
 
-            const allProgrammes = await getProgrammeEntries();
-            const channelProgrammes = allProgrammes.filter(p => p.channel === channel.tvg_id);
             const now = Math.floor(Date.now() / 1000);
-
-            const currentProgramme = channelProgrammes.find(p =>
-                (p.start_timestamp ?? 0) <= now &&
-                (p.stop_timestamp ?? Infinity) >= now
-            );
-
-            const nextProgrammes = channelProgrammes
-                .filter(p => (p.start_timestamp ?? 0) > now)
-                .sort((a, b) => (a.start_timestamp ?? 0) - (b.start_timestamp ?? 0));
+            const currentProgramme = await getCurrentProgramme(channel, now);
+            // The range also returns the airing programme, one more than the 10 upcoming ones shown
+            const nextProgrammes = (await getProgrammesForChannel(channel, now, Number.MAX_SAFE_INTEGER, { limit: 11 })).items
+                .filter(programme => programme.start_timestamp > now);
 
             // Use our new embed creator function
-            const streamEmbed = createStreamEmbed(channel, currentProgramme, nextProgrammes);
+            const health = (await getChannelHealth())[channel.url];
+            const streamEmbed = createStreamEmbed(channel, currentProgramme, nextProgrammes, health);
 
             // This is empty for now, but we can add buttons to the embed
             let components: ActionRowBuilder<ButtonBuilder>[] = [];
@@ -109,7 +100,10 @@ export async function executeStreamChannel(
                             });
                         } else if (i.customId === STOP_BUTTON_ID) {
                             logger.info(`Stop button clicked for stream: ${channelName} by ${i.user.tag}`);
-                            const stopResult = await executeStopStream();
+                            // Only listeners of this stream and members who can manage channels may stop it
+                            const canManage = i.memberPermissions?.has(PermissionFlagsBits.ManageChannels) ?? false;
+                            const inStream = (i.member as GuildMember | null)?.voice.channelId === voiceChannelId;
+                            const stopResult = await executeStopStream(guildId, inStream || canManage ? voiceChannelId : undefined, canManage);
 
                             if (!stopResult.success) {
                                 await i.followUp({
@@ -126,7 +120,7 @@ export async function executeStreamChannel(
                         } else if (i.customId.startsWith('play_channel_')) {
                             const playChannelName = i.customId.replace('play_channel_', '');
                             // Pass the current button interaction to maintain the interaction chain
-                            const playResult = await executeStreamChannel(playChannelName, voiceChannelId);
+                            const playResult = await executeStreamChannel(playChannelName, guildId, voiceChannelId, { id: i.user.id, name: i.user.tag });
 
                             if (playResult.success) {
                                 await i.followUp({
@@ -163,10 +157,11 @@ export async function executeStreamChannel(
             }
 
             // we will not await this as it's a void function, but we need to call it to start the stream
-            startStreaming(channel);
+            startStreaming(guildId, voiceChannelId, channel, { requester });
             return {
                 success: true,
-                message: ``, // Empty message as we're sending the embed
+                // Offline channels are still tried, the stream may have come back since the last check
+                message: health?.status === 'offline' ? `⚠️ ${channel.tvg_name} failed its last health check, the stream may not start.` : ``,
                 channel: channel,
                 embed: streamEmbed,
                 components,
@@ -210,7 +205,7 @@ export async function handleStreamCommand(interaction: CommandInteraction) {
             return;
         }
 
-        const result = await executeStreamChannel(channelName, voiceChannel.id);
+        const result = await executeStreamChannel(channelName, voiceChannel.guild.id, voiceChannel.id, { id: interaction.user.id, name: interaction.user.tag });
 
         if (!result.success) {
             await interaction.editReply(result.message);
@@ -0,0 +1,79 @@
+import { Database } from 'bun:sqlite';
+import { db } from './connection';
+import { migrate } from './migrations';
+import { invalidateChannelIndex } from './queries';
+
+/**
+ * Tables that are not copied on import: SQLite's own tables and the full-text index, which the triggers rebuild
+ */
+const SKIPPED_TABLES = `name NOT LIKE 'sqlite_%' AND name NOT LIKE 'programmes_fts%'`;
+
+/**
+ * Writes a consistent copy of the database to a new file, while the bot keeps running
+ *
+ * @param {string} path - Path of the copy, must not exist
+ * @returns {number} - Schema version of the copy
+ */
+export function exportDatabase(path: string): number {
+    db.run('VACUUM INTO ?', [path]);
+    return db.query<{ user_version: number }, []>('PRAGMA user_version').get()?.user_version || 0;
+}
+
+/**
+ * Checks that a database file is intact and not newer than this version of OrbisCast,
+ * then migrates it to the current schema
+ *
+ * @param {string} path - Path of the database file, changed in place
+ * @returns {number} - Schema version of the file before migrating
+ * @throws {Error} - If the file is not a SQLite database, is damaged or has a newer schema
+ */
+export function prepareDatabaseImport(path: string): number {
+    const database = new Database(path, { readwrite: true, create: false });
+    try {
+        const integrity = database.query<{ integrity_check: string }, []>('PRAGMA integrity_check').get()?.integrity_check;
+        if (integrity !== 'ok') {
+            throw new Error(`Database is damaged: ${integrity}`);
+        }
+        const version = database.query<{ user_version: number }, []>('PRAGMA user_version').get()?.user_version || 0;
+        if (version === 0) {
+            throw new Error('File is not an OrbisCast database');
+        }
+        migrate(database);
+        return version;
+    } finally {
+        database.close();
+    }
+}
+
+/**
+ * Replaces the content of every table with the content of a prepared database file, in one transaction
+ *
+ * @param {string} path - Path of a database file checked and migrated with prepareDatabaseImport
+ * @returns {Record<string, number>} - Number of imported rows by table
+ */
+export function importDatabase(path: string): Record<string, number> {
+    const tables = db.query<{ name: string }, []>(`SELECT name FROM sqlite_master WHERE type = 'table' AND ${SKIPPED_TABLES} ORDER BY name`)
+        .all()
+        .map(row => row.name);
+    const counts: Record<string, number> = {};
+
+    db.run('ATTACH DATABASE ? AS backup', [path]);
+    try {
+        db.transaction(() => {
+            for (const table of tables) {
+                const columns = db.query<{ name: string }, []>(`PRAGMA main.table_info(${table})`).all()
+                    .map(column => `"${column.name}"`)
+                    .join(', ');
+                db.run(`DELETE FROM main.${table}`);
+                db.run(`INSERT INTO main.${table} (${columns}) SELECT ${columns} FROM backup.${table}`);
+                // Counted instead of taken from changes, which include the writes of the search index triggers
+                counts[table] = db.query<{ count: number }, []>(`SELECT COUNT(*) AS count FROM main.${table}`).get()?.count || 0;
+            }
+        })();
+    } finally {
+        db.run('DETACH DATABASE backup');
+    }
+
+    invalidateChannelIndex();
+    return counts;
+}
@@ -0,0 +1,48 @@
+import { mkdirSync } from 'fs';
+import { join, dirname, resolve } from 'path';
+import { fileURLToPath } from 'url';
+import { Database } from 'bun:sqlite';
+import { getLogger } from '../../utils/logger';
+import { config } from '../../utils/config';
+import { migrate } from './migrations';
+import { importJsonData } from './json-import';
+
+const logger = getLogger();
+const __filename = fileURLToPath(import.meta.url);
+const __dirname = dirname(__filename);
+
+/**
+ * Directory of the database and other persistent data, the data folder of the project unless DATA_DIR is set
+ */
+export const dataDir = config.DATA_DIR ? resolve(config.DATA_DIR) : join(__dirname, '../../../data');
+
+/**
+ * Path of the SQLite database
+ */
+export const databasePath = join(dataDir, 'orbiscast.db');
+
+/**
+ * Opens the database, applies pending migrations and imports the JSON files of earlier versions
+ *
+ * @returns {Database} - Ready database
+ */
+function openDatabase(): Database {
+    mkdirSync(dataDir, { recursive: true });
+
+    const database = new Database(databasePath, { create: true });
+    database.run('PRAGMA journal_mode = WAL');
+    database.run('PRAGMA synchronous = NORMAL');
+
+    const version = migrate(database);
+    logger.debug(`Opened database ${databasePath} (schema version ${version})`);
+
+    importJsonData(database, dataDir);
+
+    // Staged programmes of a refresh that was interrupted by a restart are never committed
+    database.run(`DELETE FROM programmes WHERE snapshot = 'pending'`);
+    // Streams end with the process, so sessions left open were interrupted by a restart
+    database.run(`UPDATE stream_sessions SET stopped_at = last_seen_at, stop_reason = 'interrupted' WHERE stopped_at IS NULL`);
+    return database;
+}
+
+export const db = openDatabase();
@@ -0,0 +1,136 @@
+import { db } from './connection';
+import type { Page, PagedResult } from './queries';
+import type { AiredProgramme, StopReason, StreamRequester, StreamSession, WatchStats, WatchTotals } from '../../interfaces/history';
+
+/**
+ * Stream session as stored in the stream_sessions table
+ */
+interface SessionRow extends Omit<StreamSession, 'replay' | 'programmes'> {
+    replay: number;
+    programmes: string;
+}
+
+/**
+ * Expression for the watched seconds of a session, counting open sessions up to the given time
+ */
+const DURATION = '(COALESCE(stopped_at, ?) - started_at)';
+
+/**
+ * Converts a stored row to a stream session
+ *
+ * @param {SessionRow} row - Row of the stream_sessions table
+ * @returns {StreamSession} - Stream session
+ */
+function toSession(row: SessionRow): StreamSession {
+    return { ...row, replay: row.replay === 1, programmes: JSON.parse(row.programmes) as AiredProgramme[] };
+}
+
+/**
+ * Records the start of a stream session
+ *
+ * @param {string} channelName - Name of the streamed channel
+ * @param {StreamRequester | undefined} requester - User who started the stream, if known
+ * @param {string | undefined} voiceChannelId - Voice channel the stream runs in
+ * @param {AiredProgramme[]} programmes - Programmes known to air at the start, such as the replayed programme
+ * @param {boolean} replay - True for catch-up replays
+ * @returns {number} - ID of the new session
+ */
+export function startSession(channelName: string, requester: StreamRequester | undefined, voiceChannelId: string | undefined,
+    programmes: AiredProgramme[] = [], replay = false): number {
+    const now = Math.floor(Date.now() / 1000);
+    const result = db.run(`INSERT INTO stream_sessions (requester_id, requester_name, channel_name, voice_channel_id, replay, programmes, started_at, last_seen_at)
+        VALUES (?, ?, ?, ?, ?, ?, ?, ?)`, [requester?.id || null, requester?.name || null, channelName, voiceChannelId || null,
+        replay ? 1 : 0, JSON.stringify(programmes), now, now]);
+    return Number(result.lastInsertRowid);
+}
+
+/**
+ * Records that a session is still running, with the current number of viewers
+ *
+ * @param {number} id - ID of the session
+ * @param {number} viewers - Viewers in the voice channel, excluding bots and the streamer
+ */
+export function touchSession(id: number, viewers: number) {
+    db.run('UPDATE stream_sessions SET last_seen_at = ?, peak_viewers = MAX(peak_viewers, ?) WHERE id = ?',
+        [Math.floor(Date.now() / 1000), viewers, id]);
+}
+
+/**
+ * Adds a programme to the programmes aired during a session, unless it is already listed
+ *
+ * @param {number} id - ID of the session
+ * @param {AiredProgramme} programme - Programme that started airing
+ */
+export function addSessionProgramme(id: number, programme: AiredProgramme) {
+    db.transaction(() => {
+        const row = db.query<{ programmes: string }, [number]>('SELECT programmes FROM stream_sessions WHERE id = ?').get(id);
+        if (!row) {
+            return;
+        }
+        const programmes = JSON.parse(row.programmes) as AiredProgramme[];
+        if (programmes.some(aired => aired.start_timestamp === programme.start_timestamp && aired.title === programme.title)) {
+            return;
+        }
+        programmes.push({ title: programme.title, start_timestamp: programme.start_timestamp });
+        db.run('UPDATE stream_sessions SET programmes = ? WHERE id = ?', [JSON.stringify(programmes), id]);
+    })();
+}
+
+/**
+ * Records the end of a stream session
+ *
+ * @param {number} id - ID of the session
+ * @param {StopReason} reason - Why the session ended
+ * @param {string} error - Error that stopped the stream, if any
+ */
+export function endSession(id: number, reason: StopReason, error?: string) {
+    const now = Math.floor(Date.now() / 1000);
+    db.run('UPDATE stream_sessions SET stopped_at = ?, last_seen_at = ?, stop_reason = ?, error = ? WHERE id = ? AND stopped_at IS NULL',
+        [now, now, reason, error?.substring(0, 1000) || null, id]);
+}
+
+/**
+ * Retrieves stream sessions, most recent first
+ *
+ * @param {Page} page - Offset and limit, 10 sessions by default
+ * @returns {Promise<PagedResult<StreamSession>>} - Page of sessions with the total number of sessions
+ */
+export async function getStreamSessions(page: Page = {}): Promise<PagedResult<StreamSession>> {
+    const offset = page.offset ?? 0;
+    const limit = page.limit ?? 10;
+    const total = db.query<{ count: number }, []>('SELECT COUNT(*) AS count FROM stream_sessions').get()?.count || 0;
+    const rows = db.query<SessionRow, [number, number]>('SELECT * FROM stream_sessions ORDER BY started_at DESC, id DESC LIMIT ? OFFSET ?')
+        .all(limit, offset);
+    return { items: rows.map(toSession), total, offset, limit };
+}
+
+/**
+ * Aggregates the sessions started in a period
+ *
+ * @param {number} since - Unix timestamp in seconds, 0 for all time
+ * @param {number} limit - Number of top channels and requesters
+ * @returns {Promise<WatchStats>} - Totals with the most watched channels and the most active requesters
+ */
+export async function getWatchStats(since = 0, limit = 5): Promise<WatchStats> {
+    const now = Math.floor(Date.now() / 1000);
+    const totals = `COUNT(*) AS sessions, SUM(${DURATION}) / 3600.0 AS hours, SUM(stop_reason = 'error') AS failures`;
+
+    const overall = db.query<WatchTotals, [number, number]>(`SELECT ${totals} FROM stream_sessions WHERE started_at >= ?`)
+        .get(now, since);
+    const topChannels = db.query<WatchTotals & { channel_name: string }, [number, number, number]>(`SELECT channel_name, ${totals}
+        FROM stream_sessions WHERE started_at >= ?
+        GROUP BY channel_name ORDER BY hours DESC, sessions DESC LIMIT ?`).all(now, since, limit);
+    const topRequesters = db.query<WatchTotals & { requester_id: string, requester_name: string }, [number, number, number]>(`SELECT requester_id,
+        MAX(requester_name) AS requester_name, ${totals}
+        FROM stream_sessions WHERE started_at >= ? AND requester_id IS NOT NULL
+        GROUP BY requester_id ORDER BY sessions DESC, hours DESC LIMIT ?`).all(now, since, limit);
+
+    return {
+        since,
+        sessions: overall?.sessions || 0,
+        hours: overall?.hours || 0,
+        failures: overall?.failures || 0,
+        top_channels: topChannels,
+        top_requesters: topRequesters,
+    };
+}
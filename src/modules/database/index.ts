@@ -1,28 +1,44 @@
-import { promises as fs } from 'fs';
-import { join, dirname } from 'path';
-import { fileURLToPath } from 'url';
-import { Low } from 'lowdb';
-import { JSONFile } from 'lowdb/node';
 import { getLogger } from '../../utils/logger';
-import type { ChannelEntry, ProgrammeEntry } from '../../interfaces/iptv';
+import { db } from './connection';
+import { getMeta, insertChannels, insertProgrammes, setMeta, type Snapshot } from './tables';
+import { getIndexedChannels, invalidateChannelIndex } from './queries';
+import type { ChannelEntry, ChannelHealth, DownloadValidators, EpgChannelEntry, IngestReport, PlaylistParseStatistics, PlaylistSourceSnapshot, ProgrammeEntry } from '../../interfaces/iptv';
+import type { JobState } from '../../interfaces/scheduler';
+import type { Reminder } from '../../interfaces/reminders';
 
 const logger = getLogger();
-const __filename = fileURLToPath(import.meta.url);
-const __dirname = dirname(__filename);
-const dataDir = join(__dirname, '../../../data');
 
-fs.mkdir(dataDir, { recursive: true }).catch(err => logger.error(`Error creating data directory: ${err}`));
+export { databasePath, dataDir } from './connection';
+export {
+    getChannelById, getChannelByName, searchChannels, getProgrammesForChannel, getCurrentProgramme, getNowAndNext,
+    getEpgChannelId, getEpgShift, shiftProgramme, getProgrammesCreatedAt, countProgrammes, getProgrammeStartRange, getProgrammeChannelIds,
+    type ChannelSearchOptions, type NowAndNext, type Page, type PagedResult
+} from './queries';
+export { searchProgrammes, type ProgrammeSearchOptions, type ProgrammeSearchResult } from './search';
+export { startSession, touchSession, addSessionProgramme, endSession, getStreamSessions, getWatchStats } from './history';
+export { exportDatabase, prepareDatabaseImport, importDatabase } from './backup';
 
-const channelsDb = new Low<{ channels: ChannelEntry[] }>(new JSONFile(join(dataDir, 'channels.db.json')), { channels: [] });
-const programmesDb = new Low<{ programmes: ProgrammeEntry[] }>(new JSONFile(join(dataDir, 'programmes.db.json')), { programmes: [] });
+/**
+ * Result of restoring the last known good data
+ */
+export interface RollbackResult {
+    /** Number of restored entries */
+    count: number;
+    /** When the restored data was replaced by a refresh */
+    saved_at?: string;
+}
+
+/**
+ * Table with a current and a last known good snapshot
+ */
+export type RefreshTable = 'channels' | 'programmes';
 
 /**
  * Retrieves all channel entries from the database
  * @returns Array of channel entries
  */
 export async function getChannelEntries(): Promise<ChannelEntry[]> {
-    await channelsDb.read();
-    return channelsDb.data?.channels || [];
+    return [...getIndexedChannels()];
 }
 
 /**
@@ -30,17 +46,17 @@ export async function getChannelEntries(): Promise<ChannelEntry[]> {
  * @returns Array of programme entries
  */
 export async function getProgrammeEntries(): Promise<ProgrammeEntry[]> {
-    await programmesDb.read();
-    return programmesDb.data?.programmes || [];
+    return db.query<{ data: string }, []>(`SELECT data FROM programmes WHERE snapshot = 'current' ORDER BY id`)
+        .all()
+        .map(row => JSON.parse(row.data));
 }
 
 /**
  * Clears all channel data from the database
  */
 export async function clearChannels(): Promise<void> {
-    await channelsDb.read();
-    channelsDb.data = { channels: [] };
-    await channelsDb.write();
+    db.run(`DELETE FROM channels WHERE snapshot = 'current'`);
+    invalidateChannelIndex();
     logger.debug('Channels table truncated');
 }
 
@@ -49,19 +65,47 @@ export async function clearChannels(): Promise<void> {
  * @param channels - Array of channel entries to add
  */
 export async function addChannels(channels: ChannelEntry[]): Promise<void> {
-    await channelsDb.read();
-    channelsDb.data.channels = channels;
-    await channelsDb.write();
+    db.transaction(() => {
+        db.run(`DELETE FROM channels WHERE snapshot = 'current'`);
+        insertChannels(db, 'current', channels);
+    })();
+    invalidateChannelIndex();
+    logger.debug(`Added ${channels.length} channels to database`);
+}
+
+/**
+ * Replaces the stored channels in a single transaction, keeping the replaced channels as the last known good snapshot
+ * @param channels - Array of channel entries to store
+ */
+export async function replaceChannels(channels: ChannelEntry[]): Promise<void> {
+    db.transaction(() => {
+        if (countRows('channels', 'current') > 0) {
+            db.run(`DELETE FROM channels WHERE snapshot = 'previous'`);
+            db.run(`UPDATE channels SET snapshot = 'previous' WHERE snapshot = 'current'`);
+            setMeta(db, 'channels_saved_at', new Date().toISOString());
+        }
+        db.run(`DELETE FROM channels WHERE snapshot = 'current'`);
+        insertChannels(db, 'current', channels);
+    })();
+    invalidateChannelIndex();
     logger.debug(`Added ${channels.length} channels to database`);
 }
 
+/**
+ * Swaps the stored channels with the last known good snapshot, so a rollback can be undone by rolling back again
+ * @returns Number of restored channels, or null if there is no snapshot
+ */
+export async function rollbackChannels(): Promise<RollbackResult | null> {
+    const result = swapSnapshots('channels');
+    invalidateChannelIndex();
+    return result;
+}
+
 /**
  * Clears all programme data from the database
  */
 export async function clearProgrammes(): Promise<void> {
-    await programmesDb.read();
-    programmesDb.data = { programmes: [] };
-    await programmesDb.write();
+    db.run(`DELETE FROM programmes WHERE snapshot = 'current'`);
     logger.debug('Programmes table truncated');
 }
 
@@ -70,8 +114,418 @@ export async function clearProgrammes(): Promise<void> {
  * @param programmes - Array of programme entries to add
  */
 export async function addProgrammes(programmes: ProgrammeEntry[]): Promise<void> {
-    await programmesDb.read();
-    programmesDb.data.programmes = programmes;
-    await programmesDb.write();
+    db.transaction(() => {
+        db.run(`DELETE FROM programmes WHERE snapshot = 'current'`);
+        insertProgrammes(db, 'current', programmes);
+    })();
     logger.debug(`Added ${programmes.length} programmes to database`);
 }
+
+/**
+ * Stages a batch of programme entries for the next commit.
+ * Staged programmes are kept aside, so readers keep seeing the stored programmes until the commit.
+ * @param programmes - Array of programme entries to stage
+ */
+export async function appendProgrammes(programmes: ProgrammeEntry[]): Promise<void> {
+    db.transaction(() => insertProgrammes(db, 'pending', programmes))();
+    logger.debug(`Staged ${programmes.length} programmes (${countPendingProgrammes()} total)`);
+}
+
+/**
+ * Stages the stored programmes that ended within a time range, for channels where the staged programmes start after them.
+ * Keeps past programmes for replay without loading them, unless the staged data already covers their time.
+ * @param from - Oldest start to keep as Unix timestamp in seconds
+ * @param to - Latest stop to keep as Unix timestamp in seconds
+ * @returns Number of staged past programmes
+ */
+export async function stagePastProgrammes(from: number, to: number): Promise<number> {
+    const staged = countPendingProgrammes();
+    db.run(`INSERT INTO programmes (snapshot, channel, start_timestamp, stop_timestamp, title, sub_title, description, category, data)
+        SELECT 'pending', channel, start_timestamp, stop_timestamp, title, sub_title, description, category, data
+        FROM programmes AS past
+        WHERE snapshot = 'current' AND start_timestamp >= ? AND stop_timestamp <= ?
+            AND stop_timestamp <= COALESCE((SELECT MIN(start_timestamp) FROM programmes
+                WHERE snapshot = 'pending' AND channel = past.channel), stop_timestamp)
+        ORDER BY id`, [from, to]);
+    // Counted instead of taken from changes, which include the writes of the search index triggers
+    const count = countPendingProgrammes() - staged;
+    logger.debug(`Staged ${count} past programmes`);
+    return count;
+}
+
+/**
+ * Moves staged programmes to other XMLTV channel IDs
+ * @param relinks - New XMLTV ID keyed by the current one
+ * @returns Number of moved programmes
+ */
+export async function relinkPendingProgrammes(relinks: Map<string, string>): Promise<number> {
+    const relink = db.prepare(`UPDATE programmes SET channel = ?, data = json_set(data, '$.channel', ?)
+        WHERE snapshot = 'pending' AND channel = ?`);
+    let count = 0;
+    db.transaction(() => {
+        for (const [from, to] of relinks) {
+            // Counted per ID instead of taken from changes, which include the writes of the search index triggers
+            const moved = db.query<{ count: number }, [string]>(`SELECT COUNT(*) AS count FROM programmes WHERE snapshot = 'pending' AND channel = ?`)
+                .get(from)?.count || 0;
+            relink.run(to, to, from);
+            count += moved;
+        }
+    })();
+    logger.debug(`Moved ${count} staged programmes to ${relinks.size} other channel IDs`);
+    return count;
+}
+
+/**
+ * Returns the number of programmes staged for the next commit
+ * @returns Number of staged programmes
+ */
+export function countPendingProgrammes(): number {
+    return countRows('programmes', 'pending');
+}
+
+/**
+ * Drops all programmes staged through appendProgrammes without storing them
+ */
+export function discardProgrammes(): void {
+    db.run(`DELETE FROM programmes WHERE snapshot = 'pending'`);
+}
+
+/**
+ * Replaces the stored programmes with all programmes staged through appendProgrammes.
+ * The replaced programmes are kept as the last known good snapshot.
+ */
+export async function commitProgrammes(): Promise<void> {
+    db.transaction(() => {
+        if (countRows('programmes', 'current') > 0) {
+            db.run(`DELETE FROM programmes WHERE snapshot = 'previous'`);
+            db.run(`UPDATE programmes SET snapshot = 'previous' WHERE snapshot = 'current'`);
+            setMeta(db, 'programmes_saved_at', new Date().toISOString());
+        }
+        db.run(`DELETE FROM programmes WHERE snapshot = 'current'`);
+        db.run(`UPDATE programmes SET snapshot = 'current' WHERE snapshot = 'pending'`);
+    })();
+    logger.debug(`Added ${countRows('programmes', 'current')} programmes to database`);
+}
+
+/**
+ * Swaps the stored programmes with the last known good snapshot, so a rollback can be undone by rolling back again
+ * @returns Number of restored programmes, or null if there is no snapshot
+ */
+export async function rollbackProgrammes(): Promise<RollbackResult | null> {
+    return swapSnapshots('programmes');
+}
+
+/**
+ * Retrieves the tables replaced by the last refresh
+ * @returns Replaced tables, both for databases from before this was recorded
+ */
+export async function getLastRefreshTables(): Promise<RefreshTable[]> {
+    return getMeta<RefreshTable[]>(db, 'last_refresh_tables') ?? ['channels', 'programmes'];
+}
+
+/**
+ * Records the tables replaced by the last refresh, so a rollback only restores those
+ * @param tables - Replaced tables
+ */
+export async function setLastRefreshTables(tables: RefreshTable[]): Promise<void> {
+    setMeta(db, 'last_refresh_tables', tables);
+}
+
+/**
+ * Counts the rows of a snapshot
+ * @param table - Channels or programmes table
+ * @param snapshot - Snapshot to count
+ * @returns Number of rows
+ */
+function countRows(table: RefreshTable, snapshot: Snapshot): number {
+    return db.query<{ count: number }, [Snapshot]>(`SELECT COUNT(*) AS count FROM ${table} WHERE snapshot = ?`).get(snapshot)?.count || 0;
+}
+
+/**
+ * Swaps the current and the previous snapshot of a table
+ * @param table - Channels or programmes table
+ * @returns Number of restored rows and when they were replaced, or null if there is no previous snapshot
+ */
+function swapSnapshots(table: RefreshTable): RollbackResult | null {
+    return db.transaction(() => {
+        const count = countRows(table, 'previous');
+        if (count === 0) {
+            return null;
+        }
+
+        const savedAt = getMeta<string>(db, `${table}_saved_at`);
+        db.run(`UPDATE ${table} SET snapshot = CASE snapshot WHEN 'current' THEN 'previous' ELSE 'current' END
+            WHERE snapshot IN ('current', 'previous')`);
+        setMeta(db, `${table}_saved_at`, new Date().toISOString());
+        return { count, saved_at: savedAt };
+    })();
+}
+
+/**
+ * Retrieves the last parsed channel list of a playlist source
+ * @param sourceName - Name of the playlist source
+ * @returns Source snapshot or null if the source was never fetched
+ */
+export async function getSourceSnapshot(sourceName: string): Promise<PlaylistSourceSnapshot | null> {
+    return getRecord<PlaylistSourceSnapshot>('source_snapshots', 'name', sourceName);
+}
+
+/**
+ * Stores the parsed channel list of a playlist source, replacing any previous snapshot
+ * @param sourceName - Name of the playlist source
+ * @param channels - Array of channel entries parsed from the source
+ * @param statistics - Parse statistics of the source content
+ */
+export async function setSourceSnapshot(sourceName: string, channels: ChannelEntry[], statistics?: PlaylistParseStatistics): Promise<void> {
+    putRecord('source_snapshots', 'name', sourceName, { fetched_at: new Date().toISOString(), channels, statistics });
+    logger.debug(`Stored ${channels.length} channels for playlist source ${sourceName}`);
+}
+
+/**
+ * Retrieves the validators stored for the last download of a source
+ * @param name - Cache file name of the download, derived from the source name
+ * @returns Stored validators or null if the source was never downloaded
+ */
+export async function getDownloadValidators(name: string): Promise<DownloadValidators | null> {
+    return getRecord<DownloadValidators>('downloads', 'name', name);
+}
+
+/**
+ * Stores the validators of the last download of a source
+ * @param name - Cache file name of the download, derived from the source name
+ * @param validators - ETag, Last-Modified and content hash of the download
+ */
+export async function setDownloadValidators(name: string, validators: DownloadValidators): Promise<void> {
+    putRecord('downloads', 'name', name, validators);
+}
+
+/**
+ * Retrieves all channel definitions from the XMLTV guide
+ * @returns Array of XMLTV channel entries
+ */
+export async function getEpgChannels(): Promise<EpgChannelEntry[]> {
+    return db.query<{ data: string }, []>('SELECT data FROM epg_channels ORDER BY position')
+        .all()
+        .map(row => JSON.parse(row.data));
+}
+
+/**
+ * Replaces the stored XMLTV channel definitions
+ * @param channels - Array of XMLTV channel entries
+ */
+export async function setEpgChannels(channels: EpgChannelEntry[]): Promise<void> {
+    db.transaction(() => {
+        db.run('DELETE FROM epg_channels');
+        const insert = db.prepare('INSERT INTO epg_channels (position, id, data) VALUES (?, ?, ?)');
+        channels.forEach((channel, index) => insert.run(index, channel.id, JSON.stringify(channel)));
+    })();
+    logger.debug(`Stored ${channels.length} XMLTV channel definitions`);
+}
+
+/**
+ * Retrieves the manual XMLTV mappings set by admins
+ * @returns XMLTV channel IDs keyed by playlist channel name
+ */
+export async function getEpgMappingOverrides(): Promise<Record<string, string>> {
+    const rows = db.query<{ channel_name: string, epg_id: string }, []>('SELECT channel_name, epg_id FROM epg_overrides').all();
+    return Object.fromEntries(rows.map(row => [row.channel_name, row.epg_id]));
+}
+
+/**
+ * Sets or removes the manual XMLTV mapping of a playlist channel
+ * @param channelName - Name of the playlist channel
+ * @param epgId - XMLTV channel ID, or null to return to automatic matching
+ */
+export async function setEpgMappingOverride(channelName: string, epgId: string | null): Promise<void> {
+    if (epgId) {
+        db.run('INSERT OR REPLACE INTO epg_overrides (channel_name, epg_id) VALUES (?, ?)', [channelName, epgId]);
+    } else {
+        db.run('DELETE FROM epg_overrides WHERE channel_name = ?', [channelName]);
+    }
+    logger.debug(`${epgId ? `Mapped ${channelName} to ${epgId}` : `Removed mapping of ${channelName}`}`);
+}
+
+/**
+ * Retrieves the manual guide offsets set by admins
+ * @returns Offsets in hours keyed by playlist channel name
+ */
+export async function getEpgShiftOverrides(): Promise<Record<string, number>> {
+    const rows = db.query<{ channel_name: string, hours: number }, []>('SELECT channel_name, hours FROM epg_shifts').all();
+    return Object.fromEntries(rows.map(row => [row.channel_name, row.hours]));
+}
+
+/**
+ * Sets or removes the manual guide offset of a playlist channel
+ * @param channelName - Name of the playlist channel
+ * @param hours - Offset in hours, or null to use tvg-shift and automatic detection again
+ */
+export async function setEpgShiftOverride(channelName: string, hours: number | null): Promise<void> {
+    if (hours !== null) {
+        db.run('INSERT OR REPLACE INTO epg_shifts (channel_name, hours) VALUES (?, ?)', [channelName, hours]);
+    } else {
+        db.run('DELETE FROM epg_shifts WHERE channel_name = ?', [channelName]);
+    }
+    logger.debug(`${hours !== null ? `Set guide offset of ${channelName} to ${hours} hours` : `Removed guide offset of ${channelName}`}`);
+}
+
+/**
+ * Retrieves the report of the last refresh
+ * @returns Ingest report, empty if no refresh has finished yet
+ */
+export async function getIngestReport(): Promise<IngestReport> {
+    return getMeta<IngestReport>(db, 'ingest_report') || {};
+}
+
+/**
+ * Updates parts of the refresh report, keeping the other parts
+ * @param report - Parts of the report to replace
+ */
+export async function updateIngestReport(report: IngestReport): Promise<void> {
+    db.transaction(() => {
+        setMeta(db, 'ingest_report', { ...getMeta<IngestReport>(db, 'ingest_report'), ...report });
+    })();
+}
+
+/**
+ * Retrieves the results of the last stream checks
+ * @returns Channel health keyed by stream URL
+ */
+export async function getChannelHealth(): Promise<Record<string, ChannelHealth>> {
+    return getRecords<ChannelHealth>('channel_health', 'url');
+}
+
+/**
+ * Stores the result of a stream check, keyed by stream URL so it survives channel refreshes
+ * @param url - Checked stream URL
+ * @param health - Result of the check
+ */
+export async function setChannelHealth(url: string, health: ChannelHealth): Promise<void> {
+    putRecord('channel_health', 'url', url, health);
+}
+
+/**
+ * Removes the check results of streams that are no longer in the channel list
+ * @param urls - Stream URLs of the stored channels
+ * @returns Number of removed results
+ */
+export async function pruneChannelHealth(urls: Set<string>): Promise<number> {
+    return db.transaction(() => {
+        const stale = db.query<{ url: string }, []>('SELECT url FROM channel_health').all().filter(row => !urls.has(row.url));
+        const remove = db.prepare('DELETE FROM channel_health WHERE url = ?');
+        stale.forEach(row => remove.run(row.url));
+        return stale.length;
+    })();
+}
+
+/**
+ * Retrieves the persisted state of the scheduled jobs
+ * @returns Job states keyed by job name
+ */
+export async function getJobStates(): Promise<Record<string, JobState>> {
+    return getRecords<JobState>('jobs', 'name');
+}
+
+/**
+ * Stores the state of a scheduled job
+ * @param name - Name of the job
+ * @param state - Last and next run of the job
+ */
+export async function setJobState(name: string, state: JobState): Promise<void> {
+    putRecord('jobs', 'name', name, state);
+}
+
+/**
+ * Adds a programme reminder
+ * @param reminder - Reminder without ID and creation time
+ * @returns False if the user already has a reminder for the programme
+ */
+export async function addReminder(reminder: Omit<Reminder, 'id' | 'created_at'>): Promise<boolean> {
+    const result = db.run(`INSERT OR IGNORE INTO reminders (user_id, text_channel_id, channel_name, title, start_timestamp, remind_at, created_at)
+        VALUES (?, ?, ?, ?, ?, ?, ?)`, [reminder.user_id, reminder.text_channel_id, reminder.channel_name, reminder.title,
+        reminder.start_timestamp, reminder.remind_at, new Date().toISOString()]);
+    return result.changes > 0;
+}
+
+/**
+ * Retrieves the reminders that are due
+ * @param now - Current Unix timestamp in seconds
+ * @returns Reminders due at or before now, oldest first
+ */
+export async function getDueReminders(now: number): Promise<Reminder[]> {
+    return db.query<Reminder, [number]>('SELECT * FROM reminders WHERE remind_at <= ? ORDER BY remind_at').all(now);
+}
+
+/**
+ * Removes a reminder after it was sent
+ * @param id - ID of the reminder
+ */
+export async function deleteReminder(id: number): Promise<void> {
+    db.run('DELETE FROM reminders WHERE id = ?', [id]);
+}
+
+/**
+ * Adds a channel to the favourites of a user
+ * @param userId - Discord user ID
+ * @param channelName - Name of the playlist channel
+ * @returns False if the channel already is a favourite
+ */
+export async function addFavorite(userId: string, channelName: string): Promise<boolean> {
+    const result = db.run('INSERT OR IGNORE INTO favorites (user_id, channel_name, created_at) VALUES (?, ?, ?)',
+        [userId, channelName, new Date().toISOString()]);
+    return result.changes > 0;
+}
+
+/**
+ * Removes a channel from the favourites of a user
+ * @param userId - Discord user ID
+ * @param channelName - Name of the playlist channel, ignoring case
+ * @returns False if the channel was not a favourite
+ */
+export async function removeFavorite(userId: string, channelName: string): Promise<boolean> {
+    return db.run('DELETE FROM favorites WHERE user_id = ? AND channel_name = ?', [userId, channelName]).changes > 0;
+}
+
+/**
+ * Retrieves the favourite channels of a user
+ * @param userId - Discord user ID
+ * @returns Channel names in the order they were added
+ */
+export async function getFavorites(userId: string): Promise<string[]> {
+    return db.query<{ channel_name: string }, [string]>('SELECT channel_name FROM favorites WHERE user_id = ? ORDER BY created_at, rowid')
+        .all(userId)
+        .map(row => row.channel_name);
+}
+
+/**
+ * Reads a JSON record from a table keyed by a single column
+ * @param table - Table name
+ * @param keyColumn - Name of the key column
+ * @param key - Key of the record
+ * @returns Stored record or null if there is none
+ */
+function getRecord<T>(table: string, keyColumn: string, key: string): T | null {
+    const row = db.query<{ data: string }, [string]>(`SELECT data FROM ${table} WHERE ${keyColumn} = ?`).get(key);
+    return row ? JSON.parse(row.data) as T : null;
+}
+
+/**
+ * Reads all JSON records of a table keyed by a single column
+ * @param table - Table name
+ * @param keyColumn - Name of the key column
+ * @returns Records by key
+ */
+function getRecords<T>(table: string, keyColumn: string): Record<string, T> {
+    const rows = db.query<{ key: string, data: string }, []>(`SELECT ${keyColumn} AS key, data FROM ${table}`).all();
+    return Object.fromEntries(rows.map(row => [row.key, JSON.parse(row.data) as T]));
+}
+
+/**
+ * Stores a JSON record in a table keyed by a single column, replacing the previous record
+ * @param table - Table name
+ * @param keyColumn - Name of the key column
+ * @param key - Key of the record
+ * @param value - Record to store
+ */
+function putRecord(table: string, keyColumn: string, key: string, value: unknown) {
+    db.run(`INSERT OR REPLACE INTO ${table} (${keyColumn}, data) VALUES (?, ?)`, [key, JSON.stringify(value)]);
+}
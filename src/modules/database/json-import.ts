@@ -0,0 +1,97 @@
+import { existsSync, readFileSync, renameSync } from 'fs';
+import { join } from 'path';
+import type { Database } from 'bun:sqlite';
+import { getLogger } from '../../utils/logger';
+import { getMeta, insertChannels, insertProgrammes, setMeta, type Snapshot } from './tables';
+
+const logger = getLogger();
+
+/**
+ * Imports the JSON files written by earlier versions of OrbisCast, once.
+ * Imported files are renamed to *.imported, so they are kept but never read again.
+ *
+ * @param {Database} db - Migrated database
+ * @param {string} dataDir - Directory of the JSON files
+ * @returns {number} - Number of imported files
+ */
+export function importJsonData(db: Database, dataDir: string): number {
+    if (getMeta<string>(db, 'json_imported_at')) {
+        return 0;
+    }
+
+    const imported: string[] = [];
+    const read = (fileName: string): any => {
+        const path = join(dataDir, fileName);
+        if (!existsSync(path)) {
+            return null;
+        }
+        try {
+            const data = JSON.parse(readFileSync(path, 'utf8'));
+            imported.push(path);
+            return data;
+        } catch (error) {
+            logger.warn(`Not importing ${fileName}: ${error}`);
+            return null;
+        }
+    };
+    const putRecords = (table: string, keyColumn: string, records: Record<string, unknown> | undefined) => {
+        const insert = db.prepare(`INSERT OR REPLACE INTO ${table} (${keyColumn}, data) VALUES (?, ?)`);
+        for (const [key, value] of Object.entries(records || {})) {
+            insert.run(key, JSON.stringify(value));
+        }
+    };
+
+    db.transaction(() => {
+        const snapshots: [string, 'channels' | 'programmes', Snapshot][] = [
+            ['channels.db.json', 'channels', 'current'],
+            ['channels.previous.db.json', 'channels', 'previous'],
+            ['programmes.db.json', 'programmes', 'current'],
+            ['programmes.previous.db.json', 'programmes', 'previous'],
+        ];
+        for (const [fileName, table, snapshot] of snapshots) {
+            const data = read(fileName);
+            if (table === 'channels') {
+                insertChannels(db, snapshot, data?.channels || []);
+            } else {
+                insertProgrammes(db, snapshot, data?.programmes || []);
+            }
+            if (snapshot === 'previous' && data?.saved_at) {
+                setMeta(db, `${table}_saved_at`, data.saved_at);
+            }
+        }
+
+        putRecords('source_snapshots', 'name', read('sources.db.json')?.sources);
+        // downloads.db.json is not imported, its validators are keyed by URL and would only save one download
+        putRecords('channel_health', 'url', read('health.db.json')?.channels);
+        putRecords('jobs', 'name', read('schedule.db.json')?.jobs);
+
+        const epg = read('epg.db.json');
+        const insertEpgChannel = db.prepare('INSERT INTO epg_channels (position, id, data) VALUES (?, ?, ?)');
+        (epg?.channels || []).forEach((channel: any, index: number) => insertEpgChannel.run(index, channel.id, JSON.stringify(channel)));
+        for (const [name, epgId] of Object.entries<string>(epg?.overrides || {})) {
+            db.run('INSERT OR REPLACE INTO epg_overrides (channel_name, epg_id) VALUES (?, ?)', [name, epgId]);
+        }
+        for (const [name, hours] of Object.entries<number>(epg?.shifts || {})) {
+            db.run('INSERT OR REPLACE INTO epg_shifts (channel_name, hours) VALUES (?, ?)', [name, hours]);
+        }
+
+        const report = read('ingest.db.json')?.report;
+        if (report) {
+            setMeta(db, 'ingest_report', report);
+        }
+
+        setMeta(db, 'json_imported_at', new Date().toISOString());
+    })();
+
+    for (const path of imported) {
+        try {
+            renameSync(path, `${path}.imported`);
+        } catch (error) {
+            logger.warn(`Could not rename imported file ${path}: ${error}`);
+        }
+    }
+    if (imported.length > 0) {
+        logger.info(`Imported ${imported.length} JSON data files into the database`);
+    }
+    return imported.length;
+}
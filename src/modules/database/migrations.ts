@@ -0,0 +1,217 @@
+import type { Database } from 'bun:sqlite';
+import { getLogger } from '../../utils/logger';
+
+const logger = getLogger();
+
+/**
+ * Versioned change of the database schema
+ */
+export interface Migration {
+    version: number;
+    description: string;
+    sql: string;
+}
+
+/**
+ * Schema changes in the order they are applied. Never edit a released migration, add a new one instead.
+ */
+export const migrations: Migration[] = [
+    {
+        version: 1,
+        description: 'Initial schema',
+        sql: `
+            -- Channels and programmes keep the current, the previous (last known good) and staged rows side by side,
+            -- so refreshes and rollbacks swap snapshots instead of copying data
+            CREATE TABLE channels (
+                id INTEGER PRIMARY KEY,
+                snapshot TEXT NOT NULL,
+                position INTEGER NOT NULL,
+                name TEXT,
+                epg_id TEXT,
+                url TEXT NOT NULL,
+                data TEXT NOT NULL
+            );
+            CREATE INDEX channels_position ON channels (snapshot, position);
+            CREATE INDEX channels_name ON channels (snapshot, name COLLATE NOCASE);
+            CREATE INDEX channels_epg_id ON channels (snapshot, epg_id);
+
+            CREATE TABLE programmes (
+                id INTEGER PRIMARY KEY,
+                snapshot TEXT NOT NULL,
+                channel TEXT NOT NULL,
+                start_timestamp INTEGER NOT NULL,
+                stop_timestamp INTEGER NOT NULL,
+                title TEXT,
+                data TEXT NOT NULL
+            );
+            CREATE INDEX programmes_channel_time ON programmes (snapshot, channel, start_timestamp);
+            CREATE INDEX programmes_time ON programmes (snapshot, start_timestamp, stop_timestamp);
+            CREATE INDEX programmes_title ON programmes (snapshot, title COLLATE NOCASE);
+
+            CREATE TABLE epg_channels (
+                position INTEGER PRIMARY KEY,
+                id TEXT NOT NULL,
+                data TEXT NOT NULL
+            );
+            CREATE TABLE epg_overrides (
+                channel_name TEXT PRIMARY KEY,
+                epg_id TEXT NOT NULL
+            );
+            CREATE TABLE epg_shifts (
+                channel_name TEXT PRIMARY KEY,
+                hours REAL NOT NULL
+            );
+
+            CREATE TABLE source_snapshots (
+                name TEXT PRIMARY KEY,
+                data TEXT NOT NULL
+            );
+            CREATE TABLE downloads (
+                url TEXT PRIMARY KEY,
+                data TEXT NOT NULL
+            );
+            CREATE TABLE channel_health (
+                url TEXT PRIMARY KEY,
+                data TEXT NOT NULL
+            );
+            CREATE TABLE jobs (
+                name TEXT PRIMARY KEY,
+                data TEXT NOT NULL
+            );
+
+            -- Single values such as the ingest report and the snapshot times, stored as JSON
+            CREATE TABLE meta (
+                key TEXT PRIMARY KEY,
+                value TEXT NOT NULL
+            );
+        `,
+    },
+    {
+        version: 2,
+        description: 'Full-text programme search',
+        sql: `
+            ALTER TABLE programmes ADD COLUMN sub_title TEXT;
+            ALTER TABLE programmes ADD COLUMN description TEXT;
+            ALTER TABLE programmes ADD COLUMN category TEXT;
+            UPDATE programmes SET
+                sub_title = json_extract(data, '$.sub_title'),
+                description = json_extract(data, '$.description'),
+                category = json_extract(data, '$.category');
+
+            -- Indexes the text columns of the programmes table without storing them twice
+            CREATE VIRTUAL TABLE programmes_fts USING fts5 (
+                title, sub_title, description, category,
+                content = 'programmes', content_rowid = 'id', tokenize = 'unicode61 remove_diacritics 2'
+            );
+            INSERT INTO programmes_fts (programmes_fts) VALUES ('rebuild');
+
+            CREATE TRIGGER programmes_fts_insert AFTER INSERT ON programmes BEGIN
+                INSERT INTO programmes_fts (rowid, title, sub_title, description, category)
+                VALUES (new.id, new.title, new.sub_title, new.description, new.category);
+            END;
+            CREATE TRIGGER programmes_fts_delete AFTER DELETE ON programmes BEGIN
+                INSERT INTO programmes_fts (programmes_fts, rowid, title, sub_title, description, category)
+                VALUES ('delete', old.id, old.title, old.sub_title, old.description, old.category);
+            END;
+            -- Snapshot swaps only update the snapshot column and leave the index alone
+            CREATE TRIGGER programmes_fts_update AFTER UPDATE OF title, sub_title, description, category ON programmes BEGIN
+                INSERT INTO programmes_fts (programmes_fts, rowid, title, sub_title, description, category)
+                VALUES ('delete', old.id, old.title, old.sub_title, old.description, old.category);
+                INSERT INTO programmes_fts (rowid, title, sub_title, description, category)
+                VALUES (new.id, new.title, new.sub_title, new.description, new.category);
+            END;
+        `,
+    },
+    {
+        version: 3,
+        description: 'Programme reminders',
+        sql: `
+            CREATE TABLE reminders (
+                id INTEGER PRIMARY KEY,
+                user_id TEXT NOT NULL,
+                text_channel_id TEXT NOT NULL,
+                channel_name TEXT NOT NULL,
+                title TEXT NOT NULL,
+                start_timestamp INTEGER NOT NULL,
+                remind_at INTEGER NOT NULL,
+                created_at TEXT NOT NULL,
+                UNIQUE (user_id, channel_name, start_timestamp)
+            );
+            CREATE INDEX reminders_remind_at ON reminders (remind_at);
+        `,
+    },
+    {
+        version: 4,
+        description: 'Watch history',
+        sql: `
+            CREATE TABLE stream_sessions (
+                id INTEGER PRIMARY KEY,
+                requester_id TEXT,
+                requester_name TEXT,
+                channel_name TEXT NOT NULL,
+                voice_channel_id TEXT,
+                replay INTEGER NOT NULL DEFAULT 0,
+                -- JSON array of the programmes aired during the session
+                programmes TEXT NOT NULL DEFAULT '[]',
+                started_at INTEGER NOT NULL,
+                -- Last time the stream was seen running, used as stop time of sessions interrupted by a restart
+                last_seen_at INTEGER NOT NULL,
+                stopped_at INTEGER,
+                stop_reason TEXT,
+                error TEXT,
+                peak_viewers INTEGER NOT NULL DEFAULT 0
+            );
+            CREATE INDEX stream_sessions_started_at ON stream_sessions (started_at);
+        `,
+    },
+    {
+        version: 5,
+        description: 'Favourite channels',
+        sql: `
+            -- Channels are referenced by name, like the mapping overrides, so favourites survive playlist refreshes
+            CREATE TABLE favorites (
+                user_id TEXT NOT NULL,
+                channel_name TEXT NOT NULL COLLATE NOCASE,
+                created_at TEXT NOT NULL,
+                PRIMARY KEY (user_id, channel_name)
+            );
+        `,
+    },
+    {
+        version: 6,
+        description: 'Download validators keyed by source',
+        sql: `
+            -- URLs of Xtream and some playlist sources contain credentials, validators are keyed by the cache file name instead.
+            -- The stored validators only save one download, so they are dropped rather than converted
+            DELETE FROM downloads;
+            ALTER TABLE downloads RENAME COLUMN url TO name;
+        `,
+    },
+];
+
+/**
+ * Applies the migrations newer than the schema version of the database, each in its own transaction.
+ * The schema version is kept in SQLite's user_version.
+ *
+ * @param {Database} db - Open database
+ * @returns {number} - Schema version after migrating
+ * @throws {Error} - If the database is newer than this version of OrbisCast or a migration fails
+ */
+export function migrate(db: Database): number {
+    const current = db.query<{ user_version: number }, []>('PRAGMA user_version').get()?.user_version || 0;
+    const latest = migrations[migrations.length - 1]?.version || 0;
+
+    if (current > latest) {
+        throw new Error(`Database schema version ${current} is newer than the supported version ${latest}`);
+    }
+
+    for (const migration of migrations.filter(migration => migration.version > current)) {
+        logger.info(`Migrating database to version ${migration.version}: ${migration.description}`);
+        db.transaction(() => {
+            db.run(migration.sql);
+            db.run(`PRAGMA user_version = ${migration.version}`);
+        })();
+    }
+
+    return Math.max(current, latest);
+}
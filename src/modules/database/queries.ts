@@ -0,0 +1,385 @@
+import { db } from './connection';
+import type { ChannelEntry, ProgrammeEntry } from '../../interfaces/iptv';
+
+/**
+ * Window of a paged result
+ */
+export interface Page {
+    offset?: number;
+    limit?: number;
+}
+
+/**
+ * One page of results with the total number of matches
+ */
+export interface PagedResult<T> {
+    items: T[];
+    total: number;
+    offset: number;
+    limit: number;
+}
+
+/**
+ * Programme airing on a channel and the one after it
+ */
+export interface NowAndNext {
+    current: ProgrammeEntry | null;
+    next: ProgrammeEntry | null;
+}
+
+/**
+ * Options for searching channels
+ */
+export interface ChannelSearchOptions extends Page {
+    /** Only return channels this returns true for */
+    filter?: (channel: ChannelEntry) => boolean;
+    /** Names of channels that come before the other matches, in this order, such as a user's favourites */
+    preferred?: string[];
+}
+
+/**
+ * Lookup tables over the stored channels, rebuilt after the channels change
+ */
+interface ChannelIndex {
+    channels: ChannelEntry[];
+    byName: Map<string, ChannelEntry>;
+    byTvgId: Map<string, ChannelEntry>;
+    /** Channels by the XMLTV channel they take their programmes from */
+    byEpgId: Map<string, ChannelEntry[]>;
+    /** Lower-case names with their channels, sorted for prefix searches */
+    sortedNames: [string, ChannelEntry][];
+}
+
+let channelIndex: ChannelIndex | null = null;
+
+/**
+ * Drops the channel index, so the next query rebuilds it from the database.
+ * Called by every function that writes channels.
+ */
+export function invalidateChannelIndex() {
+    channelIndex = null;
+}
+
+/**
+ * Returns the channel index, building it from the database if the channels changed
+ *
+ * @returns {ChannelIndex} - Current channel index
+ */
+function getChannelIndex(): ChannelIndex {
+    if (channelIndex) {
+        return channelIndex;
+    }
+
+    const channels = db.query<{ data: string }, []>(`SELECT data FROM channels WHERE snapshot = 'current' ORDER BY position`)
+        .all()
+        .map(row => JSON.parse(row.data) as ChannelEntry);
+
+    const byName = new Map<string, ChannelEntry>();
+    const byTvgId = new Map<string, ChannelEntry>();
+    const byEpgId = new Map<string, ChannelEntry[]>();
+    for (const channel of channels) {
+        if (channel.tvg_name && !byName.has(channel.tvg_name.toLowerCase())) {
+            byName.set(channel.tvg_name.toLowerCase(), channel);
+        }
+        if (channel.tvg_id && !byTvgId.has(channel.tvg_id)) {
+            byTvgId.set(channel.tvg_id, channel);
+        }
+        const epgId = getEpgChannelId(channel);
+        const sharing = epgId ? byEpgId.get(epgId) : undefined;
+        if (sharing) {
+            sharing.push(channel);
+        } else if (epgId) {
+            byEpgId.set(epgId, [channel]);
+        }
+    }
+    const sortedNames = [...byName.entries()].sort(([a], [b]) => a < b ? -1 : a > b ? 1 : 0);
+
+    channelIndex = { channels, byName, byTvgId, byEpgId, sortedNames };
+    return channelIndex;
+}
+
+/**
+ * Retrieves all stored channels from the channel index
+ *
+ * @returns {ChannelEntry[]} - Channels in playlist order
+ */
+export function getIndexedChannels(): ChannelEntry[] {
+    return getChannelIndex().channels;
+}
+
+/**
+ * Finds the channels that take their programmes from an XMLTV channel
+ *
+ * @param {string} epgId - XMLTV channel ID
+ * @returns {ChannelEntry[]} - Channels in playlist order, including timeshifted channels
+ */
+export function getChannelsByEpgId(epgId: string): ChannelEntry[] {
+    return getChannelIndex().byEpgId.get(epgId) || [];
+}
+
+/**
+ * Finds a channel by its tvg-id
+ *
+ * @param {string} id - tvg-id from the playlist
+ * @returns {Promise<ChannelEntry | null>} - First channel with the ID, or null if there is none
+ */
+export async function getChannelById(id: string): Promise<ChannelEntry | null> {
+    return getChannelIndex().byTvgId.get(id) || null;
+}
+
+/**
+ * Finds a channel by its name, ignoring case
+ *
+ * @param {string} name - Channel name
+ * @returns {Promise<ChannelEntry | null>} - Channel with the name, or null if there is none
+ */
+export async function getChannelByName(name: string): Promise<ChannelEntry | null> {
+    return getChannelIndex().byName.get(name.toLowerCase()) || null;
+}
+
+/**
+ * Searches channels by name. Preferred channels come first, then names starting with the query
+ * in alphabetical order, followed by names containing it, in playlist order.
+ *
+ * @param {string} prefix - Text to search for, ignoring case; empty returns all channels in playlist order
+ * @param {number} limit - Maximum number of channels to return
+ * @param {ChannelSearchOptions} options - Offset, filter and preferred channels
+ * @returns {Promise<PagedResult<ChannelEntry>>} - Matching channels
+ */
+export async function searchChannels(prefix: string, limit = 25, options: ChannelSearchOptions = {}): Promise<PagedResult<ChannelEntry>> {
+    const index = getChannelIndex();
+    const query = prefix.trim().toLowerCase();
+    const filter = options.filter || (() => true);
+    const offset = options.offset || 0;
+
+    let matches: ChannelEntry[];
+    if (!query) {
+        matches = index.channels.filter(channel => channel.tvg_name && filter(channel));
+    } else {
+        const prefixed: ChannelEntry[] = [];
+        for (let i = findFirstAtLeast(index.sortedNames, query); i < index.sortedNames.length; i++) {
+            const [name, channel] = index.sortedNames[i]!;
+            if (!name.startsWith(query)) {
+                break;
+            }
+            if (filter(channel)) {
+                prefixed.push(channel);
+            }
+        }
+        const prefixedSet = new Set(prefixed);
+        const containing = index.channels.filter(channel =>
+            !prefixedSet.has(channel) && channel.tvg_name?.toLowerCase().includes(query) && filter(channel));
+        matches = [...prefixed, ...containing];
+    }
+
+    if (options.preferred?.length) {
+        const ranks = new Map(options.preferred.map((name, rank) => [name.toLowerCase(), rank]));
+        const rank = (channel: ChannelEntry) => ranks.get(channel.tvg_name!.toLowerCase()) ?? Infinity;
+        const preferred = matches.filter(channel => ranks.has(channel.tvg_name!.toLowerCase())).sort((a, b) => rank(a) - rank(b));
+        matches = [...preferred, ...matches.filter(channel => !ranks.has(channel.tvg_name!.toLowerCase()))];
+    }
+
+    return { items: matches.slice(offset, offset + limit), total: matches.length, offset, limit };
+}
+
+/**
+ * Binary search for the first name that sorts at or after a query
+ *
+ * @param {[string, ChannelEntry][]} sortedNames - Sorted lower-case names
+ * @param {string} query - Lower-case query
+ * @returns {number} - Index of the first name not before the query
+ */
+function findFirstAtLeast(sortedNames: [string, ChannelEntry][], query: string): number {
+    let low = 0;
+    let high = sortedNames.length;
+    while (low < high) {
+        const middle = (low + high) >> 1;
+        if (sortedNames[middle]![0] < query) {
+            low = middle + 1;
+        } else {
+            high = middle;
+        }
+    }
+    return low;
+}
+
+/**
+ * Returns the XMLTV channel ID to use for a playlist channel.
+ *
+ * @param {ChannelEntry} channel - Playlist channel
+ * @returns {string | undefined} - Mapped XMLTV ID, falling back to the tvg_id
+ */
+export function getEpgChannelId(channel: ChannelEntry): string | undefined {
+    return channel.epg_id || channel.tvg_id || undefined;
+}
+
+/**
+ * Returns the number of hours the guide of a channel is shifted by.
+ *
+ * @param {ChannelEntry} channel - Playlist channel
+ * @returns {number} - Offset in hours, 0 if the guide is used as published
+ */
+export function getEpgShift(channel: ChannelEntry): number {
+    return channel.epg_shift ?? channel.tvg_shift ?? 0;
+}
+
+/**
+ * Moves a programme by a number of hours.
+ *
+ * @param {ProgrammeEntry} programme - Programme to move
+ * @param {number} hours - Offset in hours, may be negative or fractional
+ * @returns {ProgrammeEntry} - Moved copy of the programme, or the programme itself if the offset is 0
+ */
+export function shiftProgramme(programme: ProgrammeEntry, hours: number): ProgrammeEntry {
+    if (!hours) {
+        return programme;
+    }
+
+    const seconds = Math.round(hours * 60 * 60);
+    const start = programme.start_timestamp + seconds;
+    const stop = programme.stop_timestamp + seconds;
+    return {
+        ...programme,
+        start: new Date(start * 1000).toISOString(),
+        stop: new Date(stop * 1000).toISOString(),
+        start_timestamp: start,
+        stop_timestamp: stop,
+    };
+}
+
+/**
+ * Retrieves the programmes of a channel that overlap a time range, in the channel's time.
+ * The guide offset of the channel is applied, so a "+1" channel gets its base channel's programmes an hour later.
+ *
+ * @param {ChannelEntry} channel - Playlist channel
+ * @param {number} from - Start of the range as Unix timestamp in seconds
+ * @param {number} to - End of the range as Unix timestamp in seconds
+ * @param {Page} page - Offset and maximum number of programmes
+ * @returns {Promise<PagedResult<ProgrammeEntry>>} - Programmes sorted by start time
+ */
+export async function getProgrammesForChannel(channel: ChannelEntry, from: number, to: number, page: Page = {}): Promise<PagedResult<ProgrammeEntry>> {
+    const offset = page.offset || 0;
+    const limit = page.limit ?? Number.MAX_SAFE_INTEGER;
+    const epgId = getEpgChannelId(channel);
+    if (!epgId) {
+        return { items: [], total: 0, offset, limit };
+    }
+
+    const shift = Math.round(getEpgShift(channel) * 60 * 60);
+    const guideFrom = from - shift;
+    const guideTo = to - shift;
+
+    // The programme that started before the range is found through the index instead of scanning for its stop time
+    const airing = db.query<{ data: string }, [string, number, number]>(`SELECT data FROM programmes
+        WHERE snapshot = 'current' AND channel = ? AND start_timestamp < ? AND stop_timestamp > ?
+        ORDER BY start_timestamp DESC LIMIT 1`).get(epgId, guideFrom, guideFrom);
+    const total = (airing ? 1 : 0) + (db.query<{ count: number }, [string, number, number]>(`SELECT COUNT(*) AS count FROM programmes
+        WHERE snapshot = 'current' AND channel = ? AND start_timestamp >= ? AND start_timestamp < ?`).get(epgId, guideFrom, guideTo)?.count || 0);
+
+    const rows: { data: string }[] = [];
+    let skip = offset;
+    let take = limit;
+    if (airing) {
+        if (skip > 0) {
+            skip--;
+        } else if (take > 0) {
+            rows.push(airing);
+            take--;
+        }
+    }
+    if (take > 0) {
+        rows.push(...db.query<{ data: string }, [string, number, number, number, number]>(`SELECT data FROM programmes
+            WHERE snapshot = 'current' AND channel = ? AND start_timestamp >= ? AND start_timestamp < ?
+            ORDER BY start_timestamp LIMIT ? OFFSET ?`).all(epgId, guideFrom, guideTo, take, skip));
+    }
+
+    const items = rows.map(row => shiftProgramme(JSON.parse(row.data), getEpgShift(channel)));
+    return { items, total, offset, limit };
+}
+
+/**
+ * Retrieves the programme airing on a channel
+ *
+ * @param {ChannelEntry} channel - Playlist channel
+ * @param {number} at - Unix timestamp in seconds, defaults to now
+ * @returns {Promise<ProgrammeEntry | null>} - Airing programme in the channel's time, or null if the guide has a gap
+ */
+export async function getCurrentProgramme(channel: ChannelEntry, at = Math.floor(Date.now() / 1000)): Promise<ProgrammeEntry | null> {
+    return (await getNowAndNext([channel], at)).get(channel)?.current || null;
+}
+
+/**
+ * Retrieves the airing and the next programme of several channels at once
+ *
+ * @param {ChannelEntry[]} channels - Playlist channels
+ * @param {number} at - Unix timestamp in seconds, defaults to now
+ * @returns {Promise<Map<ChannelEntry, NowAndNext>>} - Programmes in the channel's time, keyed by channel
+ */
+export async function getNowAndNext(channels: ChannelEntry[], at = Math.floor(Date.now() / 1000)): Promise<Map<ChannelEntry, NowAndNext>> {
+    const currentQuery = db.query<{ data: string }, [string, number, number]>(`SELECT data FROM programmes
+        WHERE snapshot = 'current' AND channel = ? AND start_timestamp <= ? AND stop_timestamp > ?
+        ORDER BY start_timestamp DESC LIMIT 1`);
+    const nextQuery = db.query<{ data: string }, [string, number]>(`SELECT data FROM programmes
+        WHERE snapshot = 'current' AND channel = ? AND start_timestamp > ?
+        ORDER BY start_timestamp LIMIT 1`);
+
+    const result = new Map<ChannelEntry, NowAndNext>();
+    for (const channel of channels) {
+        const epgId = getEpgChannelId(channel);
+        if (!epgId) {
+            result.set(channel, { current: null, next: null });
+            continue;
+        }
+
+        const hours = getEpgShift(channel);
+        const guideAt = at - Math.round(hours * 60 * 60);
+        const current = currentQuery.get(epgId, guideAt, guideAt);
+        const next = nextQuery.get(epgId, guideAt);
+        result.set(channel, {
+            current: current ? shiftProgramme(JSON.parse(current.data), hours) : null,
+            next: next ? shiftProgramme(JSON.parse(next.data), hours) : null,
+        });
+    }
+    return result;
+}
+
+/**
+ * Retrieves when the stored programmes were refreshed, from the first stored programme
+ *
+ * @returns {Promise<string | null>} - ISO timestamp, or null if no programmes are stored
+ */
+export async function getProgrammesCreatedAt(): Promise<string | null> {
+    return db.query<{ created_at: string | null }, []>(`SELECT json_extract(data, '$.created_at') AS created_at FROM programmes
+        WHERE snapshot = 'current' ORDER BY id LIMIT 1`).get()?.created_at || null;
+}
+
+/**
+ * Counts the stored programmes
+ *
+ * @returns {Promise<number>} - Number of programmes
+ */
+export async function countProgrammes(): Promise<number> {
+    return db.query<{ count: number }, []>(`SELECT COUNT(*) AS count FROM programmes WHERE snapshot = 'current'`).get()?.count || 0;
+}
+
+/**
+ * Retrieves the start of the first and the last stored programme
+ *
+ * @returns {Promise<{ first: number, last: number } | null>} - Unix timestamps in seconds in the guide's time, or null if no programmes are stored
+ */
+export async function getProgrammeStartRange(): Promise<{ first: number, last: number } | null> {
+    const row = db.query<{ first: number | null, last: number | null }, []>(`SELECT MIN(start_timestamp) AS first, MAX(start_timestamp) AS last
+        FROM programmes WHERE snapshot = 'current'`).get();
+    return row?.first != null && row.last != null ? { first: row.first, last: row.last } : null;
+}
+
+/**
+ * Retrieves the XMLTV channel IDs that have stored programmes
+ *
+ * @returns {Promise<Set<string>>} - Guide channel IDs
+ */
+export async function getProgrammeChannelIds(): Promise<Set<string>> {
+    return new Set(db.query<{ channel: string }, []>(`SELECT DISTINCT channel FROM programmes WHERE snapshot = 'current'`)
+        .all()
+        .map(row => row.channel));
+}
@@ -0,0 +1,93 @@
+import { db } from './connection';
+import { getChannelsByEpgId, getEpgShift, getIndexedChannels, shiftProgramme } from './queries';
+import type { ChannelEntry, ProgrammeEntry } from '../../interfaces/iptv';
+
+/**
+ * Programme found by a search, with the channel it airs on
+ */
+export interface ProgrammeSearchResult {
+    channel: ChannelEntry;
+    /** Programme in the channel's time */
+    programme: ProgrammeEntry;
+}
+
+/**
+ * Options for searching programmes
+ */
+export interface ProgrammeSearchOptions {
+    /** Only programmes that end after this Unix timestamp in seconds, defaults to now */
+    from?: number;
+    /** Only programmes that start before this Unix timestamp in seconds */
+    to?: number;
+    /** Only channels this returns true for */
+    filter?: (channel: ChannelEntry) => boolean;
+    /** Maximum number of results, defaults to 10 */
+    limit?: number;
+}
+
+/**
+ * Rows read from the full-text index before the channel filter, so filtered searches still fill a page
+ */
+const MAX_CANDIDATES = 500;
+
+/**
+ * Converts user input to a full-text query that matches programmes containing every word,
+ * where the last word may be incomplete
+ *
+ * @param {string} query - Text typed by the user
+ * @returns {string | null} - FTS5 query, or null if the input has no words
+ */
+function toFullTextQuery(query: string): string | null {
+    const words = query.match(/[\p{L}\p{N}]+/gu);
+    if (!words) {
+        return null;
+    }
+    return words.map((word, index) => `"${word}"${index === words.length - 1 ? '*' : ''}`).join(' ');
+}
+
+/**
+ * Searches the titles, episode titles, descriptions and categories of the stored programmes.
+ * Each programme is returned once for every channel that airs it, including timeshifted channels, in the channel's time.
+ *
+ * @param {string} query - Words to search for
+ * @param {ProgrammeSearchOptions} options - Time range, channel filter and limit
+ * @returns {Promise<ProgrammeSearchResult[]>} - Airing and upcoming programmes, earliest first
+ */
+export async function searchProgrammes(query: string, options: ProgrammeSearchOptions = {}): Promise<ProgrammeSearchResult[]> {
+    const match = toFullTextQuery(query);
+    if (!match) {
+        return [];
+    }
+
+    const from = options.from ?? Math.floor(Date.now() / 1000);
+    const to = options.to ?? Number.MAX_SAFE_INTEGER;
+    const limit = options.limit ?? 10;
+    const filter = options.filter || (() => true);
+
+    // Shifted channels air the guide at other times, so the guide is searched in a range wide enough for all of them
+    const shifts = getIndexedChannels().map(channel => Math.round(getEpgShift(channel) * 60 * 60));
+    const earliest = Math.min(0, ...shifts);
+    const latest = Math.max(0, ...shifts);
+
+    const rows = db.query<{ data: string }, [string, number, number, number]>(`SELECT programmes.data FROM programmes_fts
+        JOIN programmes ON programmes.id = programmes_fts.rowid
+        WHERE programmes_fts MATCH ? AND programmes.snapshot = 'current'
+            AND programmes.stop_timestamp > ? AND programmes.start_timestamp < ?
+        ORDER BY programmes.start_timestamp
+        LIMIT ?`).all(match, from - latest, Math.min(to - earliest, Number.MAX_SAFE_INTEGER), MAX_CANDIDATES);
+
+    const results: ProgrammeSearchResult[] = [];
+    for (const row of rows) {
+        const programme = JSON.parse(row.data) as ProgrammeEntry;
+        for (const channel of getChannelsByEpgId(programme.channel)) {
+            const shifted = shiftProgramme(programme, getEpgShift(channel));
+            if (shifted.stop_timestamp > from && shifted.start_timestamp < to && filter(channel)) {
+                results.push({ channel, programme: shifted });
+            }
+        }
+    }
+
+    return results
+        .sort((a, b) => a.programme.start_timestamp - b.programme.start_timestamp)
+        .slice(0, limit);
+}
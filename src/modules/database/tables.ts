@@ -0,0 +1,67 @@
+import type { Database } from 'bun:sqlite';
+import type { ChannelEntry, ProgrammeEntry } from '../../interfaces/iptv';
+
+/**
+ * Set of rows in the channels and programmes tables.
+ * 'current' is what users see, 'previous' the last known good data and 'pending' programmes staged by a refresh.
+ */
+export type Snapshot = 'current' | 'previous' | 'pending';
+
+/**
+ * Appends channels to a snapshot, after the channels it already holds
+ *
+ * @param {Database} db - Open database
+ * @param {Snapshot} snapshot - Snapshot to add the channels to
+ * @param {ChannelEntry[]} channels - Channels in display order
+ */
+export function insertChannels(db: Database, snapshot: Snapshot, channels: ChannelEntry[]) {
+    const offset = db.query<{ next: number }, [Snapshot]>('SELECT COALESCE(MAX(position) + 1, 0) AS next FROM channels WHERE snapshot = ?')
+        .get(snapshot)?.next || 0;
+    const insert = db.prepare('INSERT INTO channels (snapshot, position, name, epg_id, url, data) VALUES (?, ?, ?, ?, ?, ?)');
+    channels.forEach((channel, index) => {
+        insert.run(snapshot, offset + index, channel.tvg_name || null, channel.epg_id || null, channel.url, JSON.stringify(channel));
+    });
+}
+
+/**
+ * Appends programmes to a snapshot
+ *
+ * @param {Database} db - Open database
+ * @param {Snapshot} snapshot - Snapshot to add the programmes to
+ * @param {ProgrammeEntry[]} programmes - Programmes to add
+ */
+export function insertProgrammes(db: Database, snapshot: Snapshot, programmes: ProgrammeEntry[]) {
+    const insert = db.prepare(`INSERT INTO programmes (snapshot, channel, start_timestamp, stop_timestamp, title, sub_title, description, category, data)
+        VALUES (?, ?, ?, ?, ?, ?, ?, ?, ?)`);
+    for (const programme of programmes) {
+        insert.run(snapshot, programme.channel, programme.start_timestamp, programme.stop_timestamp, programme.title || null,
+            programme.sub_title || null, programme.description || null, programme.category || null, JSON.stringify(programme));
+    }
+}
+
+/**
+ * Stores a value in the meta table
+ *
+ * @param {Database} db - Open database
+ * @param {string} key - Name of the value
+ * @param {unknown} value - Value to store as JSON, undefined removes it
+ */
+export function setMeta(db: Database, key: string, value: unknown) {
+    if (value === undefined) {
+        db.run('DELETE FROM meta WHERE key = ?', [key]);
+    } else {
+        db.run('INSERT OR REPLACE INTO meta (key, value) VALUES (?, ?)', [key, JSON.stringify(value)]);
+    }
+}
+
+/**
+ * Reads a value from the meta table
+ *
+ * @param {Database} db - Open database
+ * @param {string} key - Name of the value
+ * @returns {T | undefined} - Stored value, or undefined if it was never set
+ */
+export function getMeta<T>(db: Database, key: string): T | undefined {
+    const row = db.query<{ value: string }, [string]>('SELECT value FROM meta WHERE key = ?').get(key);
+    return row ? JSON.parse(row.value) as T : undefined;
+}
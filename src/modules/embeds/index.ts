@@ -1,23 +1,28 @@
 import { ProgrammeEmbedProcessor } from './programme';
 import { ChannelEmbedProcessor, type Channel } from './channel';
+import { IngestReportEmbedProcessor } from './report';
 import type { EmbedOptions, EmbedResult, EmbedProcessor } from './types';
 import { EmbedBuilder } from 'discord.js';
-import type { ProgrammeEntry } from '../../interfaces/iptv';
+import { describeHealth } from '../iptv';
+import type { ChannelHealth, IngestReport, ProgrammeEntry } from '../../interfaces/iptv';
 
 export type { EmbedOptions, EmbedResult, EmbedProcessor };
 export { BaseEmbedProcessor } from './base';
 export { ProgrammeEmbedProcessor } from './programme';
 export { ChannelEmbedProcessor } from './channel';
+export { IngestReportEmbedProcessor } from './report';
 export type { Channel } from './channel';
 
 // Create instances of our processors
 const programmeProcessor = new ProgrammeEmbedProcessor();
 const channelProcessor = new ChannelEmbedProcessor();
+const ingestReportProcessor = new IngestReportEmbedProcessor();
 
 // Export a list of all processors
 export const embedProcessors = [
     programmeProcessor,
     channelProcessor,
+    ingestReportProcessor,
 ];
 
 /**
@@ -53,6 +58,15 @@ export function isChannel(data: unknown): data is Channel {
     return channelProcessor.canProcess(data);
 }
 
+/**
+ * Type guard to check if data is an ingest report with at least one section
+ * @param data - Data to check
+ * @returns True if the data is an ingest report
+ */
+export function isIngestReport(data: unknown): data is IngestReport {
+    return ingestReportProcessor.canProcess(data);
+}
+
 /**
  * Creates a Discord embed for a programme
  * @param programme - Programme data
@@ -87,17 +101,32 @@ export async function createChannelEmbed(
     });
 }
 
+/**
+ * Creates a Discord embed summarizing the last refresh
+ * @param report - Ingest report
+ * @param embedOptions - Customization options for the embed
+ * @returns Generated embed result
+ */
+export async function createIngestReportEmbed(
+    report: IngestReport,
+    embedOptions: EmbedOptions = {}
+): Promise<EmbedResult> {
+    return await ingestReportProcessor.process(report, embedOptions);
+}
+
 /**
  * Creates a rich Discord embed for a streaming channel with programme information
  * @param channel - Channel being streamed
  * @param currentProgramme - Currently airing programme, if available
  * @param upcomingProgrammes - List of upcoming programmes
+ * @param health - Result of the last health check of the channel, if it was checked
  * @returns Discord embed for the stream
  */
 export function createStreamEmbed(
     channel: Channel,
     currentProgramme?: ProgrammeEntry | null,
-    upcomingProgrammes: ProgrammeEntry[] = []
+    upcomingProgrammes: ProgrammeEntry[] = [],
+    health?: ChannelHealth
 ): EmbedBuilder {
     const streamEmbed = new EmbedBuilder()
         .setTitle(`📺 ${channel.tvg_name || 'Channel'} Stream`)
@@ -110,11 +139,17 @@ export function createStreamEmbed(
 
     if (currentProgramme) {
         const info = programmeProcessor.generateProgrammeInfoEmbed(currentProgramme);
+        const nowPlaying = [`**${info.title}**`, info.episode, info.badges].filter(Boolean).join('\n');
         streamEmbed.addFields(
-            { name: '🔴 NOW PLAYING', value: info.title, inline: false },
+            { name: '🔴 NOW PLAYING', value: nowPlaying.substring(0, 1024), inline: false },
             { name: 'Time', value: info.timeRange, inline: true },
             { name: 'Description', value: info.description }
         );
+
+        // The programme poster replaces the channel logo while it is airing
+        if (info.icon) {
+            streamEmbed.setThumbnail(info.icon);
+        }
     } else {
         streamEmbed.addFields(
             { name: '🔴 NOW PLAYING', value: 'No current programme information available', inline: false }
@@ -140,12 +175,14 @@ export function createStreamEmbed(
                     return `${hours}h ${remainingMinutes}min`;
                 };
 
-                return `• **${prog.title}** at ${startTime} (in ${formatTime(timeUntilStart)})`;
+                const episode = prog.episode_num ? ` ${prog.episode_num}` : '';
+                const marker = prog.live ? ' 📡' : prog.premiere || prog.is_new ? ' 🆕' : '';
+                return `• **${prog.title}**${episode}${marker} at ${startTime} (in ${formatTime(timeUntilStart)})`;
             });
 
         streamEmbed.addFields({
             name: '⏭️ UPCOMING',
-            value: upcomingList.join('\n'),
+            value: upcomingList.join('\n').substring(0, 1024),
             inline: false,
         });
     } else {
@@ -154,6 +191,15 @@ export function createStreamEmbed(
         );
     }
 
+    if (health) {
+        streamEmbed.addFields({
+            name: '🩺 STREAM HEALTH',
+            value: `${describeHealth(health)} • checked <t:${Math.floor(Date.parse(health.checked_at) / 1000)}:R>` +
+                (health.status === 'offline' && health.error ? `\n${health.error.substring(0, 200)}` : ''),
+            inline: false,
+        });
+    }
+
     streamEmbed.setFooter({ text: 'Stream and programme information is subject to change' });
     return streamEmbed;
 }
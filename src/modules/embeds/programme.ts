@@ -51,17 +51,65 @@ export class ProgrammeEmbedProcessor extends BaseEmbedProcessor<ProgrammeEntry>
             );
         }
 
-        if (programme.description) {
-            embed.setDescription(programme.description);
+        const episode = ProgrammeEmbedProcessor.formatEpisode(programme);
+        const badges = ProgrammeEmbedProcessor.formatBadges(programme);
+        const description = [badges, episode && `**${episode}**`, programme.description].filter(Boolean).join('\n');
+        if (description) {
+            embed.setDescription(description.substring(0, 4096));
         }
 
-        if (programme.category) {
-            embed.addFields({ name: 'Category', value: programme.category, inline: true });
+        const categories = programme.categories?.length ? programme.categories : [programme.category].filter(Boolean);
+        if (categories.length > 0) {
+            embed.addFields({ name: 'Category', value: categories.join(', ').substring(0, 1024), inline: true });
+        }
+
+        if (programme.star_rating) {
+            embed.addFields({ name: 'Rating', value: `⭐ ${programme.star_rating}`, inline: true });
+        }
+
+        if (ProgrammeEmbedProcessor.isEmbeddableImage(programme.icon)) {
+            embed.setThumbnail(programme.icon!);
+        }
+
+        if (programme.source) {
+            embed.setFooter({ text: `Guide: ${programme.source}` });
         }
 
         return { embed };
     }
 
+    /**
+     * Formats the episode number and episode title of a programme, e.g. "S02E05 – The Title"
+     * @param programme - The programme data
+     * @returns Formatted episode line or empty string if the programme has neither
+     */
+    public static formatEpisode(programme: ProgrammeEntry): string {
+        return [programme.episode_num, programme.sub_title].filter(Boolean).join(' – ');
+    }
+
+    /**
+     * Formats the flags and age rating of a programme as a line of badges
+     * @param programme - The programme data
+     * @returns Badges separated by spaces or empty string if the programme has none
+     */
+    public static formatBadges(programme: ProgrammeEntry): string {
+        const badges: string[] = [];
+        if (programme.live) badges.push('📡 LIVE');
+        if (programme.premiere) badges.push('🎬 PREMIERE');
+        else if (programme.is_new) badges.push('🆕 NEW');
+        if (programme.rating) badges.push(`\`${programme.rating}\``);
+        return badges.join(' ');
+    }
+
+    /**
+     * Checks whether an image URL can be shown in an embed, Discord only loads images over HTTPS
+     * @param url - Image URL
+     * @returns True if the image can be used as thumbnail
+     */
+    public static isEmbeddableImage(url: string | undefined): boolean {
+        return !!url && url.startsWith('https://');
+    }
+
     /**
      * Creates a simplified representation of a programme for use in other embeds
      * @param programme - The programme data
@@ -85,6 +133,9 @@ export class ProgrammeEmbedProcessor extends BaseEmbedProcessor<ProgrammeEntry>
 
         return {
             title: programme.title,
+            episode: ProgrammeEmbedProcessor.formatEpisode(programme),
+            badges: ProgrammeEmbedProcessor.formatBadges(programme),
+            icon: ProgrammeEmbedProcessor.isEmbeddableImage(programme.icon) ? programme.icon : undefined,
             timeRange: `${startTime} - ${stopTime}`,
             description
         };
@@ -158,9 +209,15 @@ export class ProgrammeEmbedProcessor extends BaseEmbedProcessor<ProgrammeEntry>
             const date = startDate.toLocaleDateString([], { weekday: 'short', day: 'numeric', month: 'short' });
 
             const description = typeof currentShow.description === 'string' ? currentShow.description : '';
+            const episode = this.formatEpisode(currentShow);
+            const badges = this.formatBadges(currentShow);
 
             mainEmbed
-                .setDescription(`${isLive ? '🔴 **NOW LIVE**' : '**Next Up**'}: ${currentShow.title}`)
+                .setDescription([
+                    `${isLive ? '🔴 **NOW LIVE**' : '**Next Up**'}: ${currentShow.title}`,
+                    episode,
+                    badges
+                ].filter(Boolean).join('\n'))
                 .addFields(
                     { name: 'Time', value: `${startTime} - ${stopTime}`, inline: true },
                     { name: 'Date', value: date, inline: true },
@@ -170,6 +227,10 @@ export class ProgrammeEmbedProcessor extends BaseEmbedProcessor<ProgrammeEntry>
             if (isLive) {
                 mainEmbed.setColor('#FF0000'); // Red for live shows
             }
+
+            if (this.isEmbeddableImage(currentShow.icon)) {
+                mainEmbed.setThumbnail(currentShow.icon!);
+            }
         }
 
         const embedsToSend = [mainEmbed];
@@ -201,10 +262,12 @@ export class ProgrammeEmbedProcessor extends BaseEmbedProcessor<ProgrammeEntry>
                         ? `${programme.description.substring(0, 100)}...`
                         : programme.description)
                     : 'No description available';
+                const episode = this.formatEpisode(programme);
+                const badges = this.formatBadges(programme);
 
                 dateEmbed.addFields({
-                    name: `${startTime} - ${stopTime}: ${programme.title}`,
-                    value: description
+                    name: `${startTime} - ${stopTime}: ${programme.title}${programme.episode_num ? ` (${programme.episode_num})` : ''}`.substring(0, 256),
+                    value: [badges, programme.sub_title, description].filter(Boolean).join('\n').substring(0, 1024)
                 });
             });
 
@@ -220,14 +283,14 @@ export class ProgrammeEmbedProcessor extends BaseEmbedProcessor<ProgrammeEntry>
     /**
      * Creates a channel list embed for programme selection
      * @param channelsToDisplay - Channels to include in the list
-     * @param liveChannel - Currently streaming channel, if any
+     * @param liveChannels - Channels currently streamed to a voice channel
      * @param pageOption - Current page number
      * @param totalPages - Total number of pages
      * @returns Discord embed with channel list
      */
     public static generateChannelListEmbed(
         channelsToDisplay: ChannelEntry[],
-        liveChannel: ChannelEntry | null,
+        liveChannels: ChannelEntry[],
         pageOption: number,
         totalPages: number
     ): EmbedBuilder {
@@ -243,7 +306,7 @@ export class ProgrammeEmbedProcessor extends BaseEmbedProcessor<ProgrammeEntry>
             const chunk = channelsToDisplay.slice(i, i + 10);
             const fieldValue = chunk.map(channel => {
                 const channelName = channel.tvg_name || 'Unknown';
-                const isLive = liveChannel?.tvg_name === channel.tvg_name;
+                const isLive = liveChannels.some(live => live.tvg_name === channel.tvg_name);
                 return `- ${channelName} ${isLive ? '🔴 LIVE' : ''}`;
             }).join('\n');
             embed.addFields({ name: `Channels ${start + i + 1}-${start + i + chunk.length}`, value: fieldValue });
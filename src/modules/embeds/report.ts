@@ -0,0 +1,114 @@
+import { EmbedBuilder } from 'discord.js';
+import { BaseEmbedProcessor } from './base';
+import type { EmbedOptions, EmbedResult } from './types';
+import type { IngestReport, IngestStatus } from '../../interfaces/iptv';
+
+/**
+ * Processor for creating embeds from the ingest report of the last refresh
+ */
+export class IngestReportEmbedProcessor extends BaseEmbedProcessor<IngestReport> {
+    /**
+     * Validates that the data is an ingest report with at least one section
+     * @param data - Data to validate
+     * @returns Type guard indicating if the data is a valid ingest report
+     */
+    protected validateData(data: unknown): data is IngestReport {
+        const report = data as IngestReport;
+        return typeof report === 'object' && report !== null &&
+            [report.channels, report.programmes, report.coverage].some(section => typeof section === 'object' && section !== null);
+    }
+
+    /**
+     * Generates a Discord embed from an ingest report
+     * @param report - The ingest report
+     * @param options - Customization options for the embed
+     * @returns Generated embed result
+     */
+    protected generateEmbed(report: IngestReport, options: EmbedOptions): EmbedResult {
+        const { title, color = '#0099ff' } = options;
+
+        const embed = new EmbedBuilder()
+            .setTitle(title || '📊 Ingest Report')
+            .setColor(color as any)
+            .setTimestamp();
+
+        if (report.channels) {
+            const channels = report.channels;
+            const lines = [
+                `${IngestReportEmbedProcessor.formatStatus(channels.status)} • ${channels.total} channels • ${this.formatTime(channels.finished_at)}`,
+                `Duplicates merged: ${channels.duplicates}${channels.duplicate_names.length > 0 ? ` (${channels.duplicate_names.slice(0, 5).join(', ')})` : ''}`,
+                `Without tvg-id: ${channels.without_tvg_id}`,
+            ];
+            embed.addFields({ name: 'Channels', value: lines.join('\n').substring(0, 1024) });
+
+            const sources = channels.sources.map(source => {
+                const skipped = source.statistics?.skipped
+                    ? `, ${source.statistics.skipped} skipped (${Object.entries(source.statistics.reasons).map(([reason, count]) => `${reason}: ${count}`).join(', ')})`
+                    : '';
+                return `- **${source.name}**: ${source.status}, ${source.channels} channels${skipped}`;
+            });
+            if (sources.length > 0) {
+                embed.addFields({ name: 'Sources', value: sources.join('\n').substring(0, 1024) });
+            }
+        }
+
+        if (report.programmes) {
+            const programmes = report.programmes;
+            const lines = [
+                `${IngestReportEmbedProcessor.formatStatus(programmes.status)} • ${programmes.total} programmes • ${this.formatTime(programmes.finished_at)}`,
+                `Guide channels: ${programmes.epg_channels}`,
+                `Failed to parse: ${programmes.failed}`,
+            ];
+            if (programmes.first_start && programmes.last_start) {
+                lines.push(`Covers ${this.formatTime(programmes.first_start)} to ${this.formatTime(programmes.last_start)}`);
+            }
+            embed.addFields({ name: 'Programmes', value: lines.join('\n').substring(0, 1024) });
+
+            if (programmes.failures.length > 0) {
+                embed.addFields({
+                    name: 'Parse errors',
+                    value: programmes.failures.slice(0, 5).map(failure => `- ${failure}`).join('\n').substring(0, 1024)
+                });
+            }
+        }
+
+        if (report.coverage) {
+            const coverage = report.coverage;
+            const covered = coverage.channels - coverage.without_programmes;
+            const percentage = coverage.channels > 0 ? Math.round(covered / coverage.channels * 100) : 0;
+            const missing = coverage.without_programmes_names.length > 0
+                ? `\nWithout programmes: ${coverage.without_programmes_names.slice(0, 10).join(', ')}${coverage.without_programmes > 10 ? ', …' : ''}`
+                : '';
+            embed.addFields({
+                name: 'Guide coverage',
+                value: `${covered} of ${coverage.channels} channels (${percentage}%) have programmes${missing}`.substring(0, 1024)
+            });
+        }
+
+        return { embed };
+    }
+
+    /**
+     * Formats the status of a refresh with an icon
+     * @param status - Outcome of the refresh
+     * @returns Status label
+     */
+    public static formatStatus(status: IngestStatus): string {
+        const icons: Record<IngestStatus, string> = {
+            updated: '✅ Updated',
+            unchanged: '⏸️ Unchanged',
+            refused: '⚠️ Refused',
+            failed: '❌ Failed',
+        };
+        return icons[status];
+    }
+
+    /**
+     * Formats an ISO time as a Discord timestamp shown in the reader's time zone
+     * @param time - ISO time
+     * @returns Discord timestamp markup
+     */
+    private formatTime(time: string): string {
+        return `<t:${Math.floor(Date.parse(time) / 1000)}:f>`;
+    }
+}
@@ -0,0 +1,106 @@
+import { describe, expect, test } from 'bun:test';
+import { buildCatchupUrl, fillTemplate, getCatchupDays, getCatchupRetentionDays, isReplayable } from './catchup';
+import type { ChannelEntry, ProgrammeEntry } from '../../interfaces/iptv';
+
+const START = 1767261600; // 2026-01-01T10:00:00Z
+const END = START + 90 * 60;
+const NOW = START + 24 * 60 * 60;
+
+const programme: ProgrammeEntry = {
+    start: '2026-01-01T10:00:00.000Z',
+    stop: '2026-01-01T11:30:00.000Z',
+    start_timestamp: START,
+    stop_timestamp: END,
+    channel: 'one.uk',
+    title: 'Match',
+    description: '',
+    category: '',
+    created_at: '',
+};
+
+function createChannel(overrides: Partial<ChannelEntry> = {}): ChannelEntry {
+    return { xui_id: 1, tvg_name: 'One', url: 'http://server/live/user/pass/123.ts', ...overrides };
+}
+
+describe('fillTemplate', () => {
+    test('fills timestamps, durations and offsets', () => {
+        expect(fillTemplate('?utc={utc}&end=${end}&lutc={lutc}&now=${now}', START, END, NOW, 'UTC'))
+            .toBe(`?utc=${START}&end=${END}&lutc=${NOW}&now=${NOW}`);
+        expect(fillTemplate('{duration}/{duration:60}/{offset:1}/{offset:3600}', START, END, NOW, 'UTC'))
+            .toBe(`5400/90/86400/24`);
+    });
+
+    test('formats date parts in the given time zone', () => {
+        expect(fillTemplate('{Y}-{m}-{d}:{H}-{M}-{S}', START, END, NOW, 'UTC')).toBe('2026-01-01:10-00-00');
+        expect(fillTemplate('{Y}-{m}-{d}:{H}-{M}', START, END, NOW, 'Europe/Ljubljana')).toBe('2026-01-01:11-00');
+        expect(fillTemplate('{utc:Y-m-d H:M:S}', START, END, NOW, 'America/New_York')).toBe('2026-01-01 05:00:00');
+        expect(fillTemplate('{utcend:YmdHMS}', START, END, NOW, 'UTC')).toBe('20260101113000');
+    });
+
+    test('leaves unknown placeholders in place', () => {
+        expect(fillTemplate('{utc}/{unknown}/${other:5}', START, END, NOW, 'UTC')).toBe(`${START}/{unknown}/\${other:5}`);
+    });
+});
+
+describe('buildCatchupUrl', () => {
+    test('xc builds Xtream Codes timeshift URLs', () => {
+        const channel = createChannel({ catchup: 'xc' });
+
+        expect(buildCatchupUrl(channel, programme, NOW)).toBe('http://server/timeshift/user/pass/90/2026-01-01:10-00/123.ts');
+        expect(buildCatchupUrl(createChannel({ catchup: 'xc', url: 'http://server/user/pass/123' }), programme, NOW))
+            .toBe('http://server/timeshift/user/pass/90/2026-01-01:10-00/123.ts');
+        expect(buildCatchupUrl(createChannel({ catchup: 'xc', url: 'http://server/stream.m3u8' }), programme, NOW)).toBeNull();
+    });
+
+    test('flussonic builds HLS and MPEG-TS archive URLs', () => {
+        expect(buildCatchupUrl(createChannel({ catchup: 'flussonic', url: 'http://server/channel/index.m3u8?token=abc' }), programme, NOW))
+            .toBe(`http://server/channel/index-${START}-5400.m3u8?token=abc`);
+        expect(buildCatchupUrl(createChannel({ catchup: 'flussonic', url: 'http://server/channel/mono.m3u8' }), programme, NOW))
+            .toBe(`http://server/channel/mono-${START}-5400.m3u8`);
+        expect(buildCatchupUrl(createChannel({ catchup: 'flussonic', url: 'http://server/channel/mpegts' }), programme, NOW))
+            .toBe(`http://server/channel/timeshift_abs-${START}.ts`);
+        expect(buildCatchupUrl(createChannel({ catchup: 'flussonic', url: 'http://server/stream.ts' }), programme, NOW)).toBeNull();
+    });
+
+    test('shift adds the start and current time to the stream URL', () => {
+        expect(buildCatchupUrl(createChannel({ catchup: 'shift', url: 'http://server/1.ts' }), programme, NOW))
+            .toBe(`http://server/1.ts?utc=${START}&lutc=${NOW}`);
+        expect(buildCatchupUrl(createChannel({ catchup: 'shift', url: 'http://server/1.ts?token=abc' }), programme, NOW))
+            .toBe(`http://server/1.ts?token=abc&utc=${START}&lutc=${NOW}`);
+    });
+
+    test('default and append use the catch-up source of the channel', () => {
+        expect(buildCatchupUrl(createChannel({ catchup: 'default', catchup_source: 'http://archive/1?start={utc}&d={duration:60}' }), programme, NOW))
+            .toBe(`http://archive/1?start=${START}&d=90`);
+        expect(buildCatchupUrl(createChannel({ catchup: 'append', url: 'http://server/1.ts', catchup_source: '?start=${start}' }), programme, NOW))
+            .toBe(`http://server/1.ts?start=${START}`);
+        expect(buildCatchupUrl(createChannel({ catchup: 'append', url: 'http://server/1.ts' }), programme, NOW)).toBeNull();
+    });
+
+    test('channels without catch-up have no URL', () => {
+        expect(buildCatchupUrl(createChannel(), programme, NOW)).toBeNull();
+    });
+});
+
+describe('catch-up windows', () => {
+    test('getCatchupDays uses the channel window, then CATCHUP_DAYS', () => {
+        expect(getCatchupDays(createChannel({ catchup: 'xc', catchup_days: 3 }))).toBe(3);
+        expect(getCatchupDays(createChannel({ catchup: 'xc' }))).toBe(7);
+        expect(getCatchupDays(createChannel({ catchup_days: 3 }))).toBe(0);
+    });
+
+    test('getCatchupRetentionDays keeps the longest window', () => {
+        expect(getCatchupRetentionDays([createChannel({ catchup: 'xc', catchup_days: 14 }), createChannel({ catchup: 'xc', catchup_days: 3 })])).toBe(14);
+        expect(getCatchupRetentionDays([createChannel({ catchup: 'xc', catchup_days: 3 })])).toBe(7);
+        expect(getCatchupRetentionDays([])).toBe(7);
+    });
+
+    test('isReplayable accepts programmes that started within the window', () => {
+        const channel = createChannel({ catchup: 'xc', catchup_days: 2 });
+
+        expect(isReplayable(channel, programme, NOW)).toBe(true);
+        expect(isReplayable(channel, programme, START + 2 * 24 * 60 * 60 + 1)).toBe(false);
+        expect(isReplayable(channel, programme, START)).toBe(false);
+        expect(isReplayable(createChannel(), programme, NOW)).toBe(false);
+    });
+});
@@ -0,0 +1,183 @@
+import { config } from '../../utils/config';
+import type { ChannelEntry, ProgrammeEntry } from '../../interfaces/iptv';
+
+/**
+ * Matches placeholders like {utc}, ${start}, {duration:60} or {utc:Y-m-d H:M:S}
+ */
+const PLACEHOLDER_PATTERN = /\$?\{([a-z]+)(?::([^}]*))?\}/gi;
+
+/**
+ * Returns how many days past programmes of a channel can be replayed.
+ *
+ * @param {ChannelEntry} channel - Channel to check
+ * @returns {number} - Catch-up window in days, 0 if the channel has no catch-up
+ */
+export function getCatchupDays(channel: ChannelEntry): number {
+    if (!channel.catchup) {
+        return 0;
+    }
+    return channel.catchup_days || config.CATCHUP_DAYS;
+}
+
+/**
+ * Returns how many days past programmes have to be kept, so every channel can replay its whole catch-up window
+ *
+ * @param {ChannelEntry[]} channels - Playlist channels
+ * @returns {number} - Largest catch-up window in days, at least CATCHUP_DAYS
+ */
+export function getCatchupRetentionDays(channels: ChannelEntry[]): number {
+    return channels.reduce((days, channel) => Math.max(days, getCatchupDays(channel)), config.CATCHUP_DAYS);
+}
+
+/**
+ * Checks whether a programme has aired and is still within the catch-up window of its channel.
+ *
+ * @param {ChannelEntry} channel - Channel the programme aired on
+ * @param {ProgrammeEntry} programme - Programme to check
+ * @param {number} now - Current time in seconds
+ * @returns {boolean} - True if the programme can be replayed
+ */
+export function isReplayable(channel: ChannelEntry, programme: ProgrammeEntry, now = Math.floor(Date.now() / 1000)): boolean {
+    const days = getCatchupDays(channel);
+    return days > 0 &&
+        programme.start_timestamp < now &&
+        programme.start_timestamp >= now - days * 24 * 60 * 60;
+}
+
+/**
+ * Builds the URL that plays a past programme of a channel.
+ *
+ * @param {ChannelEntry} channel - Channel the programme aired on
+ * @param {ProgrammeEntry} programme - Programme to play
+ * @param {number} now - Current time in seconds
+ * @returns {string | null} - Catch-up URL, or null if the channel has no catch-up or its URL does not fit the template
+ */
+export function buildCatchupUrl(channel: ChannelEntry, programme: ProgrammeEntry, now = Math.floor(Date.now() / 1000)): string | null {
+    const start = programme.start_timestamp;
+    const end = programme.stop_timestamp;
+    let template: string | null;
+
+    switch (channel.catchup) {
+        case 'default':
+            template = channel.catchup_source || channel.url;
+            break;
+        case 'append':
+            template = channel.catchup_source ? channel.url + channel.catchup_source : null;
+            break;
+        case 'shift':
+            template = `${channel.url}${channel.url.includes('?') ? '&' : '?'}utc={utc}&lutc={lutc}`;
+            break;
+        case 'flussonic':
+            template = flussonicTemplate(channel.url);
+            break;
+        case 'xc':
+            template = xtreamTemplate(channel.url);
+            break;
+        default:
+            template = null;
+    }
+
+    return template ? fillTemplate(template, start, end, now) : null;
+}
+
+/**
+ * Builds the catch-up template of a Flussonic stream URL.
+ * HLS URLs like ".../channel/index.m3u8" become ".../channel/index-{start}-{duration}.m3u8",
+ * MPEG-TS URLs like ".../channel/mpegts" become ".../channel/timeshift_abs-{start}.ts".
+ *
+ * @param {string} url - Live stream URL
+ * @returns {string | null} - URL template or null if the URL is not a Flussonic URL
+ */
+function flussonicTemplate(url: string): string | null {
+    const match = url.match(/^(https?:\/\/[^/]+\/.+)\/([^/?]*?)(mpegts|\.m3u8)(\?.*)?$/i);
+    if (!match) {
+        return null;
+    }
+
+    const [, base, fileName, kind, query = ''] = match;
+    if (kind!.toLowerCase() === 'mpegts') {
+        return `${base}/timeshift_abs-{utc}.ts${query}`;
+    }
+    return `${base}/${fileName || 'index'}-{utc}-{duration}.m3u8${query}`;
+}
+
+/**
+ * Builds the catch-up template of an Xtream Codes live URL.
+ * ".../live/user/pass/123.ts" becomes ".../timeshift/user/pass/{duration:60}/{Y}-{m}-{d}:{H}-{M}/123.ts".
+ * The server reads the start time in its own time zone, so the date parts are filled in CATCHUP_TIMEZONE.
+ *
+ * @param {string} url - Live stream URL
+ * @returns {string | null} - URL template or null if the URL is not an Xtream Codes URL
+ */
+function xtreamTemplate(url: string): string | null {
+    const match = url.match(/^(https?:\/\/[^/]+)\/(?:live\/)?([^/]+)\/([^/]+)\/(\d+)(\.[a-z0-9]+)?$/i);
+    if (!match) {
+        return null;
+    }
+
+    const [, base, username, password, streamId, extension = '.ts'] = match;
+    return `${base}/timeshift/${username}/${password}/{duration:60}/{Y}-{m}-{d}:{H}-{M}/${streamId}${extension}`;
+}
+
+/**
+ * Replaces the catch-up placeholders of a URL template.
+ * Times are Unix timestamps unless a format like {utc:Y-m-d H:M:S} is given; date parts are in the given time zone.
+ *
+ * @param {string} template - URL template
+ * @param {number} start - Programme start in seconds
+ * @param {number} end - Programme end in seconds
+ * @param {number} now - Current time in seconds
+ * @param {string} timeZone - Time zone of the date parts, CATCHUP_TIMEZONE by default
+ * @returns {string} - URL with all known placeholders replaced
+ */
+export function fillTemplate(template: string, start: number, end: number, now: number, timeZone = config.CATCHUP_TIMEZONE): string {
+    return template.replace(PLACEHOLDER_PATTERN, (placeholder, name: string, argument: string | undefined) => {
+        const times: Record<string, number> = {
+            utc: start, start, timestamp: now,
+            utcend: end, end,
+            lutc: now, now,
+        };
+        const divisor = Math.max(parseInt(argument || '1') || 1, 1);
+
+        if (name in times) {
+            return argument ? formatTime(times[name]!, argument, timeZone) : String(times[name]);
+        }
+        if (name === 'duration') {
+            return String(Math.floor((end - start) / divisor));
+        }
+        if (name === 'offset') {
+            return String(Math.floor((now - start) / divisor));
+        }
+        if (/^[YmdHMS]$/.test(name)) {
+            return formatTime(start, name, timeZone);
+        }
+        return placeholder;
+    });
+}
+
+/**
+ * Formats a timestamp with Y, m, d, H, M and S as year, month, day, hour, minute and second
+ *
+ * @param {number} timestamp - Time in seconds
+ * @param {string} format - Format such as "Y-m-d H:M:S"
+ * @param {string} timeZone - Time zone of the formatted time
+ * @returns {string} - Formatted time
+ */
+function formatTime(timestamp: number, format: string, timeZone: string): string {
+    const formatter = new Intl.DateTimeFormat('en-US', {
+        timeZone,
+        hourCycle: 'h23',
+        year: 'numeric', month: '2-digit', day: '2-digit',
+        hour: '2-digit', minute: '2-digit', second: '2-digit',
+    });
+    const values = Object.fromEntries(formatter.formatToParts(new Date(timestamp * 1000)).map(part => [part.type, part.value]));
+    const parts: Record<string, string> = {
+        Y: values.year!,
+        m: values.month!,
+        d: values.day!,
+        H: values.hour!,
+        M: values.minute!,
+        S: values.second!,
+    };
+    return format.replace(/[YmdHMS]/g, part => parts[part]!);
+}
@@ -0,0 +1,72 @@
+import { describe, expect, test } from 'bun:test';
+import { gzipSync } from 'zlib';
+import { zipSync } from 'fflate';
+import { decompressStream, detectCompression } from './decompression';
+
+// "hello xz" compressed with xz
+const XZ_CONTENT = Buffer.from('/Td6WFoAAATm1rRGBMAMCCEBFgAAAAAAAAAAAKx3qqQBAAdoZWxsbyB4egCGj5tLSQjgpAABKAizkwBzH7bzfQEAAAAABFla', 'base64');
+
+/**
+ * Splits content into chunks of a fixed size, like a download arriving in pieces
+ */
+async function* chunked(content: Buffer, size = 3): AsyncGenerator<Buffer> {
+    for (let offset = 0; offset < content.length; offset += size) {
+        yield content.subarray(offset, offset + size);
+    }
+}
+
+async function read(source: AsyncIterable<Buffer>): Promise<string> {
+    const chunks: Buffer[] = [];
+    for await (const chunk of source) {
+        chunks.push(chunk);
+    }
+    return Buffer.concat(chunks).toString('utf8');
+}
+
+describe('detectCompression', () => {
+    test('detects gzip, xz and zip by their magic bytes', () => {
+        expect(detectCompression(gzipSync('<tv></tv>'))).toBe('gzip');
+        expect(detectCompression(XZ_CONTENT)).toBe('xz');
+        expect(detectCompression(Buffer.from(zipSync({ 'guide.xml': Buffer.from('<tv></tv>') })))).toBe('zip');
+    });
+
+    test('treats other content as uncompressed', () => {
+        expect(detectCompression(Buffer.from('<?xml version="1.0"?><tv></tv>'))).toBe('none');
+        expect(detectCompression(Buffer.from('#EXTM3U\n'))).toBe('none');
+        expect(detectCompression(Buffer.alloc(0))).toBe('none');
+    });
+
+    test('needs the whole magic number', () => {
+        expect(detectCompression(Buffer.from([0x1f]))).toBe('none');
+        expect(detectCompression(Buffer.from([0xfd, 0x37, 0x7a, 0x58, 0x5a]))).toBe('none');
+        expect(detectCompression(Buffer.from('PK\u0005\u0006'))).toBe('none');
+    });
+});
+
+describe('decompressStream', () => {
+    test('decompresses gzip and xz content arriving in small chunks', async () => {
+        expect(await read(decompressStream(chunked(gzipSync('<tv>gzip</tv>'))))).toBe('<tv>gzip</tv>');
+        expect(await read(decompressStream(chunked(XZ_CONTENT)))).toBe('hello xz');
+    });
+
+    test('extracts the guide or playlist from zip archives', async () => {
+        const archive = Buffer.from(zipSync({
+            'readme.txt': Buffer.from('A long readme that is larger than the guide itself'),
+            'folder/': new Uint8Array(0),
+            'guide.xml': Buffer.from('<tv></tv>'),
+        }));
+
+        expect(await read(decompressStream(chunked(archive, 16)))).toBe('<tv></tv>');
+    });
+
+    test('passes uncompressed content through', async () => {
+        expect(await read(decompressStream(chunked(Buffer.from('#EXTM3U\n#EXTINF:-1,One\nhttp://one'))))).toBe('#EXTM3U\n#EXTINF:-1,One\nhttp://one');
+        expect(await read(decompressStream(chunked(Buffer.alloc(0))))).toBe('');
+    });
+
+    test('fails on zip archives without files', async () => {
+        const archive = Buffer.from(zipSync({ 'folder/': new Uint8Array(0) }));
+
+        await expect(read(decompressStream(chunked(archive)))).rejects.toThrow('Zip archive is empty');
+    });
+});
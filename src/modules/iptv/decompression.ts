@@ -0,0 +1,104 @@
+import { Readable, pipeline } from 'stream';
+import { createGunzip } from 'zlib';
+import { unzipSync } from 'fflate';
+import { XzReadableStream } from 'xz-decompress';
+import { getLogger } from '../../utils/logger';
+
+const logger = getLogger();
+
+/**
+ * Compression formats supported for playlist and guide downloads
+ */
+export type CompressionType = 'gzip' | 'xz' | 'zip' | 'none';
+
+const GZIP_MAGIC = [0x1f, 0x8b];
+const XZ_MAGIC = [0xfd, 0x37, 0x7a, 0x58, 0x5a, 0x00];
+const ZIP_MAGIC = [0x50, 0x4b, 0x03, 0x04];
+
+/**
+ * Detects the compression of downloaded content from its magic bytes.
+ *
+ * @param {Buffer} content - Downloaded content, at least its first few bytes
+ * @returns {CompressionType} - Detected compression format
+ */
+export function detectCompression(content: Buffer): CompressionType {
+    const startsWith = (magic: number[]) => magic.every((byte, index) => content[index] === byte);
+
+    if (startsWith(GZIP_MAGIC)) return 'gzip';
+    if (startsWith(XZ_MAGIC)) return 'xz';
+    if (startsWith(ZIP_MAGIC)) return 'zip';
+    return 'none';
+}
+
+/**
+ * Decompresses content while it is read, so large guides are never held in memory as a whole.
+ * Only magic bytes are used to detect the compression: HTTP clients already decode Content-Encoding,
+ * and content that merely has a compressed extension is not compressed. Zip archives are buffered,
+ * since the file to extract is only known from the directory at the end of the archive.
+ *
+ * @param {AsyncIterable<Buffer>} source - Content as it is downloaded or read
+ * @returns {AsyncGenerator<Buffer>} - Decompressed content
+ */
+export async function* decompressStream(source: AsyncIterable<Buffer>): AsyncGenerator<Buffer> {
+    const iterator = source[Symbol.asyncIterator]();
+    const chunks: Buffer[] = [];
+    let headLength = 0;
+    while (headLength < XZ_MAGIC.length) {
+        const { value, done } = await iterator.next();
+        if (done) {
+            break;
+        }
+        chunks.push(value);
+        headLength += value.length;
+    }
+
+    const content = (async function* () {
+        yield* chunks;
+        for (let result = await iterator.next(); !result.done; result = await iterator.next()) {
+            yield result.value;
+        }
+    })();
+
+    const compression = detectCompression(Buffer.concat(chunks));
+    if (compression !== 'none') {
+        logger.info(`Decompressing ${compression} content`);
+    }
+
+    if (compression === 'gzip') {
+        yield* pipeline(Readable.from(content), createGunzip(), () => undefined);
+    } else if (compression === 'xz') {
+        for await (const chunk of new XzReadableStream(Readable.toWeb(Readable.from(content)) as ReadableStream<Uint8Array>)) {
+            yield Buffer.from(chunk);
+        }
+    } else if (compression === 'zip') {
+        const archive: Buffer[] = [];
+        for await (const chunk of content) {
+            archive.push(chunk);
+        }
+        yield extractZip(Buffer.concat(archive));
+    } else {
+        yield* content;
+    }
+}
+
+/**
+ * Extracts the playlist or guide from a zip archive.
+ * Prefers the largest .xml or .m3u file, falling back to the largest file in the archive.
+ *
+ * @param {Buffer} content - Zip archive
+ * @returns {Buffer} - Content of the extracted file
+ * @throws {Error} - If the archive contains no files
+ */
+function extractZip(content: Buffer): Buffer {
+    const files = Object.entries(unzipSync(content))
+        .filter(([name]) => !name.endsWith('/'))
+        .sort(([, a], [, b]) => b.length - a.length);
+
+    const preferred = files.find(([name]) => /\.(xml|m3u8?)$/i.test(name)) || files[0];
+    if (!preferred) {
+        throw new Error('Zip archive is empty');
+    }
+
+    logger.debug(`Extracting ${preferred[0]} from zip archive`);
+    return Buffer.from(preferred[1]);
+}
@@ -1,43 +1,161 @@
 import axios from 'axios';
+import { createHash } from 'crypto';
+import { createReadStream } from 'fs';
+import { stat } from 'fs/promises';
+import { resolve } from 'path';
+import { fileURLToPath } from 'url';
 import { getLogger } from '../../utils/logger';
-import { cacheFile, getCachedFile } from '../../utils/cache';
+import { cacheStream, getCachedFile, getCachedFilePath } from '../../utils/cache';
+import { getDownloadValidators, setDownloadValidators } from '../database';
+import { decompressStream } from './decompression';
 
 const logger = getLogger();
 
 /**
- * Fetches data from a URL with retry logic.
+ * Result of a download
+ */
+export interface DownloadResult {
+    /** Downloaded content, null when the server answered 304 Not Modified */
+    content: Buffer | null;
+    /** False when the content is the same as in the previous download */
+    changed: boolean;
+}
+
+/**
+ * Result of a download that was streamed into the cache
+ */
+export interface CachedDownload {
+    /** Path of the cached file, null when the server answered 304 Not Modified */
+    path: string | null;
+    /** False when the content is the same as in the previous download */
+    changed: boolean;
+}
+
+/**
+ * Returns the path of a source that is read from disk
+ *
+ * @param {string} url - Source URL, file:// URL or local path
+ * @returns {string | null} - Absolute path, or null if the source is downloaded
+ */
+export function getLocalPath(url: string): string | null {
+    if (url.toLowerCase().startsWith('file://')) {
+        return fileURLToPath(url);
+    }
+    if (/^[a-z][a-z0-9+.-]*:\/\//i.test(url)) {
+        return null;
+    }
+    return resolve(url);
+}
+
+/**
+ * Query parameters that carry credentials, such as those of Xtream Codes API and playlist URLs
+ */
+const CREDENTIAL_PARAMS = ['username', 'password', 'token'];
+
+/**
+ * Hides the credentials in a URL, so it can be logged
+ *
+ * @param {string} url - URL that may contain credentials
+ * @returns {string} - URL with the password and credential query parameters replaced
+ */
+export function redactUrl(url: string): string {
+    let parsed: URL;
+    try {
+        parsed = new URL(url);
+    } catch {
+        return url;
+    }
+
+    if (parsed.password) {
+        parsed.password = '***';
+    }
+    for (const param of CREDENTIAL_PARAMS) {
+        if (parsed.searchParams.has(param)) {
+            parsed.searchParams.set(param, '***');
+        }
+    }
+    return parsed.toString();
+}
+
+/**
+ * Fetches data from a URL with retry logic and returns its content. Local paths and file:// URLs are read from disk instead.
+ * The content is cached first, see downloadToCache, so only use this for content that is parsed as a whole.
+ * 
+ * @param {string} url - URL, file:// URL or local path to fetch data from
+ * @param {string} cacheFileName - Name to use when caching the file, also the key of the stored validators
+ * @param {boolean} conditional - Whether to send a conditional request, only set this if the caller still has the previous content
+ * @returns {Promise<DownloadResult | null>} - Fetched content or null if failed
+ */
+export async function fetchWithRetry(url: string, cacheFileName: string, conditional = false): Promise<DownloadResult | null> {
+    const download = await downloadToCache(url, cacheFileName, conditional);
+    if (!download?.path) {
+        return download && { content: null, changed: download.changed };
+    }
+
+    const content = await getCachedFile(cacheFileName);
+    return content ? { content, changed: download.changed } : null;
+}
+
+/**
+ * Downloads a URL into the cache with retry logic. Local paths and file:// URLs are read from disk instead.
+ * The content is streamed to the cache file, so large guides are never held in memory as a whole.
+ * Compressed content (gzip, xz or zip) is decompressed and hashed while it is written.
+ * ETag, Last-Modified and the hash are stored under the cache file name to detect unchanged downloads.
+ * Cache file names are derived from the source name, so the stored validators never contain the credentials in a URL.
  * 
- * @param {string} url - URL to fetch data from
- * @param {string} cacheFileName - Name to use when caching the file
- * @returns {Promise<Buffer | null>} - Fetched content or null if failed
+ * @param {string} url - URL, file:// URL or local path to fetch data from
+ * @param {string} cacheFileName - Name to use when caching the file, also the key of the stored validators
+ * @param {boolean} conditional - Whether to send a conditional request, only set this if the caller still has the previous content
+ * @returns {Promise<CachedDownload | null>} - Path of the cached file or null if failed
  */
-export async function fetchWithRetry(url: string, cacheFileName: string): Promise<Buffer | null> {
+export async function downloadToCache(url: string, cacheFileName: string, conditional = false): Promise<CachedDownload | null> {
+    const localPath = getLocalPath(url);
+    if (localPath) {
+        return await readLocalFile(localPath, cacheFileName, conditional);
+    }
+
     const maxRetries = 3;
     let retryDelay = 5;
 
-    logger.info(`Downloading from ${url} to cache as ${cacheFileName}`);
+    logger.info(`Downloading from ${redactUrl(url)} to cache as ${cacheFileName}`);
+
+    const previous = await getDownloadValidators(cacheFileName);
+    const headers: Record<string, string> = {};
+    if (conditional && previous?.etag) {
+        headers['If-None-Match'] = previous.etag;
+    }
+    if (conditional && previous?.last_modified) {
+        headers['If-Modified-Since'] = previous.last_modified;
+    }
 
     for (let attempt = 1; attempt <= maxRetries; attempt++) {
         try {
             logger.info(`Download attempt ${attempt}/${maxRetries}...`);
             const response = await axios.get(url, {
                 timeout: 30000,
-                responseType: 'arraybuffer'  // Ensure binary data is handled correctly
+                headers,
+                responseType: 'stream',
+                validateStatus: status => (status >= 200 && status < 300) || status === 304
             });
 
-            if (response.data) {
-                const content = Buffer.from(response.data);
-                logger.info(`Downloaded ${content.length} bytes, caching as ${cacheFileName}`);
-                try {
-                    await cacheFile(cacheFileName, content);
-                    logger.debug(`Successfully cached file ${cacheFileName}`);
-                } catch (cacheError) {
-                    logger.error(`Error caching file: ${cacheError}`);
-                }
-                return content;
-            } else {
-                logger.warn('Downloaded content was empty');
+            if (response.status === 304 && previous) {
+                response.data.destroy();
+                logger.info(`Content of ${cacheFileName} not modified since last download`);
+                await setDownloadValidators(cacheFileName, { ...previous, checked_at: new Date().toISOString() });
+                return { path: null, changed: false };
             }
+
+            const { path, hash, size } = await cacheContent(cacheFileName, response.data);
+            const changed = previous?.hash !== hash;
+            await setDownloadValidators(cacheFileName, {
+                etag: response.headers['etag'] || undefined,
+                last_modified: response.headers['last-modified'] || undefined,
+                hash,
+                checked_at: new Date().toISOString()
+            });
+
+            logger.info(`Downloaded ${size} bytes${changed ? '' : ' (unchanged)'}, cached as ${cacheFileName}`);
+            return { path, changed };
         } catch (error) {
             if (axios.isAxiosError(error) && (error.code === 'ECONNABORTED' || (error.response?.status ?? 0) >= 500)) {
                 logger.warn(`Connection error on attempt ${attempt}: ${error.message}`);
@@ -47,13 +165,84 @@ export async function fetchWithRetry(url: string, cacheFileName: string): Promis
                     retryDelay *= 2;
                 } else {
                     logger.error('Maximum retries reached. Could not download content.');
-                    return await getCachedFile(cacheFileName);
+                    return await fromCache(cacheFileName);
                 }
             } else {
                 logger.error(`Request error: ${(error as any).message}`);
-                return await getCachedFile(cacheFileName);
+                return await fromCache(cacheFileName);
             }
         }
     }
     return null;
 }
+
+/**
+ * Reads a source from disk. The modification time takes the place of Last-Modified,
+ * so unchanged files are not read again for conditional requests.
+ *
+ * @param {string} path - Absolute path of the file
+ * @param {string} cacheFileName - Name to use when caching the file, also the key of the stored validators
+ * @param {boolean} conditional - Whether to skip reading the file if it was not modified
+ * @returns {Promise<CachedDownload | null>} - Path of the cached file or null if the file could not be read
+ */
+async function readLocalFile(path: string, cacheFileName: string, conditional: boolean): Promise<CachedDownload | null> {
+    logger.info(`Reading ${path} to cache as ${cacheFileName}`);
+
+    const previous = await getDownloadValidators(cacheFileName);
+    try {
+        const modified = (await stat(path)).mtime.toISOString();
+        if (conditional && previous?.last_modified === modified) {
+            logger.info(`${path} not modified since last read`);
+            await setDownloadValidators(cacheFileName, { ...previous, checked_at: new Date().toISOString() });
+            return { path: null, changed: false };
+        }
+
+        const { path: cachedPath, hash, size } = await cacheContent(cacheFileName, createReadStream(path));
+        const changed = previous?.hash !== hash;
+        await setDownloadValidators(cacheFileName, { last_modified: modified, hash, checked_at: new Date().toISOString() });
+
+        logger.info(`Read ${size} bytes${changed ? '' : ' (unchanged)'}, cached as ${cacheFileName}`);
+        return { path: cachedPath, changed };
+    } catch (error) {
+        logger.error(`Error reading ${path}: ${(error as Error).message}`);
+        return await fromCache(cacheFileName);
+    }
+}
+
+/**
+ * Decompresses content into the cache while hashing it
+ *
+ * @param {string} cacheFileName - Name to cache the content as
+ * @param {AsyncIterable<Buffer>} source - Downloaded or read content
+ * @returns {Promise<{ path: string; hash: string; size: number }>} - Cached file, SHA-256 and size of the decompressed content
+ * @throws {Error} - If the content is empty or cannot be read, decompressed or written
+ */
+async function cacheContent(cacheFileName: string, source: AsyncIterable<Buffer>): Promise<{ path: string; hash: string; size: number }> {
+    const hash = createHash('sha256');
+    let size = 0;
+
+    const path = await cacheStream(cacheFileName, (async function* () {
+        for await (const chunk of decompressStream(source)) {
+            hash.update(chunk);
+            size += chunk.length;
+            yield chunk;
+        }
+        // Thrown before the cached file is replaced
+        if (size === 0) {
+            throw new Error('Content is empty');
+        }
+    })());
+
+    return { path, hash: hash.digest('hex'), size };
+}
+
+/**
+ * Falls back to a previously cached copy of a download
+ * 
+ * @param {string} cacheFileName - Name the file was cached as
+ * @returns {Promise<CachedDownload | null>} - Cached file or null if not cached
+ */
+async function fromCache(cacheFileName: string): Promise<CachedDownload | null> {
+    const path = await getCachedFilePath(cacheFileName);
+    return path ? { path, changed: true } : null;
+}
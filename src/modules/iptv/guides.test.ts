@@ -0,0 +1,147 @@
+import { describe, expect, test } from 'bun:test';
+import { createGuideMerger } from './guides';
+import type { ChannelEntry, EpgChannelEntry, ProgrammeEntry } from '../../interfaces/iptv';
+
+const HOUR = 60 * 60;
+const BASE = 1767225600; // 2026-01-01T00:00:00Z
+
+function createProgramme(channel: string, startHour: number, stopHour: number, title = `${channel} ${startHour}-${stopHour}`): ProgrammeEntry {
+    const start = BASE + startHour * HOUR;
+    const stop = BASE + stopHour * HOUR;
+    return {
+        start: new Date(start * 1000).toISOString(),
+        stop: new Date(stop * 1000).toISOString(),
+        start_timestamp: start,
+        stop_timestamp: stop,
+        channel,
+        title,
+        description: '',
+        category: '',
+        created_at: '',
+    };
+}
+
+function createEpgChannel(id: string, ...displayNames: string[]): EpgChannelEntry {
+    return { id, display_names: displayNames, created_at: '' };
+}
+
+const titles = (programmes: ProgrammeEntry[]) => programmes.map(programme => programme.title);
+
+const playlist: ChannelEntry[] = [
+    { xui_id: 1, tvg_id: 'bbc1.uk', tvg_name: 'BBC One', url: 'http://streams/1' },
+    { xui_id: 2, tvg_id: 'zdf.de', tvg_name: 'ZDF', url: 'http://streams/2' },
+];
+
+describe('createGuideMerger', () => {
+    test('lower-priority sources only fill the gaps of the sources before them', () => {
+        const merger = createGuideMerger({ channels: playlist, overrides: {} });
+
+        merger.addChannel(createEpgChannel('bbc1.uk', 'BBC One'));
+        expect(titles(merger.filter([
+            createProgramme('bbc1.uk', 10, 12, 'News'),
+            createProgramme('bbc1.uk', 14, 15, 'Film'),
+        ]))).toEqual(['News', 'Film']);
+        merger.endSource();
+
+        merger.addChannel(createEpgChannel('bbc1.uk', 'BBC One'));
+        expect(titles(merger.filter([
+            createProgramme('bbc1.uk', 8, 10, 'Breakfast'),
+            createProgramme('bbc1.uk', 11, 13, 'Overlaps news'),
+            createProgramme('bbc1.uk', 12, 14, 'Fills the gap'),
+            createProgramme('bbc1.uk', 14, 16, 'Overlaps film'),
+            createProgramme('bbc1.uk', 16, 17, 'Late'),
+        ]))).toEqual(['Breakfast', 'Fills the gap', 'Late']);
+    });
+
+    test('programmes of the same source are not checked against each other', () => {
+        const merger = createGuideMerger({ channels: playlist, overrides: {} });
+
+        expect(titles(merger.filter([
+            createProgramme('bbc1.uk', 10, 12, 'First'),
+            createProgramme('bbc1.uk', 11, 13, 'Second'),
+        ]))).toEqual(['First', 'Second']);
+    });
+
+    test('coverage is kept per channel', () => {
+        const merger = createGuideMerger({ channels: playlist, overrides: {} });
+
+        merger.filter([createProgramme('bbc1.uk', 10, 12)]);
+        merger.endSource();
+
+        expect(merger.filter([createProgramme('zdf.de', 10, 12, 'ZDF')])).toHaveLength(1);
+    });
+
+    test('coverage of several sources adds up', () => {
+        const merger = createGuideMerger({ channels: playlist, overrides: {} });
+
+        merger.filter([createProgramme('bbc1.uk', 10, 12)]);
+        merger.endSource();
+        merger.filter([createProgramme('bbc1.uk', 12, 14)]);
+        merger.endSource();
+
+        expect(titles(merger.filter([
+            createProgramme('bbc1.uk', 13, 15, 'Overlaps the second source'),
+            createProgramme('bbc1.uk', 14, 15, 'After both'),
+        ]))).toEqual(['After both']);
+    });
+
+    test('programmes without a duration still cover their start', () => {
+        const merger = createGuideMerger({ channels: playlist, overrides: {} });
+
+        merger.filter([createProgramme('bbc1.uk', 10, 10, 'Marker')]);
+        merger.endSource();
+
+        expect(titles(merger.filter([
+            createProgramme('bbc1.uk', 9, 11, 'Spans the marker'),
+            createProgramme('bbc1.uk', 9, 10, 'Ends at the marker'),
+        ]))).toEqual(['Ends at the marker']);
+    });
+
+    test('guides publishing a channel under different IDs are merged through the playlist channel', () => {
+        const merger = createGuideMerger({ channels: playlist, overrides: {} });
+        const epgChannels = [createEpgChannel('bbc1.uk', 'BBC One HD'), createEpgChannel('BBCOne.gb', 'BBC One')];
+
+        merger.addChannel(epgChannels[0]!);
+        merger.filter([createProgramme('bbc1.uk', 10, 12, 'News')]);
+        merger.endSource();
+
+        merger.addChannel(epgChannels[1]!);
+        expect(titles(merger.filter([
+            createProgramme('BBCOne.gb', 10, 12, 'Same news'),
+            createProgramme('BBCOne.gb', 12, 13, 'Weather'),
+        ]))).toEqual(['Weather']);
+
+        // The kept programmes of the second guide move to the ID the playlist channel is mapped to
+        expect(merger.getRelinks(epgChannels)).toEqual(new Map([['BBCOne.gb', 'bbc1.uk']]));
+    });
+
+    test('manual mapping links guide channels to playlist channels', () => {
+        const merger = createGuideMerger({ channels: playlist, overrides: { ZDF: 'zdf-hd.de' } });
+
+        merger.addChannel(createEpgChannel('zdf-hd.de', 'Zweites'));
+        merger.filter([createProgramme('zdf-hd.de', 10, 12)]);
+        merger.endSource();
+
+        // Provider programmes come without channel definitions and use the tvg_id of their channel
+        expect(titles(merger.filter([
+            createProgramme('zdf.de', 11, 12, 'Overlaps the guide'),
+            createProgramme('zdf.de', 12, 13, 'After the guide'),
+        ]))).toEqual(['After the guide']);
+        expect(merger.getRelinks([createEpgChannel('zdf-hd.de', 'Zweites')])).toEqual(new Map([['zdf.de', 'zdf-hd.de']]));
+    });
+
+    test('channels without a playlist channel are merged by their XMLTV ID', () => {
+        const merger = createGuideMerger({ channels: playlist, overrides: {} });
+
+        merger.addChannel(createEpgChannel('radio.uk', 'Radio'));
+        merger.filter([createProgramme('radio.uk', 10, 12)]);
+        merger.endSource();
+
+        merger.addChannel(createEpgChannel('radio.uk', 'Radio'));
+        merger.addChannel(createEpgChannel('other-radio.uk', 'Radio'));
+        expect(titles(merger.filter([
+            createProgramme('radio.uk', 11, 12, 'Same ID'),
+            createProgramme('other-radio.uk', 11, 12, 'Other ID'),
+        ]))).toEqual(['Other ID']);
+    });
+});
@@ -0,0 +1,256 @@
+import { getLogger } from '../../utils/logger';
+import { getCachedFilePath } from '../../utils/cache';
+import { downloadToCache } from './downloaders';
+import { getEpgChannelId } from '../database';
+import { linkEpgChannels, matchChannels } from './mapping';
+import type { ChannelEntry, EpgChannelEntry, EpgSource, ProgrammeEntry } from '../../interfaces/iptv';
+
+const logger = getLogger();
+
+/**
+ * XMLTV guide downloaded into the cache
+ */
+export interface GuideFile {
+    source: EpgSource;
+    path: string;
+}
+
+/**
+ * Keeps track of the time each channel already has programmes for, so lower-priority guides only fill the gaps
+ */
+export interface GuideMerger {
+    /**
+     * Registers a channel definition of the current source, used to link its programmes to playlist channels
+     * @param channel - XMLTV channel definition
+     */
+    addChannel(channel: EpgChannelEntry): void;
+    /**
+     * Keeps the programmes of the current source that do not overlap programmes of higher-priority sources
+     * @param programmes - Programmes of the current source
+     * @returns Programmes that fill gaps
+     */
+    filter(programmes: ProgrammeEntry[]): ProgrammeEntry[];
+    /**
+     * Marks the current source as done, so its programmes take precedence over the next sources
+     */
+    endSource(): void;
+    /**
+     * Finds the XMLTV IDs of the kept programmes that belong to a playlist channel mapped to another ID,
+     * so the programmes filling its gaps are stored where the channel looks them up
+     * @param epgChannels - XMLTV channel definitions of all sources, as used for the final mapping
+     * @returns New XMLTV ID keyed by the ID the programmes were published under
+     */
+    getRelinks(epgChannels: EpgChannelEntry[]): Map<string, string>;
+}
+
+/**
+ * Playlist channels and manual mapping the guides are merged for
+ */
+export interface GuideMergerChannels {
+    channels: ChannelEntry[];
+    /** Manual XMLTV IDs keyed by channel name */
+    overrides: Record<string, string>;
+}
+
+type Interval = [start: number, stop: number];
+
+/**
+ * Returns the name a guide source is cached as
+ *
+ * @param {EpgSource} source - Guide source
+ * @returns {string} - Cache file name
+ */
+function guideCacheFileName(source: EpgSource): string {
+    return `xmltv-${source.name.replace(/[^\w-]/g, '_')}.xml`;
+}
+
+/**
+ * Downloads the XMLTV guides into the cache.
+ * If a guide changed, guides that reported no change are downloaded again, since all guides are merged together.
+ *
+ * @param {EpgSource[]} sources - Guide sources, sorted by priority
+ * @param {boolean} force - Whether to ignore cached guides
+ * @param {boolean} conditional - Whether the stored programmes can be kept if no guide changed
+ * @returns {Promise<GuideFile[] | null>} - Cached guides in priority order, or null if no guide changed
+ */
+export async function downloadGuideSources(sources: EpgSource[], force: boolean, conditional: boolean): Promise<GuideFile[] | null> {
+    const unchanged: EpgSource[] = [];
+    const files: GuideFile[] = [];
+
+    for (const source of sources) {
+        const cacheFileName = guideCacheFileName(source);
+        let path = force ? null : await getCachedFilePath(cacheFileName);
+
+        if (!path) {
+            logger.info(`Fetching XMLTV source "${source.name}"...`);
+            const download = await downloadToCache(source.url, cacheFileName, conditional);
+            if (download && !download.changed) {
+                unchanged.push(source);
+            }
+            path = download?.path || null;
+        }
+
+        if (path) {
+            files.push({ source, path });
+        } else if (!unchanged.includes(source)) {
+            logger.error(`Failed to fetch XMLTV source "${source.name}"`);
+        }
+    }
+
+    if (conditional && sources.length > 0 && unchanged.length === sources.length) {
+        return null;
+    }
+
+    for (const source of unchanged) {
+        if (files.some(file => file.source === source)) {
+            continue;
+        }
+        logger.info(`Fetching unchanged XMLTV source "${source.name}" again to merge it with the changed guides...`);
+        const download = await downloadToCache(source.url, guideCacheFileName(source));
+        if (download?.path) {
+            files.push({ source, path: download.path });
+        }
+    }
+
+    return files.sort((a, b) => a.source.priority - b.source.priority);
+}
+
+/**
+ * Creates a merger for guides that are added one source at a time, highest priority first.
+ * Each source is taken as-is where no higher-priority source has programmes for the channel.
+ * Programmes are merged per playlist channel, linked through the EPG mapping of each source,
+ * so guides that publish the same channel under different XMLTV IDs do not overlap.
+ *
+ * @param {GuideMergerChannels} playlist - Playlist channels and manual mapping
+ * @returns {GuideMerger} - Merger for the programmes of all sources
+ */
+export function createGuideMerger(playlist: GuideMergerChannels): GuideMerger {
+    const covered = new Map<string, Interval[]>();
+    let current = new Map<string, Interval[]>();
+    const byTvgId = new Map<string, string>();
+    for (const channel of playlist.channels) {
+        if (channel.tvg_id && !byTvgId.has(channel.tvg_id)) {
+            byTvgId.set(channel.tvg_id, channel.tvg_name || '');
+        }
+    }
+
+    let sourceChannels: EpgChannelEntry[] = [];
+    let sourceLinks: Map<string, string> | null = null;
+    /** Playlist channel of each XMLTV ID with kept programmes */
+    const links = new Map<string, string>();
+
+    const getKey = (epgId: string): string => {
+        // Channel definitions precede the programmes in XMLTV, so the links are built once per source
+        sourceLinks ||= linkEpgChannels(playlist.channels, sourceChannels, playlist.overrides);
+        // Provider programmes come without definitions and use the tvg_id of their channel
+        const name = sourceLinks.get(epgId) ?? byTvgId.get(epgId);
+        if (name === undefined) {
+            return `epg:${epgId}`;
+        }
+        if (!links.has(epgId)) {
+            links.set(epgId, name);
+        }
+        return `channel:${name}`;
+    };
+
+    return {
+        addChannel(channel: EpgChannelEntry) {
+            sourceChannels.push(channel);
+            sourceLinks = null;
+        },
+        filter(programmes: ProgrammeEntry[]): ProgrammeEntry[] {
+            return programmes.filter(programme => {
+                const key = getKey(programme.channel);
+                const interval: Interval = [programme.start_timestamp, Math.max(programme.stop_timestamp, programme.start_timestamp + 1)];
+                if (overlaps(covered.get(key), interval)) {
+                    return false;
+                }
+                const intervals = current.get(key);
+                if (intervals) {
+                    intervals.push(interval);
+                } else {
+                    current.set(key, [interval]);
+                }
+                return true;
+            });
+        },
+        endSource() {
+            for (const [key, intervals] of current) {
+                covered.set(key, mergeIntervals([...(covered.get(key) || []), ...intervals]));
+            }
+            current = new Map();
+            sourceChannels = [];
+            sourceLinks = null;
+        },
+        getRelinks(epgChannels: EpgChannelEntry[]): Map<string, string> {
+            const { mapped } = matchChannels(playlist.channels, epgChannels, playlist.overrides);
+            const mappedIds = new Map<string, string>();
+            const usedIds = new Set<string>();
+            for (const channel of mapped) {
+                const epgId = getEpgChannelId(channel);
+                if (epgId) {
+                    usedIds.add(epgId);
+                    if (!mappedIds.has(channel.tvg_name || '')) {
+                        mappedIds.set(channel.tvg_name || '', epgId);
+                    }
+                }
+            }
+
+            // IDs a playlist channel looks up keep their programmes
+            const relinks = new Map<string, string>();
+            for (const [epgId, name] of links) {
+                const target = mappedIds.get(name);
+                if (target && target !== epgId && !usedIds.has(epgId)) {
+                    relinks.set(epgId, target);
+                }
+            }
+            return relinks;
+        },
+    };
+}
+
+/**
+ * Checks whether an interval overlaps any of a list of sorted, disjoint intervals
+ *
+ * @param {Interval[] | undefined} intervals - Sorted, disjoint intervals
+ * @param {Interval} interval - Interval to check
+ * @returns {boolean} - True if the interval overlaps
+ */
+function overlaps(intervals: Interval[] | undefined, [start, stop]: Interval): boolean {
+    if (!intervals) {
+        return false;
+    }
+
+    // Find the first interval that ends after the start
+    let low = 0;
+    let high = intervals.length;
+    while (low < high) {
+        const middle = (low + high) >> 1;
+        if (intervals[middle]![1] <= start) {
+            low = middle + 1;
+        } else {
+            high = middle;
+        }
+    }
+    return low < intervals.length && intervals[low]![0] < stop;
+}
+
+/**
+ * Sorts intervals and joins the ones that overlap or touch
+ *
+ * @param {Interval[]} intervals - Intervals in any order
+ * @returns {Interval[]} - Sorted, disjoint intervals
+ */
+function mergeIntervals(intervals: Interval[]): Interval[] {
+    const sorted = intervals.sort((a, b) => a[0] - b[0]);
+    const merged: Interval[] = [];
+    for (const interval of sorted) {
+        const last = merged[merged.length - 1];
+        if (last && interval[0] <= last[1]) {
+            last[1] = Math.max(last[1], interval[1]);
+        } else {
+            merged.push([interval[0], interval[1]]);
+        }
+    }
+    return merged;
+}
@@ -0,0 +1,287 @@
+import { spawn } from 'child_process';
+import axios from 'axios';
+import { getLogger } from '../../utils/logger';
+import { config } from '../../utils/config';
+import { getChannelEntries, getChannelHealth, pruneChannelHealth, setChannelHealth } from '../database';
+import type { ChannelEntry, ChannelHealth } from '../../interfaces/iptv';
+
+const logger = getLogger();
+
+/**
+ * Bytes read from a stream before the HTTP check stops the download
+ */
+const HTTP_CHECK_BYTES = 64 * 1024;
+
+/**
+ * Video format found by a check
+ */
+interface StreamInfo {
+    resolution?: string;
+    codec?: string;
+}
+
+let ffprobeAvailable = true;
+let checking = false;
+
+/**
+ * Checks the next batch of channels, starting with the channels that were never checked or checked longest ago.
+ * Channels sharing a stream URL are checked once.
+ *
+ * @returns {Promise<number>} - Number of checked streams
+ */
+export async function runHealthChecks(): Promise<number> {
+    if (checking) {
+        logger.debug('Previous health checks are still running, skipping this round');
+        return 0;
+    }
+
+    checking = true;
+    try {
+        const channels = await getChannelEntries();
+        const health = await getChannelHealth();
+
+        const channelsByUrl = new Map<string, ChannelEntry>();
+        for (const channel of channels) {
+            if (!channelsByUrl.has(channel.url)) {
+                channelsByUrl.set(channel.url, channel);
+            }
+        }
+        const pruned = await pruneChannelHealth(new Set(channelsByUrl.keys()));
+        if (pruned > 0) {
+            logger.debug(`Removed health of ${pruned} streams that are no longer in the channel list`);
+        }
+
+        const batch = [...channelsByUrl.values()]
+            .sort((a, b) => (health[a.url]?.checked_at || '').localeCompare(health[b.url]?.checked_at || ''))
+            .slice(0, config.HEALTH_CHECK_BATCH);
+
+        // Checked one after another, so the provider never sees more than one extra connection
+        for (const channel of batch) {
+            const previous = health[channel.url];
+            const result = await checkChannelHealth(channel, previous);
+            await setChannelHealth(channel.url, result);
+
+            if (previous && previous.status !== result.status) {
+                logger.info(`Channel ${channel.tvg_name} is now ${result.status}${result.error ? `: ${result.error}` : ''}`);
+            } else {
+                logger.debug(`Channel ${channel.tvg_name} is ${result.status}${result.error ? `: ${result.error}` : ''}`);
+            }
+        }
+
+        return batch.length;
+    } finally {
+        checking = false;
+    }
+}
+
+/**
+ * Checks whether the stream of a channel plays, using ffprobe when it is installed and a plain HTTP request otherwise.
+ *
+ * @param {ChannelEntry} channel - Channel to check
+ * @param {ChannelHealth} previous - Result of the previous check, if any
+ * @returns {Promise<ChannelHealth>} - Result of the check
+ */
+export async function checkChannelHealth(channel: ChannelEntry, previous?: ChannelHealth): Promise<ChannelHealth> {
+    let method: ChannelHealth['method'] = ffprobeAvailable ? 'ffprobe' : 'http';
+    try {
+        let info: StreamInfo;
+        try {
+            info = method === 'ffprobe' ? await probeWithFfprobe(channel) : await probeWithHttp(channel);
+        } catch (error) {
+            if ((error as NodeJS.ErrnoException).code !== 'ENOENT') {
+                throw error;
+            }
+            logger.warn('ffprobe is not installed, checking channels over HTTP instead');
+            ffprobeAvailable = false;
+            method = 'http';
+            info = await probeWithHttp(channel);
+        }
+
+        return { status: 'online', checked_at: new Date().toISOString(), method, ...info, failures: 0 };
+    } catch (error) {
+        return {
+            status: 'offline',
+            checked_at: new Date().toISOString(),
+            method,
+            resolution: previous?.resolution,
+            codec: previous?.codec,
+            error: (error as Error).message,
+            failures: (previous?.failures || 0) + 1,
+        };
+    }
+}
+
+/**
+ * Reads the video format of a stream with ffprobe
+ *
+ * @param {ChannelEntry} channel - Channel to check
+ * @returns {Promise<StreamInfo>} - Resolution and codec of the first video stream, empty for radio channels
+ * @throws {Error} - If ffprobe cannot open the stream, with code ENOENT if ffprobe is not installed
+ */
+function probeWithFfprobe(channel: ChannelEntry): Promise<StreamInfo> {
+    const args = ['-v', 'error', '-print_format', 'json', '-show_streams', '-select_streams', 'v:0',
+        '-rw_timeout', String(config.HEALTH_CHECK_TIMEOUT * 1000000)];
+    const headers = Object.entries(channel.http_headers || {});
+    if (headers.length > 0) {
+        args.push('-headers', headers.map(([name, value]) => `${name}: ${value}\r\n`).join(''));
+    }
+    args.push(channel.url);
+
+    return new Promise((resolve, reject) => {
+        const ffprobe = spawn('ffprobe', args);
+        let stdout = '';
+        let stderr = '';
+        const timeout = setTimeout(() => ffprobe.kill('SIGKILL'), (config.HEALTH_CHECK_TIMEOUT + 5) * 1000);
+
+        ffprobe.stdout.on('data', chunk => stdout += chunk);
+        ffprobe.stderr.on('data', chunk => stderr += chunk);
+        ffprobe.on('error', error => {
+            clearTimeout(timeout);
+            reject(error);
+        });
+        ffprobe.on('close', code => {
+            clearTimeout(timeout);
+            if (code !== 0) {
+                const reason = stderr.trim().split('\n').pop() || (code === null ? 'timed out' : `exited with code ${code}`);
+                reject(new Error(reason));
+                return;
+            }
+
+            try {
+                const stream = JSON.parse(stdout).streams?.[0];
+                resolve(stream ? {
+                    resolution: stream.width && stream.height ? `${stream.width}x${stream.height}` : undefined,
+                    codec: stream.codec_name,
+                } : {});
+            } catch (error) {
+                reject(new Error(`Invalid ffprobe output: ${error}`));
+            }
+        });
+    });
+}
+
+/**
+ * Requests a stream over HTTP and reads its first bytes.
+ * HLS playlists are checked for variants or segments, and the format of the best variant is taken from the playlist.
+ *
+ * @param {ChannelEntry} channel - Channel to check
+ * @returns {Promise<StreamInfo>} - Format announced in the HLS playlist, empty for other streams
+ * @throws {Error} - If the request fails or the stream is empty
+ */
+async function probeWithHttp(channel: ChannelEntry): Promise<StreamInfo> {
+    const response = await axios.get(channel.url, {
+        timeout: config.HEALTH_CHECK_TIMEOUT * 1000,
+        headers: channel.http_headers,
+        responseType: 'stream',
+        signal: AbortSignal.timeout(config.HEALTH_CHECK_TIMEOUT * 1000),
+    });
+
+    const chunks: Buffer[] = [];
+    let length = 0;
+    try {
+        for await (const chunk of response.data) {
+            chunks.push(chunk);
+            length += chunk.length;
+            if (length >= HTTP_CHECK_BYTES) {
+                break;
+            }
+        }
+    } finally {
+        response.data.destroy();
+    }
+
+    if (length === 0) {
+        throw new Error('Empty response');
+    }
+
+    const content = Buffer.concat(chunks).toString('utf8');
+    if (!content.trimStart().startsWith('#EXTM3U')) {
+        return {};
+    }
+    return parseHlsPlaylist(content);
+}
+
+/**
+ * Reads the format of the variant with the highest bandwidth from an HLS playlist
+ *
+ * @param {string} content - HLS playlist
+ * @returns {StreamInfo} - Resolution and codec of the best variant, empty for media playlists
+ * @throws {Error} - If the playlist has neither variants nor segments
+ */
+function parseHlsPlaylist(content: string): StreamInfo {
+    const variants = content.split('\n')
+        .filter(line => line.startsWith('#EXT-X-STREAM-INF:'))
+        .map(line => ({
+            bandwidth: parseInt(line.match(/[:,]BANDWIDTH=(\d+)/)?.[1] || '0'),
+            resolution: line.match(/RESOLUTION=(\d+x\d+)/)?.[1],
+            codecs: line.match(/CODECS="([^"]*)"/)?.[1],
+        }))
+        .sort((a, b) => b.bandwidth - a.bandwidth);
+
+    const best = variants[0];
+    if (!best) {
+        if (!content.includes('#EXTINF')) {
+            throw new Error('HLS playlist without variants or segments');
+        }
+        return {};
+    }
+
+    const videoCodec = best.codecs?.split(',').map(codec => codec.trim()).find(codec => !codec.startsWith('mp4a'));
+    return { resolution: best.resolution, codec: videoCodec ? normalizeCodec(videoCodec) : undefined };
+}
+
+/**
+ * Converts an RFC 6381 codec string to the name ffprobe uses
+ *
+ * @param {string} codec - Codec string such as "avc1.64001f"
+ * @returns {string} - Codec name such as "h264"
+ */
+function normalizeCodec(codec: string): string {
+    const family = codec.split('.')[0]!.toLowerCase();
+    const names: Record<string, string> = { avc1: 'h264', avc3: 'h264', hvc1: 'hevc', hev1: 'hevc', av01: 'av1', vp09: 'vp9' };
+    return names[family] || family;
+}
+
+/**
+ * Returns the icon for the health of a channel
+ *
+ * @param {ChannelHealth} health - Result of the last check
+ * @returns {string} - Green for online, red for offline, white if the channel was not checked yet
+ */
+export function getHealthIcon(health?: ChannelHealth): string {
+    if (!health) {
+        return '⚪';
+    }
+    return health.status === 'online' ? '🟢' : '🔴';
+}
+
+/**
+ * Describes the health of a channel, e.g. "🟢 Online • 1920x1080 h264"
+ *
+ * @param {ChannelHealth} health - Result of the last check
+ * @returns {string} - Status with the known video format
+ */
+export function describeHealth(health?: ChannelHealth): string {
+    if (!health) {
+        return `${getHealthIcon(health)} Not checked yet`;
+    }
+
+    const format = [health.resolution, health.codec].filter(Boolean).join(' ');
+    const status = health.status === 'online' ? 'Online' : `Offline${health.failures > 1 ? ` (${health.failures} checks)` : ''}`;
+    return [`${getHealthIcon(health)} ${status}`, format].filter(Boolean).join(' • ');
+}
+
+/**
+ * Retrieves the stored channels, without offline channels if HIDE_OFFLINE_CHANNELS is set
+ *
+ * @returns {Promise<ChannelEntry[]>} - Channels to offer to users
+ */
+export async function getVisibleChannels(): Promise<ChannelEntry[]> {
+    const channels = await getChannelEntries();
+    if (!config.HIDE_OFFLINE_CHANNELS) {
+        return channels;
+    }
+
+    const health = await getChannelHealth();
+    return channels.filter(channel => health[channel.url]?.status !== 'offline');
+}
@@ -1,126 +1,296 @@
-import { promises as fs } from 'fs';
 import { getLogger } from '../../utils/logger';
 import { config } from '../../utils/config';
-import { clearCache, getCachedFile, getCachedFilePath } from '../../utils/cache';
-import { clearChannels, addChannels, clearProgrammes, addProgrammes } from '../database';
-import { fetchWithRetry } from './downloaders';
-import { fromPlaylistLine } from './parsers/playlist-parser';
-import { parseXMLTV } from './parsers/xmltv-parser';
-import { isProgrammeDataStale } from './utils';
-import { scheduleIPTVRefresh } from './schedulers';
-import type { ChannelEntry } from '../../interfaces/iptv';
+import { clearCache } from '../../utils/cache';
+import { replaceChannels, rollbackChannels, appendProgrammes, commitProgrammes, countPendingProgrammes, countProgrammes, discardProgrammes, rollbackProgrammes, relinkPendingProgrammes, stagePastProgrammes, getChannelEntries, getEpgChannels, getEpgMappingOverrides, getEpgShiftOverrides, setEpgChannels, shiftProgramme, getLastRefreshTables, setLastRefreshTables, type RefreshTable, type RollbackResult } from '../database';
+import { createGuideMerger, downloadGuideSources, type GuideFile } from './guides';
+import { parseXMLTV, type XMLTVStatistics } from './parsers/xmltv-parser';
+import { exceedsDropLimit, isProgrammeDataStale } from './utils';
+import { fetchProviderProgrammes, loadPlaylistSource, mergeChannelSources } from './sources';
+import { applyEpgMapping, mapChannelsToEpg } from './mapping';
+import { getCatchupRetentionDays } from './catchup';
+import { applyChannelRules, loadChannelRules, type LoadedChannelRules } from './rules';
+import { extendStartRange, reportChannels, reportEpgCoverage, reportProgrammes, reportUnchangedProgrammes } from './report';
+import type { ChannelEntry, EpgChannelEntry, ProgrammeEntry, ProgrammeIngestReport, SourceIngestReport } from '../../interfaces/iptv';
 
 const logger = getLogger();
 
+/**
+ * Hash of the channel rules the stored channels were built with.
+ * Null until the first rebuild and after a refused one, so the next refresh rebuilds even if the playlists did not change.
+ */
+let appliedRulesHash: string | null = null;
+
+/**
+ * Tables replaced by the full refresh in progress, recorded together once it ends so they are rolled back together.
+ * Null outside of downloadCacheAndFillDb.
+ */
+let fullRefreshTables: RefreshTable[] | null = null;
+
+/**
+ * Records that a refresh replaced a table, for the next rollback
+ *
+ * @param {RefreshTable} table - Replaced table
+ * @returns {Promise<void>}
+ */
+async function recordRefreshedTable(table: RefreshTable): Promise<void> {
+    if (fullRefreshTables) {
+        fullRefreshTables.push(table);
+    } else {
+        await setLastRefreshTables([table]);
+    }
+}
+
 /**
  * Downloads IPTV data, caches it, and fills the database with channels and programmes.
- * After completion, schedules regular refresh.
  * 
  * @param {boolean} force - Whether to force download even if cache exists
- * @returns {Promise<void>}
+ * @param {boolean} skipChecks - Whether to store the new data even if it fails the sanity checks
+ * @returns {Promise<boolean>} - False if the channels or programmes could not be refreshed
  */
-export async function downloadCacheAndFillDb(force = false): Promise<void> {
+export async function downloadCacheAndFillDb(force = false, skipChecks = false): Promise<boolean> {
     logger.debug('Cache download started and parsing with force: ' + force);
-    await fillDbChannels(force);
-    await fillDbProgrammes(force);
+    fullRefreshTables = [];
+    let channelsRefreshed: boolean;
+    let programmesRefreshed: boolean;
+    try {
+        channelsRefreshed = await fillDbChannels(force, skipChecks);
+        programmesRefreshed = await fillDbProgrammes(force, skipChecks);
+    } finally {
+        const tables = fullRefreshTables;
+        fullRefreshTables = null;
+        if (tables.length > 0) {
+            await setLastRefreshTables(tables);
+        }
+    }
     logger.debug('Finished parsing');
     await clearCache();
-    scheduleIPTVRefresh();
+    return channelsRefreshed && programmesRefreshed;
 }
 
 /**
- * Clears and fills the channels database with data from the playlist file.
+ * Fills the channels database with data from the configured playlist sources.
+ * Duplicate channels across sources are merged into a single entry, then the channel rules are applied.
+ * The new channel list is built on the side and only replaces the stored channels if it passes the sanity checks.
  * 
- * @param {boolean} force - Whether to force download even if cache exists
- * @returns {Promise<void>}
+ * @param {boolean} force - Whether to force download even if a source is up to date
+ * @param {boolean} skipChecks - Whether to store the new channels even if too many channels would be dropped
+ * @returns {Promise<boolean>} - False if the stored channels were kept because the refresh failed or was refused
  */
-export async function fillDbChannels(force = true): Promise<void> {
+export async function fillDbChannels(force = true, skipChecks = false): Promise<boolean> {
     logger.debug('Starting to fill the channels database');
+    logger.info('Fetching playlists...');
 
-    await clearChannels();
-    logger.info('Fetching playlist...');
+    const channelsBySource = new Map<string, ChannelEntry[]>();
+    const sourceReports: SourceIngestReport[] = [];
+    let changed = false;
+    for (const source of config.PLAYLIST_SOURCES) {
+        const result = await loadPlaylistSource(source, force);
+        channelsBySource.set(source.name, result.channels);
+        sourceReports.push({ name: source.name, status: result.status, channels: result.channels.length, statistics: result.statistics });
+        changed ||= result.changed;
+    }
 
-    let playlistContent = null;
+    // Rebuild anyway when channels of a source that is no longer configured are still stored, or the rules changed
+    const storedChannels = await getChannelEntries();
+    const hasRemovedSources = storedChannels.some(channel => !channelsBySource.has(channel.source || ''));
+    let rules: LoadedChannelRules | null;
     try {
-        playlistContent = await getCachedFile('playlist.m3u');
-        if (playlistContent) {
-            logger.debug(`Retrieved cached playlist, size: ${playlistContent.length} bytes`);
-        }
+        rules = await loadChannelRules();
     } catch (error) {
-        logger.warn(`Error retrieving cached playlist: ${error}`);
+        // Rebuilding without the rules would bring back every channel they exclude
+        logger.error(`${error instanceof Error ? error.message : error}. Keeping stored channels and the last valid rules.`);
+        await reportChannels('failed', sourceReports, [], []);
+        return false;
+    }
+    const rulesHash = rules?.hash || '';
+    if (!changed && !hasRemovedSources && storedChannels.length > 0 && rulesHash === appliedRulesHash) {
+        logger.info('Playlists have not changed, keeping stored channels');
+        await reportChannels('unchanged', sourceReports, storedChannels, []);
+        return true;
     }
 
-    if (!playlistContent || force) {
-        logger.info(`${force ? 'Force flag set, downloading' : 'No cached content available'}, fetching from source...`);
-        try {
-            playlistContent = await fetchWithRetry(config.PLAYLIST, 'playlist.m3u');
-            if (playlistContent) {
-                logger.debug(`Successfully downloaded playlist, size: ${playlistContent.length} bytes`);
-            } else {
-                logger.error('Failed to download playlist: empty response');
-            }
-        } catch (error) {
-            logger.error(`Error downloading playlist: ${error}`);
-        }
+    const duplicateNames: string[] = [];
+    let channels = mergeChannelSources(config.PLAYLIST_SOURCES, channelsBySource, duplicateNames);
+    if (rules) {
+        channels = applyChannelRules(channels, rules.rules).channels;
     }
 
-    if (playlistContent) {
-        logger.info('Adding channels to database...');
-        const channels: ChannelEntry[] = [];
-        let channel: ChannelEntry | null = null;
-        for (const line of playlistContent.toString().split('\n')) {
-            if (line.startsWith('#EXTINF:')) {
-                channel = fromPlaylistLine(line);
-            } else if (channel && !line.startsWith('#') && line.trim()) {
-                channel.url = line.trim();
-                channel.created_at = new Date().toISOString();
-                channels.push(channel);
-                channel = null;
-            }
-        }
-        await addChannels(channels);
-    } else {
-        logger.error('Failed to fetch playlist content from both cache and source');
+    if (channels.length === 0) {
+        logger.error(`Failed to fetch playlist content from all sources${storedChannels.length > 0 ? ', keeping stored channels' : ''}`);
+        appliedRulesHash = null;
+        await reportChannels('failed', sourceReports, channels, duplicateNames);
+        return false;
     }
+    if (!skipChecks && exceedsDropLimit(storedChannels.length, channels.length)) {
+        logger.error(`Refusing channel refresh: it would drop from ${storedChannels.length} to ${channels.length} channels, ` +
+            `more than the allowed ${config.REFRESH_MAX_DROP}%. Keeping stored channels.`);
+        appliedRulesHash = null;
+        await reportChannels('refused', sourceReports, channels, duplicateNames);
+        return false;
+    }
+
+    logger.info('Adding channels to database...');
+    await replaceChannels(mapChannelsToEpg(channels, await getEpgChannels(), await getEpgMappingOverrides(), await getEpgShiftOverrides()));
+    await recordRefreshedTable('channels');
+    appliedRulesHash = rulesHash;
+    await reportChannels('updated', sourceReports, channels, duplicateNames);
+    await reportEpgCoverage();
+    return true;
 }
 
 /**
- * Clears and fills the programme database with data from the XMLTV file.
+ * Fills the programme database with data from the XMLTV guides and playlist providers, merged per channel by priority.
+ * Programmes that already aired within the catch-up window are kept for replay, unless the new data covers them.
+ * New programmes are staged and only replace the stored programmes if they pass the sanity checks.
  * Only refreshes if data is stale or forced.
  * 
  * @param {boolean} force - Whether to force download even if cache exists
- * @returns {Promise<void>}
+ * @param {boolean} skipChecks - Whether to store the new programmes even if too many programmes would be dropped
+ * @returns {Promise<boolean>} - False if the stored programmes were kept because the refresh failed or was refused
  */
-export async function fillDbProgrammes(force = false): Promise<void> {
+export async function fillDbProgrammes(force = false, skipChecks = false): Promise<boolean> {
     logger.debug('Starting to fill the programmes database');
 
     const isStale = await isProgrammeDataStale();
 
     if (isStale || force) {
-        await clearProgrammes();
-        logger.info('Fetching XMLTV...');
+        let programmeCount = 0;
+        let failed = 0;
+        const failures: string[] = [];
+        let guideFiles: GuideFile[] = [];
+        const epgChannels: EpgChannelEntry[] = [];
+
+        if (config.XMLTV_SOURCES.length > 0) {
+            logger.info('Fetching XMLTV...');
+
+            // Provider guides are rebuilt together with the XMLTV data, so the XMLTV content is always needed for them
+            const providesProgrammes = config.PLAYLIST_SOURCES.some(source => source.epg);
+            const conditional = !providesProgrammes && await countProgrammes() > 0;
+            const files = await downloadGuideSources(config.XMLTV_SOURCES, force, conditional);
+
+            if (!files) {
+                logger.info('XMLTV has not changed, keeping stored programmes');
+                await reportUnchangedProgrammes();
+                return true;
+            }
+            guideFiles = files;
+        }
+
+        const storedCount = await countProgrammes();
+        let startRange: Pick<ProgrammeIngestReport, 'first_start' | 'last_start'> = {};
+        const collectProgrammes = async (programmes: ProgrammeEntry[]) => {
+            startRange = extendStartRange(startRange, programmes);
+            await appendProgrammes(programmes);
+        };
 
-        let xmltvContent = await getCachedFile('xmltv.xml');
-        if (!xmltvContent || force) {
-            xmltvContent = await fetchWithRetry(config.XMLTV, 'xmltv.xml');
+        discardProgrammes();
+
+        // Guides are merged per playlist channel: a lower-priority guide only fills the gaps of the guides before it
+        const playlistChannels = await getChannelEntries();
+        const merger = createGuideMerger({ channels: playlistChannels, overrides: await getEpgMappingOverrides() });
+        const epgChannelIds = new Set<string>();
+        for (const file of guideFiles) {
+            let statistics: XMLTVStatistics;
+            try {
+                statistics = await parseXMLTV(file.path, programmes => {
+                    const sourceProgrammes = programmes.map(programme =>
+                        ({ ...shiftProgramme(programme, file.source.shift || 0), source: file.source.name }));
+                    return collectProgrammes(merger.filter(sourceProgrammes));
+                }, channel => {
+                    merger.addChannel(channel);
+                    if (!epgChannelIds.has(channel.id)) {
+                        epgChannelIds.add(channel.id);
+                        epgChannels.push(channel);
+                    }
+                });
+            } catch (error) {
+                // A damaged guide would replace the stored programmes with a truncated schedule
+                discardProgrammes();
+                logger.error(`Error parsing XMLTV source "${file.source.name}": ${error}. Keeping stored programmes.`);
+                const message = error instanceof Error ? error.message : String(error);
+                failures.push(guideFiles.length > 1 ? `[${file.source.name}] ${message}` : message);
+                await reportProgrammes('failed', { total: 0, failed, failures, epg_channels: epgChannels.length });
+                return false;
+            }
+            merger.endSource();
+
+            programmeCount += statistics.programmes;
+            failed += statistics.failed;
+            failures.push(...statistics.failures.map(failure => guideFiles.length > 1 ? `[${file.source.name}] ${failure}` : failure));
+        }
+        if (config.XMLTV_SOURCES.length > 0 && guideFiles.length === 0) {
+            logger.error('No XMLTV content available. Cannot process.');
         }
 
-        if (xmltvContent) {
+        const providerProgrammes = await fetchProviderProgrammes(config.PLAYLIST_SOURCES);
+        await collectProgrammes(merger.filter(providerProgrammes));
+        programmeCount += providerProgrammes.length;
+
+        const relinks = merger.getRelinks(epgChannels.length > 0 ? epgChannels : await getEpgChannels());
+        if (relinks.size > 0) {
+            const relinked = await relinkPendingProgrammes(relinks);
+            logger.info(`Moved ${relinked} programmes of ${relinks.size} guide channels to the XMLTV IDs their playlist channels use`);
+        }
+
+        if (programmeCount > 0) {
+            // Appended last so the first entry still reflects when the data was refreshed
+            const now = Math.floor(Date.now() / 1000);
+            const keptCount = await stagePastProgrammes(now - getCatchupRetentionDays(playlistChannels) * 24 * 60 * 60, now);
+            logger.info(`Keeping ${keptCount} past programmes for replay`);
+
+            const pendingCount = countPendingProgrammes();
+            const details = { total: pendingCount, failed, failures, ...startRange, epg_channels: epgChannels.length };
+            if (!skipChecks && exceedsDropLimit(storedCount, pendingCount)) {
+                logger.error(`Refusing programme refresh: it would drop from ${storedCount} to ${pendingCount} programmes, ` +
+                    `more than the allowed ${config.REFRESH_MAX_DROP}%. Keeping stored programmes.`);
+                discardProgrammes();
+                await reportProgrammes('refused', details);
+                return false;
+            }
+
             logger.info('Adding programmes to database...');
-            const xmltvPath = await getCachedFilePath('xmltv.xml');
-            if (xmltvPath) {
-                await fs.writeFile(xmltvPath, xmltvContent);
-                const programmes = await parseXMLTV(xmltvPath);
-                await addProgrammes(programmes);
-            } else {
-                logger.error('XMLTV path is null. Cannot read file.');
+            await commitProgrammes();
+            await recordRefreshedTable('programmes');
+            if (epgChannels.length > 0) {
+                await setEpgChannels(epgChannels);
             }
+            await applyEpgMapping();
+            await reportProgrammes('updated', details);
+            await reportEpgCoverage();
         } else {
-            logger.error('No XMLTV content available. Cannot process.');
+            discardProgrammes();
+            logger.error(`No programme data available from XMLTV or playlist providers${storedCount > 0 ? ', keeping stored programmes' : ''}.`);
+            await reportProgrammes('failed', { total: 0, failed, failures, epg_channels: epgChannels.length });
+            return false;
         }
     } else {
         logger.info('TV Schedule up to date');
+        await reportUnchangedProgrammes();
+    }
+    return true;
+}
+
+/**
+ * Restores the channels and programmes that were replaced by the last successful refresh.
+ * Only the tables that refresh replaced are restored, so channels and programmes keep coming from the same refresh.
+ * The replaced data becomes the new snapshot, so rolling back twice undoes the rollback.
+ * 
+ * @returns {Promise<{ channels: RollbackResult | null, programmes: RollbackResult | null }>} - Restored counts, null where the table is unchanged
+ */
+export async function rollbackRefresh(): Promise<{ channels: RollbackResult | null, programmes: RollbackResult | null }> {
+    const tables = await getLastRefreshTables();
+    const channels = tables.includes('channels') ? await rollbackChannels() : null;
+    const programmes = tables.includes('programmes') ? await rollbackProgrammes() : null;
+    if (channels || programmes) {
+        await reportEpgCoverage();
     }
+    logger.info(`Rolled back to ${channels?.count ?? 'unchanged'} channels and ${programmes?.count ?? 'unchanged'} programmes`);
+    return { channels, programmes };
 }
 
-export { scheduleIPTVRefresh };
+export { REFRESH_LOCK, scheduleIPTVRefresh } from './schedulers';
+export { applyEpgMapping } from './mapping';
+export { buildCatchupUrl, getCatchupDays, isReplayable } from './catchup';
+export { previewChannelRules } from './rules';
+export { describeHealth, getHealthIcon, getVisibleChannels, runHealthChecks } from './health';
+export { stopWatchingLocalSources, watchLocalSources } from './watcher';
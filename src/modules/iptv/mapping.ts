@@ -0,0 +1,172 @@
+import { getLogger } from '../../utils/logger';
+import { addChannels, getChannelEntries, getEpgChannels, getEpgMappingOverrides, getEpgShiftOverrides } from '../database';
+import { normalizeChannelName } from './utils';
+import type { ChannelEntry, EpgChannelEntry } from '../../interfaces/iptv';
+
+const logger = getLogger();
+
+/**
+ * Quality and codec markers ignored when fuzzy matching channel names
+ */
+const QUALITY_TOKENS = /\b(uhd|fhd|hd|sd|4k|8k|hevc|h\.?265|h\.?264|1080[pi]?|720p|50fps|60fps)\b/gi;
+
+/**
+ * Timeshift markers such as "+1" or "+2" in channel names
+ */
+const TIMESHIFT_PATTERN = /\s*\+\s*(\d{1,2})(?=\s|$|\W)/;
+
+/**
+ * Builds a loose comparison key for a channel name.
+ * Strips country prefixes like "UK: " or "UK | ", bracketed notes and quality markers.
+ *
+ * @param {string} name - Channel name or XMLTV display name
+ * @returns {string} - Fuzzy comparison key
+ */
+export function fuzzyChannelKey(name: string): string {
+    const withoutPrefix = name.replace(/^[^:|]{1,12}[:|]\s*\|?\s*/, '');
+    const withoutNotes = withoutPrefix.replace(/[([{][^)\]}]*[)\]}]/g, ' ');
+    return normalizeChannelName(withoutNotes.replace(QUALITY_TOKENS, ' '));
+}
+
+/**
+ * Links playlist channels to XMLTV channels.
+ * Manual overrides win, then matching tvg_id, then exact display name, then fuzzy name matching.
+ * Timeshifted channels like "ITV +1" without a guide of their own use the guide of their base channel, shifted by the hours in their name.
+ * Channels without a logo get the XMLTV icon.
+ *
+ * @param {ChannelEntry[]} channels - Playlist channels
+ * @param {EpgChannelEntry[]} epgChannels - XMLTV channel definitions
+ * @param {Record<string, string>} overrides - Manual XMLTV IDs keyed by channel name
+ * @param {Record<string, number>} shifts - Manual guide offsets in hours keyed by channel name
+ * @returns {ChannelEntry[]} - Channels with epg_id, epg_match and epg_shift set where a match was found
+ */
+export function mapChannelsToEpg(
+    channels: ChannelEntry[],
+    epgChannels: EpgChannelEntry[],
+    overrides: Record<string, string>,
+    shifts: Record<string, number> = {}
+): ChannelEntry[] {
+    const { mapped, counts } = matchChannels(channels, epgChannels, overrides, shifts);
+    logger.info(`Mapped channels to XMLTV: ${counts.tvg_id} by tvg_id, ${counts.display_name} by display name, ` +
+        `${counts.fuzzy} by fuzzy name, ${counts.timeshift} as timeshifted channels, ${counts.manual} manually, ${counts.none} unmatched`);
+    return mapped;
+}
+
+/**
+ * Links the XMLTV channels of a guide to the playlist channels they provide programmes for.
+ * Timeshifted channels are left out, they share the guide of their base channel.
+ *
+ * @param {ChannelEntry[]} channels - Playlist channels
+ * @param {EpgChannelEntry[]} epgChannels - XMLTV channel definitions of the guide
+ * @param {Record<string, string>} overrides - Manual XMLTV IDs keyed by channel name
+ * @returns {Map<string, string>} - Name of the first playlist channel linked to each XMLTV ID
+ */
+export function linkEpgChannels(channels: ChannelEntry[], epgChannels: EpgChannelEntry[], overrides: Record<string, string>): Map<string, string> {
+    const links = new Map<string, string>();
+    for (const channel of matchChannels(channels, epgChannels, overrides).mapped) {
+        if (channel.epg_id && channel.epg_match !== 'timeshift' && !links.has(channel.epg_id)) {
+            links.set(channel.epg_id, channel.tvg_name || '');
+        }
+    }
+    return links;
+}
+
+/**
+ * Matches playlist channels to XMLTV channels without logging the outcome, see mapChannelsToEpg
+ *
+ * @param {ChannelEntry[]} channels - Playlist channels
+ * @param {EpgChannelEntry[]} epgChannels - XMLTV channel definitions
+ * @param {Record<string, string>} overrides - Manual XMLTV IDs keyed by channel name
+ * @param {Record<string, number>} shifts - Manual guide offsets in hours keyed by channel name
+ * @returns {{ mapped: ChannelEntry[], counts: Record<string, number> }} - Mapped channels and the number of channels per match type
+ */
+export function matchChannels(
+    channels: ChannelEntry[],
+    epgChannels: EpgChannelEntry[],
+    overrides: Record<string, string>,
+    shifts: Record<string, number> = {}
+): { mapped: ChannelEntry[], counts: Record<NonNullable<ChannelEntry['epg_match']> | 'none', number> } {
+    const byId = new Map<string, EpgChannelEntry>();
+    const byLowerId = new Map<string, EpgChannelEntry>();
+    const byDisplayName = new Map<string, EpgChannelEntry>();
+    const byFuzzyKey = new Map<string, EpgChannelEntry>();
+
+    const addKey = (map: Map<string, EpgChannelEntry>, key: string, epgChannel: EpgChannelEntry) => {
+        if (key && !map.has(key)) {
+            map.set(key, epgChannel);
+        }
+    };
+
+    for (const epgChannel of epgChannels) {
+        byId.set(epgChannel.id, epgChannel);
+        addKey(byLowerId, epgChannel.id.toLowerCase(), epgChannel);
+        for (const displayName of epgChannel.display_names) {
+            addKey(byDisplayName, displayName.toLowerCase(), epgChannel);
+            addKey(byFuzzyKey, fuzzyChannelKey(displayName), epgChannel);
+        }
+        // IDs like "BBCOne.uk" often carry the channel name before the country suffix
+        addKey(byFuzzyKey, fuzzyChannelKey(epgChannel.id.replace(/\.[a-z]{2,3}$/i, '')), epgChannel);
+    }
+
+    const counts = { tvg_id: 0, display_name: 0, fuzzy: 0, manual: 0, timeshift: 0, none: 0 };
+
+    const mapped = channels.map(channel => {
+        const entry: ChannelEntry = { ...channel, epg_id: undefined, epg_match: undefined, epg_shift: undefined };
+        const name = channel.tvg_name || '';
+        const timeshift = name.match(TIMESHIFT_PATTERN);
+        const baseName = timeshift ? name.replace(TIMESHIFT_PATTERN, '').trim() : '';
+        let match: EpgChannelEntry | undefined;
+
+        const override = overrides[name];
+        if (override) {
+            entry.epg_id = override;
+            entry.epg_match = 'manual';
+            match = byId.get(override);
+        } else if (channel.tvg_id && (match = byId.get(channel.tvg_id) || byLowerId.get(channel.tvg_id.toLowerCase()))) {
+            entry.epg_match = 'tvg_id';
+        } else if (name && (match = byDisplayName.get(name.trim().toLowerCase()))) {
+            entry.epg_match = 'display_name';
+        } else if (name && (match = byFuzzyKey.get(fuzzyChannelKey(name)))) {
+            entry.epg_match = 'fuzzy';
+        } else if (baseName && (match = byDisplayName.get(baseName.toLowerCase()) || byFuzzyKey.get(fuzzyChannelKey(baseName)))) {
+            entry.epg_match = 'timeshift';
+        }
+
+        if (shifts[name] !== undefined) {
+            entry.epg_shift = shifts[name];
+        } else if (channel.tvg_shift !== undefined) {
+            entry.epg_shift = channel.tvg_shift;
+        } else if (entry.epg_match === 'timeshift') {
+            entry.epg_shift = parseInt(timeshift![1]!);
+        }
+
+        if (match) {
+            entry.epg_id = match.id;
+            if (!entry.tvg_logo && match.icon) {
+                entry.tvg_logo = match.icon;
+            }
+        }
+
+        counts[entry.epg_match || 'none']++;
+        return entry;
+    });
+
+    return { mapped, counts };
+}
+
+/**
+ * Re-maps all stored channels to the stored XMLTV channel definitions and manual overrides.
+ *
+ * @returns {Promise<void>}
+ */
+export async function applyEpgMapping(): Promise<void> {
+    const channels = await getChannelEntries();
+    if (channels.length === 0) {
+        return;
+    }
+
+    const epgChannels = await getEpgChannels();
+    const overrides = await getEpgMappingOverrides();
+    const shifts = await getEpgShiftOverrides();
+    await addChannels(mapChannelsToEpg(channels, epgChannels, overrides, shifts));
+}
@@ -1,2 +1,2 @@
-export { fromPlaylistLine } from './playlist-parser';
+export { createParseStatistics, fromPlaylistLine, parsePlaylist, skipEntry } from './playlist-parser';
 export { parseXMLTV } from './xmltv-parser';
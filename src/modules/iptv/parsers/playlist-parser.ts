@@ -1,131 +1,327 @@
 import { getLogger } from '../../../utils/logger';
-import type { ChannelEntry } from '../../../interfaces/iptv';
+import type { CatchupType, ChannelEntry, PlaylistParseStatistics } from '../../../interfaces/iptv';
 
 const logger = getLogger();
 
 /**
- * Parses a playlist line to extract channel information.
- * Tries multiple formats to ensure compatibility with different playlist providers.
- * 
- * @param {string} line - A line from the M3U playlist starting with #EXTINF
- * @returns {ChannelEntry | null} - Channel entry or null if parsing fails
+ * Playlist options and attributes that set an HTTP header, keyed by lowercase option name
  */
-export function fromPlaylistLine(line: string): ChannelEntry | null {
-    // Try each parsing strategy in sequence
-    return parseOriginalFormat(line) ||
-        parseAlternativeFormat(line) ||
-        parseFlexibleFormat(line);
+const HEADER_OPTIONS: Record<string, string> = {
+    'http-user-agent': 'User-Agent',
+    'user-agent': 'User-Agent',
+    'http-referrer': 'Referer',
+    'http-referer': 'Referer',
+    'referrer': 'Referer',
+    'referer': 'Referer',
+    'http-origin': 'Origin',
+    'origin': 'Origin',
+    'http-cookie': 'Cookie',
+    'cookie': 'Cookie',
+};
+
+/**
+ * Kodi properties carrying headers in "Name=value&Name=value" form
+ */
+const KODI_HEADER_PROPS = ['inputstream.adaptive.stream_headers', 'inputstream.adaptive.manifest_headers'];
+
+/**
+ * Catch-up attribute values and the template they use
+ */
+const CATCHUP_TYPES: Record<string, CatchupType> = {
+    'default': 'default',
+    'append': 'append',
+    'shift': 'shift',
+    'timeshift': 'shift',
+    'flussonic': 'flussonic',
+    'flussonic-hls': 'flussonic',
+    'flussonic-ts': 'flussonic',
+    'fs': 'flussonic',
+    'xc': 'xc',
+};
+
+/**
+ * Number of skipped lines kept as samples in the parse statistics
+ */
+const MAX_SKIPPED_SAMPLES = 10;
+
+/**
+ * Directives collected between two stream URLs
+ */
+interface PendingDirectives {
+    group?: string;
+    vlcOptions: Record<string, string>;
+    kodiProps: Record<string, string>;
 }
 
 /**
- * Attempts to parse a playlist line using the original format pattern.
- * 
- * @param {string} line - A line from the M3U playlist
- * @returns {ChannelEntry | null} - Channel entry or null if parsing fails
+ * Creates empty playlist parse statistics
+ *
+ * @returns {PlaylistParseStatistics} - Statistics with all counts at zero
  */
-function parseOriginalFormat(line: string): ChannelEntry | null {
-    const ORIGINAL_PATTERN = /#EXTINF:.*\s*channelID="(?<xui_id>.*?)"\s*tvg-chno="(?<tvg_chno>.*?)"\s*tvg-name="(?<tvg_name>.*?)"\s*tvg-id="(?<tvg_id>.*?)"\s*tvg-logo="(?<tvg_logo>.*?)"\s*group-title="(?<group_title>.*?)"/;
-    const matches = line.match(ORIGINAL_PATTERN);
-
-    if (matches?.groups) {
-        const { xui_id, tvg_id, tvg_name, tvg_logo, group_title } = matches.groups;
-        const [prefix] = (group_title || '').split(': |');
-        return {
-            xui_id: parseInt(xui_id || '0'),
-            tvg_id,
-            tvg_name,
-            tvg_logo,
-            group_title,
-            url: '',
-            created_at: undefined,
-            country: prefix
-        };
-    }
-
-    return null;
+export function createParseStatistics(): PlaylistParseStatistics {
+    return { parsed: 0, skipped: 0, reasons: {}, samples: [] };
 }
 
 /**
- * Attempts to parse a playlist line using the alternative format pattern.
- * 
- * @param {string} line - A line from the M3U playlist
- * @returns {ChannelEntry | null} - Channel entry or null if parsing fails
+ * Parses the content of an M3U playlist into channel entries.
+ * #EXTVLCOPT, #KODIPROP and #EXTGRP lines apply to the next stream URL.
+ *
+ * @param {string} content - Raw playlist content
+ * @param {string} sourceName - Name of the playlist source the content came from
+ * @param {PlaylistParseStatistics} statistics - Collects parsed and skipped entries
+ * @returns {ChannelEntry[]} - Parsed channel entries
  */
-function parseAlternativeFormat(line: string): ChannelEntry | null {
-    const ALT_PATTERN = /#EXTINF:(?<duration>.*?)\s+tvg-id="(?<tvg_id>.*?)"\s+tvg-logo="(?<tvg_logo>.*?)"\s+group-title="(?<group_title>.*?)"(?:,\s*(?<channel_name>.*?)(?:\s+\(.*?\))?)?$/;
-    const matches = line.match(ALT_PATTERN);
-
-    if (matches?.groups) {
-        const { tvg_id, tvg_logo, group_title, channel_name } = matches.groups;
-        // Use the channel name as tvg_name if available
-        const tvg_name = channel_name || tvg_id;
-        const [prefix] = (group_title || '').split(': |');
-
-        logger.debug(`Parsed alternative format channel: ${tvg_name}`);
-
-        return {
-            xui_id: 0, // No xui_id in this format
-            tvg_id,
-            tvg_name,
-            tvg_logo,
-            group_title,
-            url: '',
-            created_at: undefined,
-            country: prefix
-        };
-    }
-
-    return null;
+export function parsePlaylist(content: string, sourceName: string, statistics = createParseStatistics()): ChannelEntry[] {
+    const channels: ChannelEntry[] = [];
+    let channel: ChannelEntry | null = null;
+    let invalidEntry = false;
+    let directives: PendingDirectives = { vlcOptions: {}, kodiProps: {} };
+
+    for (const rawLine of content.split('\n')) {
+        const line = rawLine.trim();
+        if (line.startsWith('#EXTINF:')) {
+            if (channel) {
+                skipEntry(statistics, 'no stream URL', channel.tvg_name || '');
+            }
+            channel = fromPlaylistLine(line);
+            invalidEntry = !channel;
+            if (!channel) {
+                skipEntry(statistics, 'no channel name', line);
+            }
+        } else if (line.startsWith('#EXTVLCOPT:')) {
+            addOption(directives.vlcOptions, line.substring('#EXTVLCOPT:'.length));
+        } else if (line.startsWith('#KODIPROP:')) {
+            addOption(directives.kodiProps, line.substring('#KODIPROP:'.length));
+        } else if (line.startsWith('#EXTGRP:')) {
+            directives.group = line.substring('#EXTGRP:'.length).trim();
+        } else if (line && !line.startsWith('#')) {
+            if (channel) {
+                applyStreamUrl(channel, line, directives);
+                channel.created_at = new Date().toISOString();
+                channel.source = sourceName;
+                channels.push(channel);
+                channel = null;
+            } else if (!invalidEntry) {
+                skipEntry(statistics, 'stream URL without #EXTINF', line);
+            }
+            invalidEntry = false;
+            directives = { vlcOptions: {}, kodiProps: {} };
+        }
+    }
+
+    if (channel) {
+        skipEntry(statistics, 'no stream URL', channel.tvg_name || '');
+    }
+
+    statistics.parsed += channels.length;
+    if (statistics.skipped > 0) {
+        logger.warn(`Skipped ${statistics.skipped} entries of playlist source "${sourceName}": ` +
+            Object.entries(statistics.reasons).map(([reason, count]) => `${count}x ${reason}`).join(', '));
+    }
+    return channels;
 }
 
 /**
- * Attempts to parse a playlist line using a flexible approach when standard patterns fail.
- * Extracts whatever information is available in the line.
- * 
- * @param {string} line - A line from the M3U playlist
+ * Records a skipped playlist entry
+ *
+ * @param {PlaylistParseStatistics} statistics - Statistics to update
+ * @param {string} reason - Why the entry was skipped
+ * @param {string} line - Line or channel name of the entry
+ */
+export function skipEntry(statistics: PlaylistParseStatistics, reason: string, line: string): void {
+    statistics.skipped++;
+    statistics.reasons[reason] = (statistics.reasons[reason] || 0) + 1;
+    if (statistics.samples.length < MAX_SKIPPED_SAMPLES) {
+        statistics.samples.push(`${reason}: ${line.substring(0, 100)}`);
+    }
+}
+
+/**
+ * Parses a playlist line to extract channel information.
+ * Every attribute of the line is kept, the well-known ones are also mapped to their own fields.
+ *
+ * @param {string} line - A line from the M3U playlist starting with #EXTINF
  * @returns {ChannelEntry | null} - Channel entry or null if parsing fails
  */
-function parseFlexibleFormat(line: string): ChannelEntry | null {
+export function fromPlaylistLine(line: string): ChannelEntry | null {
     if (!line.startsWith('#EXTINF:')) {
         return null;
     }
 
-    logger.debug(`Trying flexible parsing for line: ${line.substring(0, 100)}...`);
+    const { attributes, name } = tokenizeExtinf(line);
+
+    // Remove quality indicator if present (anything in parentheses at the end)
+    const displayName = name.replace(/\s+\([^)]+\)\s*$/, '').trim();
+    const tvgId = attributes['tvg-id'] || '';
+    const tvgName = attributes['tvg-name'] || displayName || tvgId;
 
-    // Extract available attributes
-    const tvgIdMatch = line.match(/tvg-id="([^"]+)"/);
-    const tvgLogoMatch = line.match(/tvg-logo="([^"]+)"/);
-    const groupTitleMatch = line.match(/group-title="([^"]+)"/);
+    if (!tvgName) {
+        logger.debug(`Could not find a channel name in line: ${line.substring(0, 100)}...`);
+        return null;
+    }
 
-    // Extract channel name from after the last comma
-    const lastCommaIndex = line.lastIndexOf(',');
-    let channelName = '';
+    const groupTitle = attributes['group-title'] || '';
+    const channelNumber = parseInt(attributes['tvg-chno'] || '');
+    const shift = parseFloat(attributes['tvg-shift'] || '');
+    const headers = headersFromOptions(attributes);
+    const catchup = CATCHUP_TYPES[(attributes['catchup'] || attributes['catchup-type'] || '').toLowerCase()];
+    const catchupDays = parseInt(attributes['catchup-days'] || attributes['timeshift'] || '');
 
-    if (lastCommaIndex !== -1) {
-        channelName = line.substring(lastCommaIndex + 1).trim();
-        // Remove quality indicator if present (anything in parentheses at the end)
-        channelName = channelName.replace(/\s+\([^)]+\)\s*$/, '');
+    return {
+        xui_id: parseInt(attributes['channelid'] || '0') || 0,
+        tvg_id: tvgId,
+        tvg_name: tvgName,
+        tvg_logo: attributes['tvg-logo'] || '',
+        group_title: groupTitle,
+        url: '',
+        created_at: undefined,
+        country: groupTitle.split(': |')[0],
+        tvg_chno: Number.isFinite(channelNumber) ? channelNumber : undefined,
+        tvg_shift: Number.isFinite(shift) && shift !== 0 ? shift : undefined,
+        attributes,
+        http_headers: Object.keys(headers).length > 0 ? headers : undefined,
+        catchup,
+        catchup_days: catchup && Number.isFinite(catchupDays) ? catchupDays : undefined,
+        catchup_source: catchup ? attributes['catchup-source'] || undefined : undefined,
+    };
+}
+
+/**
+ * Splits an #EXTINF line into its attributes and the display name after the first unquoted comma.
+ * Attribute values may be double quoted, single quoted or unquoted; names are lowercased.
+ *
+ * @param {string} line - A line from the M3U playlist starting with #EXTINF
+ * @returns {{ attributes: Record<string, string>, name: string }} - Attributes and display name
+ */
+export function tokenizeExtinf(line: string): { attributes: Record<string, string>, name: string } {
+    const attributes: Record<string, string> = {};
+    const attributePattern = /([A-Za-z0-9_.:-]+)=(?:"([^"]*)"|'([^']*)'|([^\s,]*))/y;
+
+    // Skip the duration
+    let position = '#EXTINF:'.length;
+    const duration = /\s*-?\d*(?:\.\d+)?/y;
+    duration.lastIndex = position;
+    if (duration.exec(line)) {
+        position = duration.lastIndex;
+    }
+
+    while (position < line.length) {
+        const char = line[position]!;
+        if (char === ',') {
+            return { attributes, name: line.substring(position + 1).trim() };
+        }
+        if (/\s/.test(char)) {
+            position++;
+            continue;
+        }
+
+        attributePattern.lastIndex = position;
+        const match = attributePattern.exec(line);
+        if (match) {
+            attributes[match[1]!.toLowerCase()] = match[2] ?? match[3] ?? match[4] ?? '';
+            position = attributePattern.lastIndex;
+        } else {
+            // Skip a token that is not an attribute
+            while (position < line.length && !/[\s,]/.test(line[position]!)) {
+                position++;
+            }
+        }
+    }
+
+    return { attributes, name: '' };
+}
+
+/**
+ * Adds a "name=value" option from an #EXTVLCOPT or #KODIPROP line
+ *
+ * @param {Record<string, string>} options - Options collected so far
+ * @param {string} option - Option text after the directive
+ */
+function addOption(options: Record<string, string>, option: string): void {
+    const separator = option.indexOf('=');
+    if (separator <= 0) {
+        return;
+    }
+    options[option.substring(0, separator).trim().toLowerCase()] = option.substring(separator + 1).trim();
+}
+
+/**
+ * Sets the stream URL of a channel and applies the directives found before it.
+ * Headers appended to the URL Kodi-style ("url|User-Agent=...&Referer=...") are moved to http_headers.
+ *
+ * @param {ChannelEntry} channel - Channel parsed from the #EXTINF line
+ * @param {string} line - Stream URL line
+ * @param {PendingDirectives} directives - Directives collected since the previous stream URL
+ */
+function applyStreamUrl(channel: ChannelEntry, line: string, directives: PendingDirectives): void {
+    const pipe = line.indexOf('|');
+    channel.url = (pipe === -1 ? line : line.substring(0, pipe)).trim();
+    const pipeHeaders = pipe === -1 ? undefined : line.substring(pipe + 1);
+
+    if (!channel.group_title && directives.group) {
+        channel.group_title = directives.group;
+        channel.country = directives.group.split(': |')[0];
     }
 
-    const tvgId = tvgIdMatch ? tvgIdMatch[1] : '';
-    const tvgName = channelName || tvgId;
-    const tvgLogo = tvgLogoMatch ? tvgLogoMatch[1] : '';
-    const groupTitle = groupTitleMatch ? groupTitleMatch[1] : '';
-    const country = groupTitle ? groupTitle.split(': |')[0] : '';
+    const headers: Record<string, string> = {
+        ...channel.http_headers,
+        ...headersFromOptions(directives.vlcOptions),
+    };
+    for (const prop of KODI_HEADER_PROPS) {
+        Object.assign(headers, parseHeaderString(directives.kodiProps[prop]));
+    }
+    Object.assign(headers, parseHeaderString(pipeHeaders));
 
-    if (tvgName) {
-        logger.debug(`Flexible parsing found channel: ${tvgName}`);
-        return {
-            xui_id: 0,
-            tvg_id: tvgId,
-            tvg_name: tvgName,
-            tvg_logo: tvgLogo,
-            group_title: groupTitle,
-            url: '',
-            created_at: undefined,
-            country
-        };
+    channel.http_headers = Object.keys(headers).length > 0 ? headers : undefined;
+    if (Object.keys(directives.vlcOptions).length > 0) {
+        channel.vlc_options = directives.vlcOptions;
     }
+    if (Object.keys(directives.kodiProps).length > 0) {
+        channel.kodi_props = directives.kodiProps;
+    }
+}
 
-    return null;
+/**
+ * Picks the options that set an HTTP header
+ *
+ * @param {Record<string, string>} options - Attributes or VLC options keyed by lowercase name
+ * @returns {Record<string, string>} - Headers keyed by header name
+ */
+function headersFromOptions(options: Record<string, string>): Record<string, string> {
+    const headers: Record<string, string> = {};
+    for (const [option, value] of Object.entries(options)) {
+        const header = HEADER_OPTIONS[option];
+        if (header && value) {
+            headers[header] = value;
+        }
+    }
+    return headers;
+}
+
+/**
+ * Parses headers in "Name=value&Name=value" form with URL encoded values
+ *
+ * @param {string | undefined} value - Header string
+ * @returns {Record<string, string>} - Headers keyed by header name
+ */
+function parseHeaderString(value: string | undefined): Record<string, string> {
+    const headers: Record<string, string> = {};
+    if (!value) {
+        return headers;
+    }
+
+    for (const pair of value.split('&')) {
+        const separator = pair.indexOf('=');
+        if (separator <= 0) {
+            continue;
+        }
+        const name = pair.substring(0, separator).trim();
+        const headerValue = pair.substring(separator + 1).trim();
+        try {
+            headers[HEADER_OPTIONS[name.toLowerCase()] || name] = decodeURIComponent(headerValue);
+        } catch {
+            headers[HEADER_OPTIONS[name.toLowerCase()] || name] = headerValue;
+        }
+    }
+    return headers;
 }
@@ -1,50 +1,165 @@
-import { promises as fs } from 'fs';
-import { parseStringPromise } from 'xml2js';
+import { createReadStream } from 'fs';
+import sax from 'sax';
 import { getLogger } from '../../../utils/logger';
 import { parseDate } from '../utils';
-import type { ProgrammeEntry } from '../../../interfaces/iptv';
+import type { EpgChannelEntry, ProgrammeEntry } from '../../../interfaces/iptv';
 
 const logger = getLogger();
 
 /**
- * Parses an XMLTV file to extract programme entries.
+ * Number of programme parse failures kept as samples in the statistics
+ */
+const MAX_FAILURE_SAMPLES = 10;
+
+/**
+ * Summary of a parsed XMLTV file
+ */
+export interface XMLTVStatistics {
+    programmes: number;
+    channels: number;
+    failed: number;
+    /** First few programmes that could not be parsed, with the reason */
+    failures: string[];
+    firstStart: Date | null;
+    lastStart: Date | null;
+}
+
+/**
+ * Parses an XMLTV file incrementally, handing programme entries over in batches.
+ * The file is streamed through a SAX parser, so memory use does not grow with the guide size.
  * 
  * @param {string} filePath - Path to the XMLTV file
- * @returns {Promise<ProgrammeEntry[]>} - Array of parsed programme entries
+ * @param {(programmes: ProgrammeEntry[]) => Promise<void>} onBatch - Called with each batch of parsed programmes
+ * @param {(channel: EpgChannelEntry) => void} onChannel - Called with each parsed channel definition
+ * @param {number} batchSize - Number of programmes per batch
+ * @returns {Promise<XMLTVStatistics>} - Statistics about the parsed programmes
+ * @throws {Error} - If the file cannot be read or is not well-formed XML
  */
-export async function parseXMLTV(filePath: string): Promise<ProgrammeEntry[]> {
-    const programmes: ProgrammeEntry[] = [];
-    try {
-        const xmlContent = await fs.readFile(filePath, 'utf8');
-        logger.debug(`XMLTV file size: ${xmlContent.length} bytes`);
-
-        const parsedXml = await parseStringPromise(xmlContent);
-        logger.info(`Found ${parsedXml.tv.programme?.length || 0} programmes in XMLTV`);
-
-        if (!parsedXml.tv.programme || parsedXml.tv.programme.length === 0) {
-            logger.error('No programmes found in XMLTV file');
-            return programmes;
+export async function parseXMLTV(
+    filePath: string,
+    onBatch: (programmes: ProgrammeEntry[]) => Promise<void>,
+    onChannel: (channel: EpgChannelEntry) => void = () => { },
+    batchSize = 5000
+): Promise<XMLTVStatistics> {
+    const statistics: XMLTVStatistics = { programmes: 0, channels: 0, failed: 0, failures: [], firstStart: null, lastStart: null };
+    const channels = new Set<string>();
+    let batch: ProgrammeEntry[] = [];
+
+    // Elements inside <programme> and <channel> are collected in the same shape xml2js produces
+    const stack: any[] = [];
+    let rootName = '';
+    const parser = sax.parser(false, { lowercase: true, trim: false });
+
+    // Errors are thrown out of parser.write, so a damaged guide is never taken for a complete one
+    parser.onerror = (error) => {
+        throw new Error(`XMLTV syntax error: ${error.message.split('\n')[0]}`);
+    };
+
+    parser.onopentag = (node) => {
+        const attributes = { ...node.attributes } as Record<string, string>;
+        if ((node.name === 'programme' || node.name === 'channel') && stack.length === 0) {
+            rootName = node.name;
+            stack.push({ $: attributes });
+        } else if (stack.length > 0) {
+            const element = { $: attributes, _: '' };
+            const parent = stack[stack.length - 1];
+            (parent[node.name] ||= []).push(element);
+            stack.push(element);
+        }
+    };
+
+    parser.ontext = parser.oncdata = (text) => {
+        if (stack.length > 1) {
+            stack[stack.length - 1]._ += text;
+        }
+    };
+
+    parser.onclosetag = () => {
+        if (stack.length === 0) {
+            return;
+        }
+
+        const element = stack.pop();
+        if (stack.length > 0) {
+            return;
+        }
+
+        if (rootName === 'channel') {
+            const channel = parseChannelEntry(element);
+            if (channel) {
+                onChannel(channel);
+            }
+            return;
         }
 
-        // Debug first programme structure
-        const sampleProgramme = parsedXml.tv.programme[0];
-        logger.debug(`Sample programme structure: ${JSON.stringify(sampleProgramme).substring(0, 500)}...`);
-
-        for (const programme of parsedXml.tv.programme) {
-            try {
-                const parsedProgramme = parseProgrammeEntry(programme);
-                programmes.push(parsedProgramme);
-            } catch (error) {
-                const title = extractTextContent(programme.title?.[0]) || 'unknown';
-                logger.error(`Error parsing programme "${title}": ${error}`);
+        try {
+            const programme = parseProgrammeEntry(element);
+            batch.push(programme);
+            channels.add(programme.channel);
+            statistics.programmes++;
+
+            const start = new Date(programme.start);
+            if (!statistics.firstStart || start < statistics.firstStart) {
+                statistics.firstStart = start;
+            }
+            if (!statistics.lastStart || start > statistics.lastStart) {
+                statistics.lastStart = start;
+            }
+        } catch (error) {
+            statistics.failed++;
+            const title = extractTextContent(element.title?.[0]) || 'unknown';
+            logger.error(`Error parsing programme "${title}": ${error}`);
+            if (statistics.failures.length < MAX_FAILURE_SAMPLES) {
+                statistics.failures.push(`${title} (${element.$?.channel || 'no channel'}): ${(error as Error).message}`);
             }
         }
+    };
+
+    const stream = createReadStream(filePath, { encoding: 'utf8' });
+    for await (const chunk of stream) {
+        parser.write(chunk as string);
+        if (batch.length >= batchSize) {
+            await onBatch(batch);
+            batch = [];
+        }
+    }
+    parser.close();
+
+    if (batch.length > 0) {
+        await onBatch(batch);
+    }
+
+    statistics.channels = channels.size;
+    logProgrammeStatistics(statistics);
+
+    if (statistics.programmes === 0) {
+        logger.error('No programmes found in XMLTV file');
+    }
+    return statistics;
+}
 
-        logProgrammeStatistics(programmes);
-    } catch (error) {
-        logger.error(`Error parsing XMLTV: ${error}`);
+/**
+ * Parses a channel definition from XMLTV data.
+ * 
+ * @param {any} channel - Raw channel data from XMLTV
+ * @returns {EpgChannelEntry | null} - Structured channel entry or null if it has no ID
+ */
+function parseChannelEntry(channel: any): EpgChannelEntry | null {
+    const id = channel.$?.id?.trim();
+    if (!id) {
+        return null;
     }
-    return programmes;
+
+    const displayNames = (channel['display-name'] || [])
+        .map((element: any) => extractTextContent(element).trim())
+        .filter((name: string) => name);
+
+    return {
+        id,
+        display_names: displayNames,
+        icon: channel.icon?.[0]?.$?.src || undefined,
+        created_at: new Date().toISOString(),
+    };
 }
 
 /**
@@ -57,7 +172,10 @@ export async function parseXMLTV(filePath: string): Promise<ProgrammeEntry[]> {
 function parseProgrammeEntry(programme: any): ProgrammeEntry {
     const title = extractTextContent(programme.title?.[0]);
     const description = extractTextContent(programme.desc?.[0]);
-    const category = extractTextContent(programme.category?.[0]);
+    const categories: string[] = (programme.category || [])
+        .map((element: any) => extractTextContent(element).trim())
+        .filter((name: string) => name);
+    const category = categories[0] || '';
 
     const startStr = programme.$.start;
     const stopStr = programme.$.stop;
@@ -85,7 +203,99 @@ function parseProgrammeEntry(programme: any): ProgrammeEntry {
         description,
         category,
         created_at: new Date().toISOString(),
+        ...parseProgrammeMetadata(programme, categories),
+    };
+}
+
+/**
+ * Parses the optional metadata of a programme: episode numbering, ratings, poster and flags.
+ * Only fields present in the guide are returned, keeping the stored entries small.
+ * 
+ * @param {any} programme - Raw programme data from XMLTV
+ * @param {string[]} categories - Categories already parsed from the programme
+ * @returns {Partial<ProgrammeEntry>} - Metadata fields found in the programme
+ */
+function parseProgrammeMetadata(programme: any, categories: string[]): Partial<ProgrammeEntry> {
+    const metadata: Partial<ProgrammeEntry> = {
+        ...parseEpisodeNumber(programme['episode-num'] || []),
     };
+
+    const subTitle = extractTextContent(programme['sub-title']?.[0]).trim();
+    if (subTitle) {
+        metadata.sub_title = subTitle;
+    }
+
+    const rating = extractTextContent(programme.rating?.[0]?.value?.[0]).trim();
+    if (rating) {
+        metadata.rating = rating;
+    }
+
+    const starRating = extractTextContent(programme['star-rating']?.[0]?.value?.[0]).trim();
+    if (starRating) {
+        metadata.star_rating = starRating;
+    }
+
+    const icon = programme.icon?.[0]?.$?.src;
+    if (icon) {
+        metadata.icon = icon;
+    }
+
+    if (categories.length > 1) {
+        metadata.categories = categories;
+    }
+
+    if (programme.new) metadata.is_new = true;
+    if (programme.premiere) metadata.premiere = true;
+    if (programme['previously-shown']) metadata.previously_shown = true;
+    if (programme.live) metadata.live = true;
+
+    return metadata;
+}
+
+/**
+ * Parses the episode number of a programme.
+ * The zero-based xmltv_ns system is preferred, onscreen numbers are used as given when they cannot be parsed.
+ * 
+ * @param {any[]} elements - Raw episode-num elements
+ * @returns {Pick<ProgrammeEntry, 'episode_num' | 'season' | 'episode'>} - Season, episode and display form
+ */
+function parseEpisodeNumber(elements: any[]): Pick<ProgrammeEntry, 'episode_num' | 'season' | 'episode'> {
+    let season: number | undefined;
+    let episode: number | undefined;
+    let onscreen = '';
+
+    for (const element of elements) {
+        const system = element.$?.system?.toLowerCase() || 'onscreen';
+        const value = extractTextContent(element).trim();
+
+        if (system === 'xmltv_ns' && season === undefined && episode === undefined) {
+            // "season.episode.part", each zero-based and optionally followed by "/total"
+            const [seasonPart, episodePart] = value.split('.').map(part => part.split('/')[0]?.trim());
+            season = seasonPart ? parseInt(seasonPart) + 1 : undefined;
+            episode = episodePart ? parseInt(episodePart) + 1 : undefined;
+            if (Number.isNaN(season)) season = undefined;
+            if (Number.isNaN(episode)) episode = undefined;
+        } else if (system === 'onscreen' && !onscreen) {
+            onscreen = value;
+        }
+    }
+
+    if (season === undefined && episode === undefined && onscreen) {
+        const match = onscreen.match(/^S(\d+)\s*E(\d+)$/i) || onscreen.match(/^(\d+)x(\d+)$/i);
+        if (!match) {
+            return { episode_num: onscreen };
+        }
+        season = parseInt(match[1]!);
+        episode = parseInt(match[2]!);
+    }
+
+    if (season === undefined && episode === undefined) {
+        return {};
+    }
+
+    const pad = (value: number) => String(value).padStart(2, '0');
+    const episodeNum = (season !== undefined ? `S${pad(season)}` : '') + (episode !== undefined ? `E${pad(episode)}` : '');
+    return { episode_num: episodeNum, season, episode };
 }
 
 /**
@@ -111,18 +321,16 @@ function extractTextContent(element: any): string {
 /**
  * Logs statistics about the parsed programme data.
  * 
- * @param {ProgrammeEntry[]} programmes - Array of programme entries
+ * @param {XMLTVStatistics} statistics - Statistics collected while parsing
  */
-function logProgrammeStatistics(programmes: ProgrammeEntry[]): void {
-    // Add summary statistics
-    const channels = new Set(programmes.map(p => p.channel)).size;
-    logger.info(`Parsed ${programmes.length} programmes across ${channels} channels from XMLTV file`);
-
-    // Check for date range in the data
-    if (programmes.length > 0) {
-        const dates = programmes.map(p => new Date(p.start));
-        const minDate = new Date(Math.min(...dates.map(d => d.getTime())));
-        const maxDate = new Date(Math.max(...dates.map(d => d.getTime())));
-        logger.info(`Programme date range: ${minDate.toISOString()} to ${maxDate.toISOString()}`);
+function logProgrammeStatistics(statistics: XMLTVStatistics): void {
+    logger.info(`Parsed ${statistics.programmes} programmes across ${statistics.channels} channels from XMLTV file`);
+
+    if (statistics.failed > 0) {
+        logger.warn(`Failed to parse ${statistics.failed} programmes`);
+    }
+
+    if (statistics.firstStart && statistics.lastStart) {
+        logger.info(`Programme date range: ${statistics.firstStart.toISOString()} to ${statistics.lastStart.toISOString()}`);
     }
 }
@@ -0,0 +1,45 @@
+import type { ChannelEntry, PlaylistParseStatistics, PlaylistSource, ProgrammeEntry } from '../../../interfaces/iptv';
+
+/**
+ * Result of fetching the channels of a source
+ */
+export type ChannelFetchResult =
+    | { changed: true; channels: ChannelEntry[]; statistics?: PlaylistParseStatistics }
+    | { changed: false };
+
+/**
+ * Base class for IPTV providers that turn a playlist source into channel and programme entries
+ */
+export abstract class BaseProvider {
+    /**
+     * @param source - Playlist source this provider reads from
+     */
+    constructor(protected readonly source: PlaylistSource) { }
+
+    /**
+     * Name used for files cached by this provider
+     * @param suffix - Suffix identifying the cached content
+     * @returns Cache file name unique to the source
+     */
+    protected cacheFileName(suffix: string): string {
+        return `${this.source.type}-${this.source.name.replace(/[^\w-]/g, '_')}-${suffix}`;
+    }
+
+    /**
+     * Fetches the channels offered by the source
+     * @param force - Whether to ignore any cached content
+     * @param conditional - Whether the caller still has the previous channels, so an unchanged source can be skipped
+     * @returns Channel entries, an unchanged marker, or null if the source could not be read
+     */
+    public abstract fetchChannels(force: boolean, conditional: boolean): Promise<ChannelFetchResult | null>;
+
+    /**
+     * Fetches programme information for channels of this source.
+     * Providers without their own guide data return an empty list.
+     * @param channels - Channels previously fetched from this source
+     * @returns Programme entries for the given channels
+     */
+    public async fetchProgrammes(channels: ChannelEntry[]): Promise<ProgrammeEntry[]> {
+        return [];
+    }
+}
@@ -0,0 +1,22 @@
+import { BaseProvider } from './base';
+import { M3UProvider } from './m3u';
+import { XtreamProvider } from './xtream';
+import type { PlaylistSource } from '../../../interfaces/iptv';
+
+export { BaseProvider, type ChannelFetchResult } from './base';
+export { M3UProvider } from './m3u';
+export { XtreamProvider } from './xtream';
+
+/**
+ * Creates the provider matching the type of a playlist source
+ * @param source - Playlist source to read from
+ * @returns Provider instance for the source
+ */
+export function createProvider(source: PlaylistSource): BaseProvider {
+    switch (source.type) {
+        case 'xtream':
+            return new XtreamProvider(source);
+        default:
+            return new M3UProvider(source);
+    }
+}
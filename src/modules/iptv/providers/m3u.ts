@@ -0,0 +1,44 @@
+import { getLogger } from '../../../utils/logger';
+import { getCachedFile } from '../../../utils/cache';
+import { fetchWithRetry } from '../downloaders';
+import { createParseStatistics, parsePlaylist } from '../parsers/playlist-parser';
+import { BaseProvider, type ChannelFetchResult } from './base';
+
+const logger = getLogger();
+
+/**
+ * Provider for plain M3U playlists
+ */
+export class M3UProvider extends BaseProvider {
+    /**
+     * Downloads and parses the M3U playlist
+     * @param force - Whether to ignore a cached copy of the playlist
+     * @param conditional - Whether to skip parsing when the playlist did not change
+     * @returns Channel entries, an unchanged marker, or null if the playlist could not be fetched
+     */
+    public async fetchChannels(force: boolean, conditional: boolean): Promise<ChannelFetchResult | null> {
+        const cacheFileName = this.cacheFileName('playlist.m3u');
+        let playlistContent: Buffer | null = null;
+
+        if (!force) {
+            playlistContent = await getCachedFile(cacheFileName);
+        }
+
+        if (!playlistContent) {
+            logger.info(`Fetching playlist source "${this.source.name}"...`);
+            const download = await fetchWithRetry(this.source.url, cacheFileName, conditional);
+            if (download && conditional && !download.changed) {
+                return { changed: false };
+            }
+            playlistContent = download?.content || null;
+        }
+
+        if (!playlistContent) {
+            return null;
+        }
+
+        const statistics = createParseStatistics();
+        const channels = parsePlaylist(playlistContent.toString(), this.source.name, statistics);
+        return { changed: true, channels, statistics };
+    }
+}
@@ -0,0 +1,143 @@
+import { afterAll, beforeAll, describe, expect, test } from 'bun:test';
+import type { Server } from 'bun';
+import { XtreamProvider } from './xtream';
+import type { ChannelEntry, PlaylistSource } from '../../../interfaces/iptv';
+
+const categories = [
+    { category_id: '1', category_name: 'UK: | Sports' },
+];
+
+const streams = [
+    { stream_id: 101, name: ' Sports One ', stream_icon: 'http://logos/one.png', epg_channel_id: 'sports1.uk', category_id: '1', tv_archive: 1, tv_archive_duration: '3' },
+    { stream_id: '102', name: 'No Guide', epg_channel_id: null, category_id: '1' },
+    { stream_id: 103, name: '' },
+];
+
+const listings = [
+    { title: btoa('Match'), description: btoa('Live match'), start_timestamp: '1767261600', stop_timestamp: '1767268800' },
+    { title: btoa('Broken'), start_timestamp: 'later', stop_timestamp: '1767272400' },
+];
+
+let server: Server;
+let requests: URLSearchParams[] = [];
+
+/**
+ * Answers player_api.php requests the way an Xtream Codes server does
+ */
+function playerApi(request: Request): Response {
+    const url = new URL(request.url);
+    if (url.pathname !== '/player_api.php') {
+        return new Response('Not found', { status: 404 });
+    }
+    requests.push(url.searchParams);
+    if (url.searchParams.get('username') !== 'user' || url.searchParams.get('password') !== 'secret') {
+        return Response.json({ user_info: { auth: 0 } });
+    }
+
+    switch (url.searchParams.get('action')) {
+        case 'get_live_categories':
+            return Response.json(categories);
+        case 'get_live_streams':
+            return Response.json(streams);
+        case 'get_short_epg':
+            return Response.json({ epg_listings: url.searchParams.get('stream_id') === '101' ? listings : [] });
+        default:
+            return Response.json([]);
+    }
+}
+
+function createSource(overrides: Partial<PlaylistSource> = {}): PlaylistSource {
+    return {
+        name: `xtream-test-${Date.now()}`,
+        type: 'xtream',
+        url: `http://localhost:${server.port}/player_api.php`,
+        priority: 0,
+        refresh: 60,
+        username: 'user',
+        password: 'secret',
+        epg: true,
+        ...overrides,
+    };
+}
+
+beforeAll(() => {
+    server = Bun.serve({ port: 0, fetch: playerApi });
+});
+
+afterAll(() => {
+    server.stop(true);
+});
+
+describe('XtreamProvider', () => {
+    test('fetchChannels maps live streams to channels', async () => {
+        requests = [];
+        const result = await new XtreamProvider(createSource()).fetchChannels(false, false);
+
+        expect(result?.changed).toBe(true);
+        if (!result?.changed) {
+            return;
+        }
+        expect(result.channels).toHaveLength(2);
+        expect(result.statistics?.skipped).toBe(1);
+
+        const [sports, noGuide] = result.channels;
+        expect(sports).toMatchObject({
+            xui_id: 101,
+            tvg_id: 'sports1.uk',
+            tvg_name: 'Sports One',
+            tvg_logo: 'http://logos/one.png',
+            group_title: 'UK: | Sports',
+            country: 'UK',
+            url: `http://localhost:${server.port}/live/user/secret/101.ts`,
+            catchup: 'xc',
+            catchup_days: 3,
+        });
+        expect(noGuide).toMatchObject({ xui_id: 102, tvg_id: '', catchup: undefined });
+        expect(requests.map(params => params.get('action'))).toEqual(['get_live_categories', 'get_live_streams']);
+    });
+
+    test('fetchChannels reports unchanged responses for conditional fetches', async () => {
+        const provider = new XtreamProvider(createSource());
+        await provider.fetchChannels(false, true);
+
+        expect(await provider.fetchChannels(false, true)).toEqual({ changed: false });
+    });
+
+    test('fetchChannels returns null when the streams cannot be fetched', async () => {
+        const result = await new XtreamProvider(createSource({ password: 'wrong' })).fetchChannels(false, false);
+
+        expect(result).toBeNull();
+    });
+
+    test('fetchProgrammes decodes the short EPG of channels with a guide ID', async () => {
+        const provider = new XtreamProvider(createSource());
+        const result = await provider.fetchChannels(false, false);
+        const channels = result?.changed ? result.channels : [];
+
+        requests = [];
+        const programmes = await provider.fetchProgrammes(channels);
+
+        expect(programmes).toHaveLength(1);
+        expect(programmes[0]).toMatchObject({
+            channel: 'sports1.uk',
+            title: 'Match',
+            description: 'Live match',
+            start_timestamp: 1767261600,
+            stop_timestamp: 1767268800,
+            start: '2026-01-01T10:00:00.000Z',
+        });
+        // Streams without an EPG channel ID have no tvg_id to attach programmes to
+        expect(requests.map(params => params.get('stream_id'))).toEqual(['101']);
+        expect(requests[0]?.get('limit')).toBe('10');
+    });
+
+    test('fetchProgrammes skips the short EPG unless it is enabled', async () => {
+        const provider = new XtreamProvider(createSource({ epg: false }));
+
+        const channel: ChannelEntry = { xui_id: 101, tvg_id: 'sports1.uk', tvg_name: 'Sports One', url: '' };
+
+        requests = [];
+        expect(await provider.fetchProgrammes([channel])).toEqual([]);
+        expect(requests).toHaveLength(0);
+    });
+});
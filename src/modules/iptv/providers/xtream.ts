@@ -0,0 +1,248 @@
+import axios from 'axios';
+import { getLogger } from '../../../utils/logger';
+import { fetchWithRetry } from '../downloaders';
+import { createParseStatistics, skipEntry } from '../parsers/playlist-parser';
+import { BaseProvider, type ChannelFetchResult } from './base';
+import type { ChannelEntry, ProgrammeEntry } from '../../../interfaces/iptv';
+
+const logger = getLogger();
+
+/**
+ * Live category as returned by the Xtream Codes API
+ */
+interface XtreamCategory {
+    category_id: string;
+    category_name: string;
+}
+
+/**
+ * Live stream as returned by the Xtream Codes API
+ */
+interface XtreamStream {
+    stream_id: number | string;
+    name: string;
+    stream_icon?: string;
+    epg_channel_id?: string | null;
+    category_id?: string | null;
+    tv_archive?: number | string;
+    tv_archive_duration?: number | string;
+}
+
+/**
+ * EPG listing as returned by the get_short_epg action, title and description are base64 encoded
+ */
+interface XtreamEpgListing {
+    title: string;
+    description?: string;
+    start_timestamp: string | number;
+    stop_timestamp: string | number;
+}
+
+/**
+ * Provider for servers exposing the Xtream Codes player API
+ */
+export class XtreamProvider extends BaseProvider {
+    /**
+     * Number of short EPG requests sent in parallel
+     */
+    private static readonly EPG_CONCURRENCY = 4;
+
+    /**
+     * Number of listings requested per channel from the short EPG
+     */
+    private static readonly EPG_LIMIT = 10;
+
+    /**
+     * Builds the player API URL for an action
+     * @param action - API action to call
+     * @param params - Additional query parameters
+     * @returns Full player API URL
+     */
+    private apiUrl(action: string, params: Record<string, string | number> = {}): string {
+        const url = new URL('player_api.php', this.baseUrl() + '/');
+        url.searchParams.set('username', this.source.username || '');
+        url.searchParams.set('password', this.source.password || '');
+        url.searchParams.set('action', action);
+        for (const [key, value] of Object.entries(params)) {
+            url.searchParams.set(key, String(value));
+        }
+        return url.toString();
+    }
+
+    /**
+     * Server base URL without trailing slashes or a player_api.php suffix
+     * @returns Base URL of the Xtream server
+     */
+    private baseUrl(): string {
+        return this.source.url.replace(/\/player_api\.php.*$/, '').replace(/\/+$/, '');
+    }
+
+    /**
+     * Fetches and parses a JSON list from the player API
+     * @param action - API action to call
+     * @returns Parsed list and whether it changed since the last request, or null if the request failed
+     */
+    private async fetchList<T>(action: string): Promise<{ items: T[]; changed: boolean } | null> {
+        const download = await fetchWithRetry(this.apiUrl(action), this.cacheFileName(`${action}.json`));
+        if (!download?.content) {
+            return null;
+        }
+
+        try {
+            const data = JSON.parse(download.content.toString());
+            if (!Array.isArray(data)) {
+                logger.error(`Unexpected response for ${action} from Xtream source "${this.source.name}"`);
+                return null;
+            }
+            return { items: data as T[], changed: download.changed };
+        } catch (error) {
+            logger.error(`Error parsing ${action} response from Xtream source "${this.source.name}": ${error}`);
+            return null;
+        }
+    }
+
+    /**
+     * Fetches the live streams and categories from the player API.
+     * The API rarely supports conditional requests, so unchanged responses are detected by their content hash.
+     * @param force - Unused, the API is always queried
+     * @param conditional - Whether to skip parsing when neither streams nor categories changed
+     * @returns Channel entries, an unchanged marker, or null if the streams could not be fetched
+     */
+    public async fetchChannels(force: boolean, conditional: boolean): Promise<ChannelFetchResult | null> {
+        logger.info(`Fetching live streams from Xtream source "${this.source.name}"...`);
+
+        const categories = await this.fetchList<XtreamCategory>('get_live_categories');
+        const streams = await this.fetchList<XtreamStream>('get_live_streams');
+
+        if (!streams) {
+            return null;
+        }
+
+        if (conditional && categories && !categories.changed && !streams.changed) {
+            return { changed: false };
+        }
+
+        const categoryNames = new Map((categories?.items || []).map(category => [String(category.category_id), category.category_name]));
+        const createdAt = new Date().toISOString();
+        const statistics = createParseStatistics();
+
+        const channels = streams.items
+            .filter(stream => {
+                const valid = !!stream.name && stream.stream_id !== undefined;
+                if (!valid) {
+                    skipEntry(statistics, 'missing name or stream ID', JSON.stringify(stream));
+                }
+                return valid;
+            })
+            .map(stream => {
+                const groupTitle = categoryNames.get(String(stream.category_id)) || '';
+                const [prefix] = groupTitle.split(': |');
+                const archiveDays = Number(stream.tv_archive_duration) || 0;
+                const hasArchive = Number(stream.tv_archive) === 1 && archiveDays > 0;
+                return {
+                    xui_id: parseInt(String(stream.stream_id)) || 0,
+                    tvg_id: stream.epg_channel_id || '',
+                    tvg_name: stream.name.trim(),
+                    tvg_logo: stream.stream_icon || '',
+                    group_title: groupTitle,
+                    url: this.streamUrl(stream.stream_id),
+                    created_at: createdAt,
+                    country: prefix,
+                    source: this.source.name,
+                    catchup: hasArchive ? 'xc' as const : undefined,
+                    catchup_days: hasArchive ? archiveDays : undefined,
+                };
+            });
+
+        statistics.parsed = channels.length;
+        return { changed: true, channels, statistics };
+    }
+
+    /**
+     * Builds the playback URL of a live stream
+     * @param streamId - Xtream stream ID
+     * @returns Stream URL
+     */
+    private streamUrl(streamId: number | string): string {
+        const username = encodeURIComponent(this.source.username || '');
+        const password = encodeURIComponent(this.source.password || '');
+        return `${this.baseUrl()}/live/${username}/${password}/${streamId}.${this.source.output || 'ts'}`;
+    }
+
+    /**
+     * Fetches the short EPG for each channel of this source, if enabled for the source
+     * @param channels - Channels previously fetched from this source
+     * @returns Programme entries for the given channels
+     */
+    public async fetchProgrammes(channels: ChannelEntry[]): Promise<ProgrammeEntry[]> {
+        if (!this.source.epg) {
+            return [];
+        }
+
+        logger.info(`Fetching short EPG for ${channels.length} channels from Xtream source "${this.source.name}"...`);
+
+        const programmes: ProgrammeEntry[] = [];
+        for (let i = 0; i < channels.length; i += XtreamProvider.EPG_CONCURRENCY) {
+            const chunk = channels.slice(i, i + XtreamProvider.EPG_CONCURRENCY);
+            const results = await Promise.all(chunk.map(channel => this.fetchShortEpg(channel)));
+            results.forEach(result => programmes.push(...result));
+        }
+
+        logger.info(`Fetched ${programmes.length} programmes from Xtream source "${this.source.name}"`);
+        return programmes;
+    }
+
+    /**
+     * Fetches the short EPG of a single channel
+     * @param channel - Channel to fetch programmes for
+     * @returns Programme entries, empty if the request failed
+     */
+    private async fetchShortEpg(channel: ChannelEntry): Promise<ProgrammeEntry[]> {
+        if (!channel.xui_id || !channel.tvg_id) {
+            return [];
+        }
+
+        try {
+            const response = await axios.get(this.apiUrl('get_short_epg', {
+                stream_id: channel.xui_id,
+                limit: XtreamProvider.EPG_LIMIT
+            }), { timeout: 30000 });
+
+            const listings: XtreamEpgListing[] = response.data?.epg_listings || [];
+            const createdAt = new Date().toISOString();
+
+            // Listings with invalid times are dropped first, converting them would throw
+            const valid = listings.filter(listing =>
+                Number.isFinite(Number(listing.start_timestamp)) && Number.isFinite(Number(listing.stop_timestamp)));
+
+            return valid.map(listing => {
+                const start = new Date(Number(listing.start_timestamp) * 1000);
+                const stop = new Date(Number(listing.stop_timestamp) * 1000);
+                return {
+                    start: start.toISOString(),
+                    stop: stop.toISOString(),
+                    start_timestamp: Math.floor(start.getTime() / 1000),
+                    stop_timestamp: Math.floor(stop.getTime() / 1000),
+                    channel: channel.tvg_id!,
+                    title: decodeBase64(listing.title),
+                    description: decodeBase64(listing.description),
+                    category: '',
+                    created_at: createdAt,
+                    source: this.source.name,
+                };
+            });
+        } catch (error) {
+            logger.debug(`Error fetching short EPG for ${channel.tvg_name}: ${error instanceof Error ? error.message : error}`);
+            return [];
+        }
+    }
+}
+
+/**
+ * Decodes a base64 encoded string from the Xtream Codes API
+ * @param value - Base64 encoded value
+ * @returns Decoded string or empty string if missing
+ */
+function decodeBase64(value: string | undefined): string {
+    return value ? Buffer.from(value, 'base64').toString('utf8') : '';
+}
@@ -0,0 +1,125 @@
+import { getLogger } from '../../utils/logger';
+import { countProgrammes, getChannelEntries, getEpgChannelId, getEpgChannels, getProgrammeChannelIds, getProgrammeStartRange, updateIngestReport } from '../database';
+import type { ChannelEntry, ChannelIngestReport, IngestStatus, ProgrammeEntry, ProgrammeIngestReport, SourceIngestReport } from '../../interfaces/iptv';
+
+const logger = getLogger();
+
+/**
+ * Number of names kept as samples in the report lists
+ */
+const MAX_REPORT_NAMES = 20;
+
+/**
+ * Stores the report of a channel refresh.
+ *
+ * @param {IngestStatus} status - Outcome of the refresh
+ * @param {SourceIngestReport[]} sources - Reports of the playlist sources
+ * @param {ChannelEntry[]} channels - Channels after merging and applying the rules
+ * @param {string[]} duplicateNames - Names of the collapsed duplicate channels
+ * @returns {Promise<ChannelIngestReport>} - Stored report
+ */
+export async function reportChannels(
+    status: IngestStatus,
+    sources: SourceIngestReport[],
+    channels: ChannelEntry[],
+    duplicateNames: string[]
+): Promise<ChannelIngestReport> {
+    const report: ChannelIngestReport = {
+        finished_at: new Date().toISOString(),
+        status,
+        sources,
+        total: channels.length,
+        duplicates: duplicateNames.length,
+        duplicate_names: [...new Set(duplicateNames)].slice(0, MAX_REPORT_NAMES),
+        without_tvg_id: channels.filter(channel => !channel.tvg_id).length,
+    };
+
+    await updateIngestReport({ channels: report });
+    return report;
+}
+
+/**
+ * Stores the report of a programme refresh.
+ *
+ * @param {IngestStatus} status - Outcome of the refresh
+ * @param {Omit<ProgrammeIngestReport, 'finished_at' | 'status'>} details - Counts and time range of the parsed programmes
+ * @returns {Promise<ProgrammeIngestReport>} - Stored report
+ */
+export async function reportProgrammes(
+    status: IngestStatus,
+    details: Omit<ProgrammeIngestReport, 'finished_at' | 'status'>
+): Promise<ProgrammeIngestReport> {
+    const report: ProgrammeIngestReport = {
+        finished_at: new Date().toISOString(),
+        status,
+        ...details,
+        failures: details.failures.slice(0, MAX_REPORT_NAMES),
+    };
+
+    await updateIngestReport({ programmes: report });
+    return report;
+}
+
+/**
+ * Stores the report of a programme refresh that kept the stored programmes because the guide did not change.
+ *
+ * @returns {Promise<ProgrammeIngestReport>} - Stored report
+ */
+export async function reportUnchangedProgrammes(): Promise<ProgrammeIngestReport> {
+    const range = await getProgrammeStartRange();
+    return reportProgrammes('unchanged', {
+        total: await countProgrammes(),
+        failed: 0,
+        failures: [],
+        ...(range ? { first_start: new Date(range.first * 1000).toISOString(), last_start: new Date(range.last * 1000).toISOString() } : {}),
+        epg_channels: (await getEpgChannels()).length,
+    });
+}
+
+/**
+ * Widens a start time range so it covers the given programmes
+ *
+ * @param {Pick<ProgrammeIngestReport, 'first_start' | 'last_start'>} range - Range so far, empty for none
+ * @param {ProgrammeEntry[]} programmes - Programmes to cover
+ * @returns {Pick<ProgrammeIngestReport, 'first_start' | 'last_start'>} - Range with ISO start times
+ */
+export function extendStartRange(
+    range: Pick<ProgrammeIngestReport, 'first_start' | 'last_start'>,
+    programmes: ProgrammeEntry[]
+): Pick<ProgrammeIngestReport, 'first_start' | 'last_start'> {
+    let first = range.first_start ? Date.parse(range.first_start) : Infinity;
+    let last = range.last_start ? Date.parse(range.last_start) : -Infinity;
+    for (const programme of programmes) {
+        first = Math.min(first, programme.start_timestamp * 1000);
+        last = Math.max(last, programme.start_timestamp * 1000);
+    }
+
+    return Number.isFinite(first)
+        ? { first_start: new Date(first).toISOString(), last_start: new Date(last).toISOString() }
+        : {};
+}
+
+/**
+ * Recomputes and stores how many of the stored channels have programmes.
+ *
+ * @returns {Promise<void>}
+ */
+export async function reportEpgCoverage(): Promise<void> {
+    const channels = await getChannelEntries();
+    const programmeChannels = await getProgrammeChannelIds();
+
+    const withoutProgrammes = channels.filter(channel => {
+        const epgId = getEpgChannelId(channel);
+        return !epgId || !programmeChannels.has(epgId);
+    });
+
+    logger.info(`${channels.length - withoutProgrammes.length} of ${channels.length} channels have programmes`);
+    await updateIngestReport({
+        coverage: {
+            computed_at: new Date().toISOString(),
+            channels: channels.length,
+            without_programmes: withoutProgrammes.length,
+            without_programmes_names: withoutProgrammes.slice(0, MAX_REPORT_NAMES).map(channel => channel.tvg_name || 'Unknown'),
+        }
+    });
+}
@@ -0,0 +1,119 @@
+import { describe, expect, test } from 'bun:test';
+import { writeFileSync } from 'fs';
+import { applyChannelRules, loadChannelRules } from './rules';
+import type { ChannelEntry, ChannelRules } from '../../interfaces/iptv';
+
+// CHANNEL_RULES points at a temporary file, see test-setup.ts
+const rulesFile = process.env.CHANNEL_RULES!;
+
+const channels: ChannelEntry[] = [
+    { xui_id: 1, tvg_name: 'UK: BBC One HD', group_title: 'UK | General', country: 'UK', url: 'http://streams/1' },
+    { xui_id: 2, tvg_name: 'UK: Sky Sports', group_title: 'UK | Sports', country: 'UK', url: 'http://streams/2' },
+    { xui_id: 3, tvg_name: 'DE: ZDF', group_title: 'DE | General', country: 'DE', url: 'http://streams/3' },
+    { xui_id: 4, tvg_name: 'XXX Adult', group_title: 'Adult', url: 'http://streams/4' },
+];
+
+function createRules(overrides: Partial<ChannelRules> = {}): ChannelRules {
+    return { include: [], exclude: [], rename: [], sort: [], numbers: [], ...overrides };
+}
+
+const names = (result: { channels: ChannelEntry[] }) => result.channels.map(channel => channel.tvg_name);
+
+describe('applyChannelRules', () => {
+    test('include keeps channels matching any rule and exclude drops them', () => {
+        const result = applyChannelRules(channels, createRules({
+            include: [{ country: '^uk$' }, { group: 'general' }],
+            exclude: [{ name: 'sports' }],
+        }));
+
+        expect(names(result)).toEqual(['UK: BBC One HD', 'DE: ZDF']);
+        expect(result.statistics).toEqual([
+            { stage: 'include', rule: 'country=/^uk$/', matched: 2 },
+            { stage: 'include', rule: 'group=/general/', matched: 2 },
+            { stage: 'exclude', rule: 'name=/sports/', matched: 1 },
+        ]);
+    });
+
+    test('matchers need every field to match', () => {
+        const result = applyChannelRules(channels, createRules({ exclude: [{ country: 'UK', group: 'Sports' }] }));
+
+        expect(names(result)).toEqual(['UK: BBC One HD', 'DE: ZDF', 'XXX Adult']);
+    });
+
+    test('rename replaces patterns or sets fixed names without changing the input', () => {
+        const result = applyChannelRules(channels, createRules({
+            rename: [
+                { pattern: '^[A-Z]{2}: ', replace: '' },
+                { name: 'bbc one', to: 'BBC One' },
+                { pattern: '\\s*HD$' },
+            ],
+        }));
+
+        expect(names(result)).toEqual(['BBC One', 'Sky Sports', 'ZDF', 'XXX Adult']);
+        expect(result.statistics.map(statistic => statistic.matched)).toEqual([3, 1, 0]);
+        expect(channels[0]!.tvg_name).toBe('UK: BBC One HD');
+    });
+
+    test('rename keeps the name when the result would be empty', () => {
+        const result = applyChannelRules(channels, createRules({ rename: [{ name: 'ZDF', pattern: '.*' }] }));
+
+        expect(result.channels[2]!.tvg_name).toBe('DE: ZDF');
+        expect(result.statistics[0]!.matched).toBe(0);
+    });
+
+    test('sort moves matching channels first in rule order and numbers the renamed channels', () => {
+        const result = applyChannelRules(channels, createRules({
+            rename: [{ name: 'ZDF', to: 'ZDF Deutschland' }],
+            sort: [{ country: 'DE' }, { group: 'Sports' }],
+            numbers: [{ name: 'deutschland', start: 101 }, { country: 'UK', start: 1 }],
+        }));
+
+        expect(names(result)).toEqual(['ZDF Deutschland', 'UK: Sky Sports', 'UK: BBC One HD', 'XXX Adult']);
+        expect(result.channels.map(channel => channel.tvg_chno)).toEqual([101, 1, 2, undefined]);
+        expect(result.statistics.filter(statistic => statistic.stage === 'numbers').map(statistic => statistic.matched)).toEqual([1, 2]);
+    });
+
+    test('no rules keep the channels as they are', () => {
+        const result = applyChannelRules(channels, createRules());
+
+        expect(result.channels).toEqual(channels);
+        expect(result.statistics).toEqual([]);
+    });
+});
+
+describe('loadChannelRules', () => {
+    test('loads valid rules and skips invalid ones', async () => {
+        writeFileSync(rulesFile, JSON.stringify({
+            include: [{ group: '^UK' }, { group: '(' }, { to: 'no matcher' }],
+            exclude: 'not a list',
+            rename: [{ name: 'BBC' }, { pattern: '^UK: ' }],
+            numbers: [{ start: 1 }, { name: 'x' }],
+        }));
+
+        const loaded = await loadChannelRules();
+
+        expect(loaded?.rules).toEqual({
+            include: [{ group: '^UK' }],
+            exclude: [],
+            rename: [{ pattern: '^UK: ' }],
+            sort: [],
+            numbers: [{ start: 1 }],
+        });
+        expect(loaded?.hash).toMatch(/^[0-9a-f]{64}$/);
+    });
+
+    test('the hash changes with the file contents', async () => {
+        writeFileSync(rulesFile, '{"include":[]}');
+        const first = await loadChannelRules();
+        writeFileSync(rulesFile, '{"include": []}');
+        const second = await loadChannelRules();
+
+        expect(first?.hash).not.toBe(second?.hash);
+    });
+
+    test('throws when the file is not valid JSON', async () => {
+        writeFileSync(rulesFile, '{ include: [');
+
+        await expect(loadChannelRules()).rejects.toThrow('Error loading channel rules');
+    });
+});
@@ -0,0 +1,265 @@
+import { promises as fs } from 'fs';
+import { createHash } from 'crypto';
+import { getLogger } from '../../utils/logger';
+import { config } from '../../utils/config';
+import { getSourceSnapshot } from '../database';
+import { mergeChannelSources } from './sources';
+import type { ChannelEntry, ChannelNumberRule, ChannelRenameRule, ChannelRuleMatcher, ChannelRules } from '../../interfaces/iptv';
+
+const logger = getLogger();
+
+/**
+ * Number of channels a single rule affected
+ */
+export interface ChannelRuleStatistic {
+    stage: keyof ChannelRules;
+    rule: string;
+    matched: number;
+}
+
+/**
+ * Channels after applying the rules, with per-rule statistics
+ */
+export interface ChannelRulesResult {
+    channels: ChannelEntry[];
+    statistics: ChannelRuleStatistic[];
+}
+
+/**
+ * Rules file contents together with a hash to detect changes
+ */
+export interface LoadedChannelRules {
+    rules: ChannelRules;
+    hash: string;
+}
+
+const MATCHER_FIELDS = ['group', 'country', 'name'] as const;
+
+/**
+ * Loads the channel rules from the file set in CHANNEL_RULES.
+ * The file is read on every call, so edits apply on the next refresh. Invalid rules are skipped with a warning.
+ *
+ * @returns {Promise<LoadedChannelRules | null>} - Rules and their hash, or null if no rules file is configured
+ * @throws {Error} - If the rules file cannot be read or is not valid JSON
+ */
+export async function loadChannelRules(): Promise<LoadedChannelRules | null> {
+    if (!config.CHANNEL_RULES) {
+        return null;
+    }
+
+    let content: string;
+    let raw: any;
+    try {
+        content = await fs.readFile(config.CHANNEL_RULES, 'utf8');
+        raw = JSON.parse(content);
+    } catch (error) {
+        throw new Error(`Error loading channel rules from ${config.CHANNEL_RULES}: ${error}`);
+    }
+
+    const list = (key: keyof ChannelRules): any[] => Array.isArray(raw?.[key]) ? raw[key] : [];
+
+    const rules: ChannelRules = {
+        include: list('include').filter(rule => isValidRule('include', rule)),
+        exclude: list('exclude').filter(rule => isValidRule('exclude', rule)),
+        rename: list('rename').filter(rule => isValidRule('rename', rule)),
+        sort: list('sort').filter(rule => isValidRule('sort', rule)),
+        numbers: list('numbers').filter(rule => isValidRule('numbers', rule)),
+    };
+
+    return { rules, hash: createHash('sha256').update(content).digest('hex') };
+}
+
+/**
+ * Checks that a rule has valid regular expressions and the fields its stage needs
+ *
+ * @param {keyof ChannelRules} stage - Stage the rule belongs to
+ * @param {any} rule - Rule from the rules file
+ * @returns {boolean} - True if the rule can be applied
+ */
+function isValidRule(stage: keyof ChannelRules, rule: any): boolean {
+    try {
+        if (typeof rule !== 'object' || rule === null) {
+            throw new Error('rule is not an object');
+        }
+        compileMatcher(rule);
+        if (stage === 'rename') {
+            if (typeof rule.to !== 'string' && typeof rule.pattern !== 'string') {
+                throw new Error('rename rules need "to" or "pattern"');
+            }
+            if (typeof rule.pattern === 'string') {
+                new RegExp(rule.pattern, 'gi');
+            }
+        }
+        if (stage === 'numbers' && !Number.isFinite(rule.start)) {
+            throw new Error('number rules need a numeric "start"');
+        }
+        if (stage !== 'rename' && stage !== 'numbers' && !MATCHER_FIELDS.some(field => typeof rule[field] === 'string')) {
+            throw new Error('rule needs "group", "country" or "name"');
+        }
+        return true;
+    } catch (error) {
+        logger.warn(`Skipping ${stage} rule ${JSON.stringify(rule)}: ${(error as Error).message}`);
+        return false;
+    }
+}
+
+/**
+ * Compiles a matcher into a predicate. Expressions are case-insensitive and a matcher without fields matches every channel.
+ *
+ * @param {ChannelRuleMatcher} rule - Fields to match
+ * @returns {(channel: ChannelEntry) => boolean} - Predicate that is true when all fields match
+ * @throws {SyntaxError} - If an expression is invalid
+ */
+function compileMatcher(rule: ChannelRuleMatcher): (channel: ChannelEntry) => boolean {
+    const values: Record<typeof MATCHER_FIELDS[number], (channel: ChannelEntry) => string> = {
+        group: channel => channel.group_title || '',
+        country: channel => channel.country || '',
+        name: channel => channel.tvg_name || '',
+    };
+
+    const tests = MATCHER_FIELDS
+        .filter(field => typeof rule[field] === 'string')
+        .map(field => {
+            const expression = new RegExp(rule[field]!, 'i');
+            return (channel: ChannelEntry) => expression.test(values[field](channel));
+        });
+
+    return channel => tests.every(test => test(channel));
+}
+
+/**
+ * Describes a rule for logs and previews, e.g. "group=/^UK/ → BBC One"
+ *
+ * @param {ChannelRuleMatcher & Partial<ChannelRenameRule & ChannelNumberRule>} rule - Rule to describe
+ * @returns {string} - Short description
+ */
+function describeRule(rule: ChannelRuleMatcher & Partial<ChannelRenameRule & ChannelNumberRule>): string {
+    const parts = MATCHER_FIELDS
+        .filter(field => typeof rule[field] === 'string')
+        .map(field => `${field}=/${rule[field]}/`);
+
+    if (rule.to !== undefined) parts.push(`→ "${rule.to}"`);
+    if (rule.pattern !== undefined) parts.push(`s/${rule.pattern}/${rule.replace || ''}/`);
+    if (rule.start !== undefined) parts.push(`from ${rule.start}`);
+
+    return parts.join(' ') || 'all channels';
+}
+
+/**
+ * Applies the channel rules: include, exclude, rename, sort and numbers, in that order.
+ * Include and exclude rules match the names from the playlist, sort and number rules match the renamed channels.
+ *
+ * @param {ChannelEntry[]} channels - Merged channel list
+ * @param {ChannelRules} rules - Rules to apply
+ * @returns {ChannelRulesResult} - Remaining channels and how many channels each rule affected
+ */
+export function applyChannelRules(channels: ChannelEntry[], rules: ChannelRules): ChannelRulesResult {
+    const statistics: ChannelRuleStatistic[] = [];
+    let result = channels;
+
+    const countMatches = (stage: keyof ChannelRules, ruleList: ChannelRuleMatcher[]) => {
+        const matchers = ruleList.map(compileMatcher);
+        const counts = ruleList.map(() => 0);
+        const matches = (channel: ChannelEntry) => {
+            let matched = false;
+            matchers.forEach((matcher, index) => {
+                if (matcher(channel)) {
+                    counts[index]!++;
+                    matched = true;
+                }
+            });
+            return matched;
+        };
+        const record = () => ruleList.forEach((rule, index) =>
+            statistics.push({ stage, rule: describeRule(rule), matched: counts[index]! }));
+        return { matches, record };
+    };
+
+    if (rules.include.length > 0) {
+        const { matches, record } = countMatches('include', rules.include);
+        result = result.filter(matches);
+        record();
+    }
+
+    if (rules.exclude.length > 0) {
+        const { matches, record } = countMatches('exclude', rules.exclude);
+        result = result.filter(channel => !matches(channel));
+        record();
+    }
+
+    // Channels are copied before renaming so the input list stays untouched
+    result = result.map(channel => ({ ...channel }));
+
+    for (const rule of rules.rename) {
+        const matcher = compileMatcher(rule);
+        const pattern = rule.pattern !== undefined ? new RegExp(rule.pattern, 'gi') : null;
+        let renamed = 0;
+
+        for (const channel of result) {
+            const name = channel.tvg_name || '';
+            if (!matcher(channel)) {
+                continue;
+            }
+            const newName = (rule.to ?? name.replace(pattern!, rule.replace ?? '')).trim();
+            if (newName && newName !== name) {
+                channel.tvg_name = newName;
+                renamed++;
+            }
+        }
+        statistics.push({ stage: 'rename', rule: describeRule(rule), matched: renamed });
+    }
+
+    if (rules.sort.length > 0) {
+        const matchers = rules.sort.map(compileMatcher);
+        const counts = rules.sort.map(() => 0);
+        const ranks = new Map<ChannelEntry, number>();
+        for (const channel of result) {
+            const rank = matchers.findIndex(matcher => matcher(channel));
+            ranks.set(channel, rank === -1 ? matchers.length : rank);
+            if (rank !== -1) {
+                counts[rank]!++;
+            }
+        }
+        result.sort((a, b) => ranks.get(a)! - ranks.get(b)!);
+        rules.sort.forEach((rule, index) => statistics.push({ stage: 'sort', rule: describeRule(rule), matched: counts[index]! }));
+    }
+
+    for (const rule of rules.numbers) {
+        const matcher = compileMatcher(rule);
+        let number = rule.start;
+        for (const channel of result) {
+            if (matcher(channel)) {
+                channel.tvg_chno = number++;
+            }
+        }
+        statistics.push({ stage: 'numbers', rule: describeRule(rule), matched: number - rule.start });
+    }
+
+    logger.info(`Channel rules kept ${result.length} of ${channels.length} channels`);
+    for (const statistic of statistics) {
+        logger.debug(`Channel rule ${statistic.stage} ${statistic.rule}: ${statistic.matched} channels`);
+    }
+
+    return { channels: result, statistics };
+}
+
+/**
+ * Applies the current rules file to the stored playlist snapshots without changing the channel database.
+ *
+ * @returns {Promise<(ChannelRulesResult & { total: number }) | null>} - Resulting channels, statistics and the channel count before the rules, or null if no rules are configured
+ * @throws {Error} - If the rules file cannot be read or is not valid JSON
+ */
+export async function previewChannelRules(): Promise<(ChannelRulesResult & { total: number }) | null> {
+    const loaded = await loadChannelRules();
+    if (!loaded) {
+        return null;
+    }
+
+    const channelsBySource = new Map<string, ChannelEntry[]>();
+    for (const source of config.PLAYLIST_SOURCES) {
+        channelsBySource.set(source.name, (await getSourceSnapshot(source.name))?.channels || []);
+    }
+
+    const merged = mergeChannelSources(config.PLAYLIST_SOURCES, channelsBySource);
+    return { ...applyChannelRules(merged, loaded.rules), total: merged.length };
+}
@@ -1,21 +1,61 @@
-import { getLogger } from '../../utils/logger';
 import { config } from '../../utils/config';
-import { downloadCacheAndFillDb } from './index';
+import { clearCache } from '../../utils/cache';
+import { registerJob } from '../scheduler';
+import { fillDbChannels, fillDbProgrammes } from './index';
+import { runHealthChecks } from './health';
 
-const logger = getLogger();
+/**
+ * Lock held by scheduled and manual refreshes, so they never overlap
+ */
+export const REFRESH_LOCK = 'refresh';
 
 /**
- * Schedules periodic IPTV data refresh based on configuration.
+ * Schedules the playlist and guide refreshes and the channel health checks.
+ * Without an explicit schedule, playlists are checked at the shortest source interval and each source
+ * is only re-downloaded once its own refresh interval has passed. With an explicit schedule, every run downloads.
+ *
+ * @param {() => boolean} isStreaming - Returns true while a channel is streamed, health checks pause meanwhile
+ * @returns {Promise<void>}
  */
-export function scheduleIPTVRefresh() {
-    const refreshInterval = config.REFRESH_IPTV * 60 * 1000; // Convert minutes to milliseconds
-    setInterval(async () => {
-        logger.info('Refreshing IPTV data...');
-        try {
-            await downloadCacheAndFillDb(true);
-            logger.info('IPTV data refreshed successfully');
-        } catch (error) {
-            logger.error(`Error refreshing IPTV data: ${error}`);
-        }
-    }, refreshInterval);
+export async function scheduleIPTVRefresh(isStreaming: () => boolean = () => false): Promise<void> {
+    const refreshMinutes = Math.min(config.REFRESH_IPTV, ...config.PLAYLIST_SOURCES.map(source => source.refresh));
+
+    await registerJob({
+        name: 'channels',
+        description: 'Playlist refresh',
+        schedule: config.REFRESH_CHANNELS_SCHEDULE || `@every ${refreshMinutes}m`,
+        jitter: config.SCHEDULE_JITTER,
+        lock: REFRESH_LOCK,
+        run: async () => {
+            const refreshed = await fillDbChannels(!!config.REFRESH_CHANNELS_SCHEDULE);
+            await clearCache();
+            return refreshed;
+        },
+    });
+
+    await registerJob({
+        name: 'programmes',
+        description: 'Guide refresh',
+        schedule: config.REFRESH_PROGRAMMES_SCHEDULE || `@every ${config.REFRESH_IPTV}m`,
+        jitter: config.SCHEDULE_JITTER,
+        lock: REFRESH_LOCK,
+        run: async () => {
+            const refreshed = await fillDbProgrammes(!!config.REFRESH_PROGRAMMES_SCHEDULE);
+            await clearCache();
+            return refreshed;
+        },
+    });
+
+    if (config.HEALTH_CHECK_INTERVAL > 0) {
+        await registerJob({
+            name: 'health',
+            description: 'Channel health checks',
+            schedule: `@every ${config.HEALTH_CHECK_INTERVAL}m`,
+            // Providers often allow only one connection at a time
+            skip: () => isStreaming() ? 'a channel is being streamed' : null,
+            run: async () => {
+                await runHealthChecks();
+            },
+        });
+    }
 }
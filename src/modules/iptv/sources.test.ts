@@ -0,0 +1,93 @@
+import { describe, expect, test } from 'bun:test';
+import { mergeChannelSources } from './sources';
+import type { ChannelEntry, PlaylistSource } from '../../interfaces/iptv';
+
+function createSource(name: string, priority: number): PlaylistSource {
+    return { name, type: 'm3u', url: `http://${name}/playlist.m3u`, priority, refresh: 60 };
+}
+
+describe('mergeChannelSources', () => {
+    const primary = createSource('primary', 0);
+    const backup = createSource('backup', 1);
+
+    test('keeps the channel of the source with the lowest priority value and adds the others as fallbacks', () => {
+        const channelsBySource = new Map<string, ChannelEntry[]>([
+            ['backup', [{ xui_id: 1, tvg_id: 'bbc1.uk', tvg_name: 'BBC One (Backup)', url: 'http://backup/1' }]],
+            ['primary', [{ xui_id: 7, tvg_id: 'bbc1.uk', tvg_name: 'BBC One', url: 'http://primary/7' }]],
+        ]);
+
+        // Sources are merged by priority regardless of their order
+        const merged = mergeChannelSources([backup, primary], channelsBySource);
+
+        expect(merged).toEqual([
+            { xui_id: 7, tvg_id: 'bbc1.uk', tvg_name: 'BBC One', url: 'http://primary/7', fallback_urls: ['http://backup/1'] },
+        ]);
+    });
+
+    test('collapses channels by normalized name when they have no common tvg_id', () => {
+        const duplicateNames: string[] = [];
+        const channelsBySource = new Map<string, ChannelEntry[]>([
+            ['primary', [
+                { xui_id: 1, tvg_name: 'Télé Été', url: 'http://primary/1' },
+                { xui_id: 2, tvg_name: 'ZDF', url: 'http://primary/2' },
+            ]],
+            ['backup', [
+                { xui_id: 1, tvg_id: 'tele.fr', tvg_name: 'TELE-ETE', url: 'http://backup/1' },
+                { xui_id: 2, tvg_id: 'tele.fr', tvg_name: 'Tele Ete 2', url: 'http://backup/2' },
+            ]],
+        ]);
+
+        const merged = mergeChannelSources([primary, backup], channelsBySource, duplicateNames);
+
+        // The tvg_id of the duplicate links the second backup channel to the same entry
+        expect(merged.map(channel => [channel.tvg_name, channel.fallback_urls])).toEqual([
+            ['Télé Été', ['http://backup/1', 'http://backup/2']],
+            ['ZDF', []],
+        ]);
+        expect(duplicateNames).toEqual(['TELE-ETE', 'Tele Ete 2']);
+    });
+
+    test('keeps fallback URLs unique and without the main URL', () => {
+        const channelsBySource = new Map<string, ChannelEntry[]>([
+            ['primary', [{ xui_id: 1, tvg_id: 'one', tvg_name: 'One', url: 'http://shared/1', fallback_urls: ['http://primary/1b'] }]],
+            ['backup', [
+                { xui_id: 1, tvg_id: 'one', tvg_name: 'One', url: 'http://shared/1', fallback_urls: ['http://primary/1b', 'http://backup/1b'] },
+            ]],
+        ]);
+
+        const [channel] = mergeChannelSources([primary, backup], channelsBySource);
+
+        expect(channel?.url).toBe('http://shared/1');
+        expect(channel?.fallback_urls).toEqual(['http://primary/1b', 'http://backup/1b']);
+    });
+
+    test('does not change the channels of the sources', () => {
+        const primaryChannel: ChannelEntry = { xui_id: 1, tvg_id: 'one', tvg_name: 'One', url: 'http://primary/1' };
+        const channelsBySource = new Map<string, ChannelEntry[]>([
+            ['primary', [primaryChannel]],
+            ['backup', [{ xui_id: 1, tvg_id: 'one', tvg_name: 'One', url: 'http://backup/1' }]],
+        ]);
+
+        mergeChannelSources([primary, backup], channelsBySource);
+
+        expect(primaryChannel.fallback_urls).toBeUndefined();
+    });
+
+    test('keeps channels without a name or ID apart', () => {
+        const channelsBySource = new Map<string, ChannelEntry[]>([
+            ['primary', [{ xui_id: 1, tvg_name: '', url: 'http://primary/1' }]],
+            ['backup', [{ xui_id: 2, tvg_name: '***', url: 'http://backup/2' }]],
+        ]);
+
+        expect(mergeChannelSources([primary, backup], channelsBySource).map(channel => channel.url))
+            .toEqual(['http://primary/1', 'http://backup/2']);
+    });
+
+    test('skips sources without channels', () => {
+        const channelsBySource = new Map<string, ChannelEntry[]>([
+            ['backup', [{ xui_id: 1, tvg_name: 'One', url: 'http://backup/1' }]],
+        ]);
+
+        expect(mergeChannelSources([primary, backup], channelsBySource)).toHaveLength(1);
+    });
+});
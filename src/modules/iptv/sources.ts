@@ -0,0 +1,141 @@
+import { getLogger } from '../../utils/logger';
+import { getSourceSnapshot, setSourceSnapshot } from '../database';
+import { createProvider, type ChannelFetchResult } from './providers';
+import { isOlderThan, normalizeChannelName } from './utils';
+import type { ChannelEntry, PlaylistParseStatistics, PlaylistSource, ProgrammeEntry, SourceIngestReport } from '../../interfaces/iptv';
+
+const logger = getLogger();
+
+/**
+ * Result of loading a playlist source
+ */
+export interface PlaylistSourceResult {
+    channels: ChannelEntry[];
+    /** False when the channels are the same as in the last snapshot */
+    changed: boolean;
+    /** Whether the content was parsed, reused from the snapshot, or could not be fetched */
+    status: SourceIngestReport['status'];
+    /** Parse statistics of the content the channels came from */
+    statistics?: PlaylistParseStatistics;
+}
+
+/**
+ * Loads the channels of a single playlist source.
+ * Reuses the last snapshot while it is younger than the source refresh interval,
+ * when the provider reports the playlist unchanged, and when the download fails.
+ *
+ * @param {PlaylistSource} source - Playlist source to load
+ * @param {boolean} force - Whether to force download even if the snapshot is fresh
+ * @returns {Promise<PlaylistSourceResult>} - Channels of the source and whether they changed
+ */
+export async function loadPlaylistSource(source: PlaylistSource, force = false): Promise<PlaylistSourceResult> {
+    const snapshot = await getSourceSnapshot(source.name);
+
+    if (!force && snapshot && !isOlderThan(snapshot.fetched_at, source.refresh)) {
+        logger.info(`Playlist source "${source.name}" is up to date, reusing ${snapshot.channels.length} channels`);
+        return { channels: snapshot.channels, changed: false, status: 'unchanged', statistics: snapshot.statistics };
+    }
+
+    let result: ChannelFetchResult | null = null;
+    try {
+        result = await createProvider(source).fetchChannels(force, !!snapshot?.channels.length);
+    } catch (error) {
+        logger.error(`Error downloading playlist source "${source.name}": ${error}`);
+    }
+
+    if (!result) {
+        logger.error(`Failed to fetch playlist source "${source.name}"${snapshot ? ', keeping previous channels' : ''}`);
+        return { channels: snapshot?.channels || [], changed: false, status: 'failed', statistics: snapshot?.statistics };
+    }
+
+    if (!result.changed) {
+        logger.info(`Playlist source "${source.name}" has not changed, reusing ${snapshot!.channels.length} channels`);
+        await setSourceSnapshot(source.name, snapshot!.channels, snapshot!.statistics);
+        return { channels: snapshot!.channels, changed: false, status: 'unchanged', statistics: snapshot!.statistics };
+    }
+
+    logger.info(`Parsed ${result.channels.length} channels from playlist source "${source.name}"`);
+    await setSourceSnapshot(source.name, result.channels, result.statistics);
+    return { channels: result.channels, changed: true, status: 'parsed', statistics: result.statistics };
+}
+
+/**
+ * Merges the channels of several playlist sources into a single list.
+ * Channels sharing a tvg_id or normalized name collapse into one entry; the entry
+ * from the source with the lowest priority value wins and the other URLs are kept as fallbacks.
+ *
+ * @param {PlaylistSource[]} sources - Playlist sources, in any order
+ * @param {Map<string, ChannelEntry[]>} channelsBySource - Parsed channels keyed by source name
+ * @param {string[]} duplicateNames - Collects the names of the collapsed duplicates
+ * @returns {ChannelEntry[]} - Merged channel list
+ */
+export function mergeChannelSources(
+    sources: PlaylistSource[],
+    channelsBySource: Map<string, ChannelEntry[]>,
+    duplicateNames: string[] = []
+): ChannelEntry[] {
+    const merged: ChannelEntry[] = [];
+    const byId = new Map<string, ChannelEntry>();
+    const byName = new Map<string, ChannelEntry>();
+    let duplicates = 0;
+
+    const orderedSources = [...sources].sort((a, b) => a.priority - b.priority);
+
+    for (const source of orderedSources) {
+        for (const channel of channelsBySource.get(source.name) || []) {
+            const normalizedName = normalizeChannelName(channel.tvg_name || '');
+            const existing = (channel.tvg_id && byId.get(channel.tvg_id)) ||
+                (normalizedName && byName.get(normalizedName));
+
+            if (existing) {
+                duplicates++;
+                duplicateNames.push(channel.tvg_name || channel.tvg_id || channel.url);
+                if (channel.tvg_id && !byId.has(channel.tvg_id)) {
+                    byId.set(channel.tvg_id, existing);
+                }
+                const urls = [channel.url, ...(channel.fallback_urls || [])];
+                for (const url of urls) {
+                    if (url !== existing.url && !existing.fallback_urls?.includes(url)) {
+                        existing.fallback_urls = [...(existing.fallback_urls || []), url];
+                    }
+                }
+                continue;
+            }
+
+            const entry: ChannelEntry = { ...channel, fallback_urls: [...(channel.fallback_urls || [])] };
+            merged.push(entry);
+            if (entry.tvg_id) {
+                byId.set(entry.tvg_id, entry);
+            }
+            if (normalizedName) {
+                byName.set(normalizedName, entry);
+            }
+        }
+    }
+
+    logger.info(`Merged ${merged.length} channels from ${orderedSources.length} sources (${duplicates} duplicates collapsed)`);
+    return merged;
+}
+
+/**
+ * Fetches programme information offered directly by the playlist providers,
+ * such as the short EPG of Xtream Codes sources.
+ *
+ * @param {PlaylistSource[]} sources - Playlist sources to query
+ * @returns {Promise<ProgrammeEntry[]>} - Programme entries from all providers
+ */
+export async function fetchProviderProgrammes(sources: PlaylistSource[]): Promise<ProgrammeEntry[]> {
+    const programmes: ProgrammeEntry[] = [];
+    for (const source of sources) {
+        const snapshot = await getSourceSnapshot(source.name);
+        if (!snapshot?.channels.length) {
+            continue;
+        }
+        try {
+            programmes.push(...await createProvider(source).fetchProgrammes(snapshot.channels));
+        } catch (error) {
+            logger.error(`Error fetching programmes from source "${source.name}": ${error}`);
+        }
+    }
+    return programmes;
+}
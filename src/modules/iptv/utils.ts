@@ -1,6 +1,6 @@
 import { getLogger } from '../../utils/logger';
 import { config } from '../../utils/config';
-import { getProgrammeEntries } from '../database';
+import { getProgrammesCreatedAt } from '../database';
 
 const logger = getLogger();
 
@@ -52,11 +52,24 @@ export function parseDate(dateString: string): Date {
  * @returns {Promise<boolean>} - True if data is stale, false otherwise
  */
 export async function isProgrammeDataStale(): Promise<boolean> {
-    const programmes = await getProgrammeEntries();
-    const createdAt = programmes?.[0]?.created_at;
+    const createdAt = await getProgrammesCreatedAt();
     return !createdAt || isOlderThanSetRefreshTime(createdAt);
 }
 
+/**
+ * Checks whether a refresh would drop more entries than REFRESH_MAX_DROP allows.
+ * 
+ * @param {number} previous - Number of stored entries
+ * @param {number} next - Number of entries after the refresh
+ * @returns {boolean} - True if the refresh should be refused
+ */
+export function exceedsDropLimit(previous: number, next: number): boolean {
+    if (previous === 0 || next >= previous) {
+        return false;
+    }
+    return (previous - next) / previous * 100 > config.REFRESH_MAX_DROP;
+}
+
 /**
  * Checks if a date is older than the configured refresh time.
  * 
@@ -64,7 +77,34 @@ export async function isProgrammeDataStale(): Promise<boolean> {
  * @returns {boolean} - True if the date is older than the refresh interval
  */
 export function isOlderThanSetRefreshTime(dateString: string): boolean {
+    return isOlderThan(dateString, config.REFRESH_IPTV);
+}
+
+/**
+ * Checks if a date is older than the given refresh interval.
+ * A small margin is subtracted so scheduled refreshes don't skip data that is just about due.
+ * 
+ * @param {string} dateString - ISO date string to check
+ * @param {number} minutes - Refresh interval in minutes
+ * @returns {boolean} - True if the date is older than the refresh interval
+ */
+export function isOlderThan(dateString: string, minutes: number): boolean {
     const date = new Date(dateString);
-    const refreshTime = Math.max(config.REFRESH_IPTV * 60 * 1000 - 3 * 60 * 1000, 0);
+    const refreshTime = Math.max(minutes * 60 * 1000 - 3 * 60 * 1000, 0);
     return (Date.now() - date.getTime()) > refreshTime;
 }
+
+/**
+ * Normalizes a channel name for comparison between sources.
+ * Lowercases the name, strips accents and removes everything that is not a letter or digit.
+ * 
+ * @param {string} name - Channel name to normalize
+ * @returns {string} - Normalized channel name
+ */
+export function normalizeChannelName(name: string): string {
+    return name
+        .normalize('NFKD')
+        .replace(/[\u0300-\u036f]/g, '')
+        .toLowerCase()
+        .replace(/[^\p{L}\p{N}]/gu, '');
+}
@@ -0,0 +1,150 @@
+import { watch, type FSWatcher } from 'fs';
+import { stat } from 'fs/promises';
+import { basename, dirname, join } from 'path';
+import { getLogger } from '../../utils/logger';
+import { config } from '../../utils/config';
+import { clearCache } from '../../utils/cache';
+import { withLock } from '../scheduler';
+import { getLocalPath } from './downloaders';
+import { REFRESH_LOCK } from './schedulers';
+import { fillDbChannels, fillDbProgrammes } from './index';
+
+const logger = getLogger();
+
+/**
+ * Data that is re-ingested when one of its files changes
+ */
+type WatchTarget = 'channels' | 'programmes';
+
+interface PendingReload {
+    timer: ReturnType<typeof setTimeout> | null;
+    paths: Set<string>;
+}
+
+const watchers: FSWatcher[] = [];
+const pending: Record<WatchTarget, PendingReload> = {
+    channels: { timer: null, paths: new Set() },
+    programmes: { timer: null, paths: new Set() },
+};
+
+/**
+ * Watches the playlists and guides that are read from disk and re-ingests them when they change.
+ * Directories are watched instead of the files, so editors that save by replacing the file are noticed too.
+ *
+ * @returns {number} - Number of watched files
+ */
+export function watchLocalSources(): number {
+    stopWatchingLocalSources();
+    if (config.WATCH_DEBOUNCE <= 0) {
+        return 0;
+    }
+
+    const targets = new Map<string, WatchTarget>();
+    for (const source of config.PLAYLIST_SOURCES) {
+        const path = source.type === 'm3u' ? getLocalPath(source.url) : null;
+        if (path) {
+            targets.set(path, 'channels');
+        }
+    }
+    for (const source of config.XMLTV_SOURCES) {
+        const path = getLocalPath(source.url);
+        if (path) {
+            targets.set(path, 'programmes');
+        }
+    }
+
+    const directories = new Set([...targets.keys()].map(path => dirname(path)));
+    for (const directory of directories) {
+        try {
+            const watcher = watch(directory, (_event, fileName) => {
+                const path = fileName ? join(directory, basename(fileName.toString())) : null;
+                const target = path ? targets.get(path) : undefined;
+                if (path && target) {
+                    scheduleReload(target, path);
+                }
+            });
+            watcher.on('error', error => logger.error(`Error watching ${directory}: ${error}`));
+            watchers.push(watcher);
+        } catch (error) {
+            logger.error(`Cannot watch ${directory} for changes: ${error}`);
+        }
+    }
+
+    if (targets.size > 0) {
+        logger.info(`Watching ${targets.size} local playlist and guide files for changes`);
+    }
+    return targets.size;
+}
+
+/**
+ * Stops watching the local playlists and guides and cancels pending reloads
+ */
+export function stopWatchingLocalSources() {
+    watchers.splice(0).forEach(watcher => watcher.close());
+    for (const reload of Object.values(pending)) {
+        if (reload.timer) {
+            clearTimeout(reload.timer);
+        }
+        reload.timer = null;
+        reload.paths.clear();
+    }
+}
+
+/**
+ * Restarts the debounce timer of a reload, so a file that is still being written is not read yet
+ *
+ * @param {WatchTarget} target - Data to re-ingest
+ * @param {string} path - Changed file
+ */
+function scheduleReload(target: WatchTarget, path: string) {
+    const reload = pending[target];
+    reload.paths.add(path);
+    if (reload.timer) {
+        clearTimeout(reload.timer);
+    }
+    reload.timer = setTimeout(() => runReload(target), config.WATCH_DEBOUNCE * 1000);
+}
+
+/**
+ * Re-ingests the channels or programmes once the changed files have settled.
+ * Waits another debounce period if a file was modified too recently or another refresh is running.
+ *
+ * @param {WatchTarget} target - Data to re-ingest
+ */
+async function runReload(target: WatchTarget) {
+    const reload = pending[target];
+    reload.timer = null;
+
+    const settled = Date.now() - config.WATCH_DEBOUNCE * 1000;
+    for (const path of reload.paths) {
+        try {
+            if ((await stat(path)).mtimeMs > settled) {
+                scheduleReload(target, path);
+                return;
+            }
+        } catch {
+            logger.warn(`${path} changed but cannot be read, skipping reload until it changes again`);
+            reload.paths.delete(path);
+        }
+    }
+    if (reload.paths.size === 0) {
+        return;
+    }
+
+    const paths = [...reload.paths];
+    reload.paths.clear();
+    logger.info(`${paths.join(', ')} changed, reloading ${target}...`);
+
+    const result = await withLock(REFRESH_LOCK, async () => {
+        const refreshed = target === 'channels' ? await fillDbChannels(true) : await fillDbProgrammes(true);
+        await clearCache();
+        return refreshed;
+    });
+
+    if (result === null) {
+        logger.debug(`A refresh is running, reloading ${target} afterwards`);
+        paths.forEach(path => scheduleReload(target, path));
+    } else if (!result) {
+        logger.warn(`Reloading ${target} after a file change failed, keeping the stored ${target}`);
+    }
+}
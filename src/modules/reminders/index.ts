@@ -0,0 +1,91 @@
+import { config } from '../../utils/config';
+import { getLogger } from '../../utils/logger';
+import { registerJob } from '../scheduler';
+import { addReminder, deleteReminder, getDueReminders } from '../database';
+import type { ChannelEntry, ProgrammeEntry } from '../../interfaces/iptv';
+import type { Reminder } from '../../interfaces/reminders';
+
+const logger = getLogger();
+
+/**
+ * Posts a reminder message in a Discord text channel
+ */
+export type ReminderSender = (textChannelId: string, message: string) => Promise<void>;
+
+/**
+ * Sets a reminder for a programme, due REMINDER_LEAD minutes before it starts
+ *
+ * @param {string} userId - Discord user to remind
+ * @param {string} textChannelId - Discord text channel to post the reminder in
+ * @param {ChannelEntry} channel - Channel the programme airs on
+ * @param {ProgrammeEntry} programme - Programme in the channel's time
+ * @returns {Promise<boolean>} - False if the user already has a reminder for the programme
+ */
+export async function setReminder(userId: string, textChannelId: string, channel: ChannelEntry, programme: ProgrammeEntry): Promise<boolean> {
+    const now = Math.floor(Date.now() / 1000);
+    return addReminder({
+        user_id: userId,
+        text_channel_id: textChannelId,
+        channel_name: channel.tvg_name || '',
+        title: programme.title,
+        start_timestamp: programme.start_timestamp,
+        remind_at: Math.max(now, programme.start_timestamp - config.REMINDER_LEAD * 60),
+    });
+}
+
+/**
+ * Formats the message posted for a due reminder
+ *
+ * @param {Reminder} reminder - Due reminder
+ * @returns {string} - Message mentioning the user
+ */
+function formatReminder(reminder: Reminder): string {
+    return `⏰ <@${reminder.user_id}> **${reminder.title}** starts <t:${reminder.start_timestamp}:R> on **${reminder.channel_name}**. Use \`/stream ${reminder.channel_name}\` to watch it.`;
+}
+
+/**
+ * Posts the reminders that are due. Reminders that could not be posted are retried on the next run
+ * until their programme has started.
+ *
+ * @param {ReminderSender} send - Posts a message in a text channel
+ * @returns {Promise<number>} - Number of posted reminders
+ */
+export async function sendDueReminders(send: ReminderSender): Promise<number> {
+    const now = Math.floor(Date.now() / 1000);
+    let sent = 0;
+
+    for (const reminder of await getDueReminders(now)) {
+        try {
+            await send(reminder.text_channel_id, formatReminder(reminder));
+            await deleteReminder(reminder.id);
+            sent++;
+        } catch (error) {
+            logger.warn(`Failed to send reminder for ${reminder.title} to ${reminder.user_id}: ${error}`);
+            if (reminder.start_timestamp <= now) {
+                await deleteReminder(reminder.id);
+            }
+        }
+    }
+
+    if (sent > 0) {
+        logger.info(`Sent ${sent} programme reminder(s)`);
+    }
+    return sent;
+}
+
+/**
+ * Schedules the job that posts due programme reminders every minute
+ *
+ * @param {ReminderSender} send - Posts a message in a text channel
+ * @returns {Promise<void>}
+ */
+export async function scheduleReminders(send: ReminderSender): Promise<void> {
+    await registerJob({
+        name: 'reminders',
+        description: 'Programme reminders',
+        schedule: '@every 1m',
+        run: async () => {
+            await sendDueReminders(send);
+        },
+    });
+}
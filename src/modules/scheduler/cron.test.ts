@@ -0,0 +1,77 @@
+import { describe, expect, test } from 'bun:test';
+import { parseSchedule } from './cron';
+
+// Cron expressions run in local time, so the dates are built from local date parts
+const at = (month: number, day: number, hours = 0, minutes = 0, year = 2026) => new Date(year, month - 1, day, hours, minutes);
+
+describe('parseSchedule', () => {
+    test('next finds the following run of a daily schedule', () => {
+        const schedule = parseSchedule('0 4 * * *');
+
+        expect(schedule.interval).toBeUndefined();
+        expect(schedule.next(at(1, 1, 3, 59))).toEqual(at(1, 1, 4));
+        expect(schedule.next(at(1, 1, 4))).toEqual(at(1, 2, 4));
+        expect(schedule.next(at(12, 31, 5))).toEqual(at(1, 1, 4, 0, 2027));
+    });
+
+    test('next ignores the seconds of the start time', () => {
+        const from = at(1, 1, 3, 59);
+        from.setSeconds(30, 500);
+
+        expect(parseSchedule('* * * * *').next(from)).toEqual(at(1, 1, 4));
+    });
+
+    test('next supports lists, ranges and steps', () => {
+        expect(parseSchedule('0 */6 * * *').next(at(1, 1, 6, 1))).toEqual(at(1, 1, 12));
+        expect(parseSchedule('15,45 9-17 * * *').next(at(1, 1, 9, 20))).toEqual(at(1, 1, 9, 45));
+        expect(parseSchedule('15,45 9-17 * * *').next(at(1, 1, 17, 50))).toEqual(at(1, 2, 9, 15));
+        expect(parseSchedule('0 8-20/4 * * *').next(at(1, 1, 16, 30))).toEqual(at(1, 1, 20));
+        expect(parseSchedule('0 0 5/10 * *').next(at(1, 6))).toEqual(at(1, 15));
+    });
+
+    test('next matches either day field when both are restricted', () => {
+        // January 1st 2026 is a Thursday
+        const schedule = parseSchedule('0 12 15 * 1');
+
+        expect(schedule.next(at(1, 1))).toEqual(at(1, 5, 12));
+        expect(schedule.next(at(1, 13))).toEqual(at(1, 15, 12));
+    });
+
+    test('next treats 0 and 7 as Sunday', () => {
+        expect(parseSchedule('0 0 * * 7').next(at(1, 1))).toEqual(at(1, 4));
+        expect(parseSchedule('@weekly').next(at(1, 1))).toEqual(at(1, 4));
+    });
+
+    test('next skips months without the day', () => {
+        expect(parseSchedule('0 0 31 * *').next(at(2, 1))).toEqual(at(3, 31));
+        expect(parseSchedule('0 0 29 2 *').next(at(1, 1))).toEqual(at(2, 29, 0, 0, 2028));
+    });
+
+    test('macros expand to cron expressions', () => {
+        expect(parseSchedule('@daily').next(at(1, 1, 12))).toEqual(at(1, 2));
+        expect(parseSchedule('@hourly').next(at(1, 1, 12, 30))).toEqual(at(1, 1, 13));
+        expect(parseSchedule(' @Monthly ').next(at(1, 15))).toEqual(at(2, 1));
+    });
+
+    test('@every intervals run a fixed time after the start', () => {
+        const schedule = parseSchedule('@every 30m');
+
+        expect(schedule.interval).toBe(30 * 60 * 1000);
+        expect(schedule.next(at(1, 1, 10, 7))).toEqual(at(1, 1, 10, 37));
+        expect(parseSchedule('@every 6h').interval).toBe(6 * 60 * 60 * 1000);
+    });
+
+    test('invalid expressions are rejected', () => {
+        expect(() => parseSchedule('0 4 * *')).toThrow('expected 5 fields');
+        expect(() => parseSchedule('60 * * * *')).toThrow('out of range 0-59');
+        expect(() => parseSchedule('0 20-8 * * *')).toThrow('out of range');
+        expect(() => parseSchedule('*/0 * * * *')).toThrow('out of range');
+        expect(() => parseSchedule('a * * * *')).toThrow('not a valid field');
+        expect(() => parseSchedule('@every 0s')).toThrow('at least one second');
+        expect(() => parseSchedule('@every 5w')).toThrow();
+    });
+
+    test('next throws for schedules that never run', () => {
+        expect(() => parseSchedule('0 0 31 2 *').next(at(1, 1))).toThrow('never runs');
+    });
+});
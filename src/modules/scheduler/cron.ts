@@ -0,0 +1,145 @@
+/**
+ * Parsed schedule that computes its next run
+ */
+export interface Schedule {
+    expression: string;
+    /** Interval in milliseconds for "@every" schedules, undefined for cron expressions */
+    interval?: number;
+    /**
+     * Returns the next run after a point in time
+     * @param from - Time to start searching from
+     * @returns Next run time
+     */
+    next(from: Date): Date;
+}
+
+const MACROS: Record<string, string> = {
+    '@yearly': '0 0 1 1 *',
+    '@annually': '0 0 1 1 *',
+    '@monthly': '0 0 1 * *',
+    '@weekly': '0 0 * * 0',
+    '@daily': '0 0 * * *',
+    '@midnight': '0 0 * * *',
+    '@hourly': '0 * * * *',
+};
+
+const FIELD_RANGES: [number, number][] = [
+    [0, 59], // minute
+    [0, 23], // hour
+    [1, 31], // day of month
+    [1, 12], // month
+    [0, 7], // day of week, 0 and 7 are Sunday
+];
+
+const UNIT_MILLISECONDS: Record<string, number> = { s: 1000, m: 60 * 1000, h: 60 * 60 * 1000, d: 24 * 60 * 60 * 1000 };
+
+/**
+ * Parses a schedule. Supports five-field cron expressions ("0 4 * * *", "0 *\/6 * * *"),
+ * macros such as "@daily", and intervals such as "@every 30m" or "@every 6h".
+ * Cron expressions are evaluated in local time, set TZ to change it.
+ *
+ * @param {string} expression - Schedule expression
+ * @returns {Schedule} - Parsed schedule
+ * @throws {Error} - If the expression is invalid
+ */
+export function parseSchedule(expression: string): Schedule {
+    const trimmed = expression.trim().toLowerCase();
+
+    const every = trimmed.match(/^@every\s+(\d+)\s*([smhd])$/);
+    if (every) {
+        const interval = parseInt(every[1]!) * UNIT_MILLISECONDS[every[2]!]!;
+        if (interval < 1000) {
+            throw new Error(`Invalid schedule "${expression}": the interval must be at least one second`);
+        }
+        return { expression, interval, next: from => new Date(from.getTime() + interval) };
+    }
+
+    const fields = (MACROS[trimmed] || trimmed).split(/\s+/);
+    if (fields.length !== 5) {
+        throw new Error(`Invalid schedule "${expression}": expected 5 fields, an @every interval or a macro like @daily`);
+    }
+
+    const [minutes, hours, days, months, weekdays] = fields.map((field, index) => {
+        try {
+            return parseField(field, FIELD_RANGES[index]!);
+        } catch (error) {
+            throw new Error(`Invalid schedule "${expression}": ${(error as Error).message}`);
+        }
+    }) as [Set<number>, Set<number>, Set<number>, Set<number>, Set<number>];
+
+    if (weekdays.has(7)) {
+        weekdays.add(0);
+    }
+    // Like cron, a day matches either field when both the day of month and the day of week are restricted
+    const daysRestricted = fields[2] !== '*';
+    const weekdaysRestricted = fields[4] !== '*';
+    const matchesDay = (date: Date) => {
+        const dayMatch = days.has(date.getDate());
+        const weekdayMatch = weekdays.has(date.getDay());
+        if (daysRestricted && weekdaysRestricted) {
+            return dayMatch || weekdayMatch;
+        }
+        return dayMatch && weekdayMatch;
+    };
+
+    return {
+        expression,
+        next(from: Date): Date {
+            const date = new Date(from.getTime());
+            date.setSeconds(0, 0);
+            date.setMinutes(date.getMinutes() + 1);
+
+            // Five years covers every valid combination, including February 29th
+            const limit = from.getTime() + 5 * 366 * UNIT_MILLISECONDS.d!;
+            while (date.getTime() <= limit) {
+                if (!months.has(date.getMonth() + 1)) {
+                    date.setMonth(date.getMonth() + 1, 1);
+                    date.setHours(0, 0);
+                } else if (!matchesDay(date)) {
+                    date.setDate(date.getDate() + 1);
+                    date.setHours(0, 0);
+                } else if (!hours.has(date.getHours())) {
+                    date.setHours(date.getHours() + 1, 0);
+                } else if (!minutes.has(date.getMinutes())) {
+                    date.setMinutes(date.getMinutes() + 1);
+                } else {
+                    return date;
+                }
+            }
+            throw new Error(`Schedule "${expression}" never runs`);
+        },
+    };
+}
+
+/**
+ * Parses one cron field with lists, ranges and steps, e.g. "1,15", "9-17" or "*\/5"
+ *
+ * @param {string} field - Cron field
+ * @param {[number, number]} range - Allowed minimum and maximum
+ * @returns {Set<number>} - Matching values
+ * @throws {Error} - If the field is invalid or out of range
+ */
+function parseField(field: string, [min, max]: [number, number]): Set<number> {
+    const values = new Set<number>();
+
+    for (const part of field.split(',')) {
+        const match = part.match(/^(\*|(\d+)(?:-(\d+))?)(?:\/(\d+))?$/);
+        if (!match) {
+            throw new Error(`"${part}" is not a valid field`);
+        }
+
+        const [, all, startText, endText, stepText] = match;
+        const start = all === '*' ? min : parseInt(startText!);
+        const end = all === '*' ? max : endText !== undefined ? parseInt(endText) : stepText !== undefined ? max : start;
+        const step = stepText !== undefined ? parseInt(stepText) : 1;
+
+        if (start < min || end > max || start > end || step < 1) {
+            throw new Error(`"${part}" is out of range ${min}-${max}`);
+        }
+        for (let value = start; value <= end; value += step) {
+            values.add(value);
+        }
+    }
+
+    return values;
+}
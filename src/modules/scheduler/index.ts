@@ -0,0 +1,315 @@
+import { getLogger } from '../../utils/logger';
+import { getJobStates, setJobState } from '../database';
+import { parseSchedule, type Schedule } from './cron';
+import type { JobRunStatus, JobState } from '../../interfaces/scheduler';
+
+const logger = getLogger();
+
+/**
+ * Longest delay setTimeout supports, later runs are re-armed when it fires
+ */
+const MAX_TIMER_DELAY = 2 ** 31 - 1;
+
+/**
+ * Delay before a run skipped because its lock was held is retried, counted from the release of the lock
+ */
+const LOCK_RETRY_DELAY = 30 * 1000;
+
+/**
+ * Task run by the scheduler
+ */
+export interface JobDefinition {
+    name: string;
+    description: string;
+    /** Cron expression, macro or "@every" interval, see parseSchedule */
+    schedule: string;
+    /** Maximum random delay in seconds added to each run */
+    jitter?: number;
+    /** Lock shared with other jobs and commands that must not run at the same time */
+    lock?: string;
+    /** Returns a reason to skip the current run, or null to run it */
+    skip?: () => string | null;
+    /** Runs the task; returning false marks the run as failed */
+    run: () => Promise<boolean | void>;
+}
+
+/**
+ * State of a job as shown to users
+ */
+export interface JobStatus extends JobState {
+    name: string;
+    description: string;
+    running: boolean;
+}
+
+interface RegisteredJob {
+    definition: JobDefinition;
+    schedule: Schedule;
+    timer: ReturnType<typeof setTimeout> | null;
+    nextRun: Date | null;
+    running: boolean;
+}
+
+const jobs = new Map<string, RegisteredJob>();
+const locks = new Set<string>();
+/** Jobs skipped while a lock was held, retried once it is released */
+const lockWaiters = new Map<string, Set<RegisteredJob>>();
+
+export { parseSchedule } from './cron';
+export type { Schedule } from './cron';
+
+/**
+ * Runs a function while holding a named lock
+ *
+ * @param {string} name - Name of the lock
+ * @param {() => Promise<T>} task - Function to run
+ * @returns {Promise<T | null>} - Result of the function, or null without running it if the lock is held
+ */
+export async function withLock<T>(name: string, task: () => Promise<T>): Promise<T | null> {
+    if (locks.has(name)) {
+        return null;
+    }
+
+    locks.add(name);
+    try {
+        return await task();
+    } finally {
+        locks.delete(name);
+        retryLockWaiters(name);
+    }
+}
+
+/**
+ * Checks whether a named lock is held
+ *
+ * @param {string} name - Name of the lock
+ * @returns {boolean} - True while a job or command holds the lock
+ */
+export function isLocked(name: string): boolean {
+    return locks.has(name);
+}
+
+/**
+ * Registers a job and arms its timer. Registering a job again replaces it, so each task only ever has one timer.
+ * The next run is restored from the database, so a restart neither skips nor repeats runs. Runs missed while
+ * the bot was offline start right away, after the jitter.
+ *
+ * @param {JobDefinition} definition - Job to register
+ * @returns {Promise<boolean>} - False if the schedule is invalid and the job was not registered
+ */
+export async function registerJob(definition: JobDefinition): Promise<boolean> {
+    let schedule: Schedule;
+    try {
+        schedule = parseSchedule(definition.schedule);
+    } catch (error) {
+        logger.error(`Not scheduling ${definition.name}: ${(error as Error).message}`);
+        return false;
+    }
+
+    const existing = jobs.get(definition.name);
+    if (existing?.timer) {
+        clearTimeout(existing.timer);
+    }
+    const job: RegisteredJob = { definition, schedule, timer: null, nextRun: null, running: existing?.running || false };
+    jobs.set(definition.name, job);
+
+    const state = (await getJobStates())[definition.name];
+    const nextRun = getFirstRun(job, state);
+    await setJobState(definition.name, { ...state, schedule: definition.schedule, next_run: nextRun.toISOString() });
+
+    logger.info(`Scheduled ${definition.name} (${definition.schedule}), next run at ${nextRun.toLocaleString()}`);
+    armTimer(job, nextRun);
+    return true;
+}
+
+/**
+ * Returns the state of all registered jobs
+ *
+ * @returns {Promise<JobStatus[]>} - Jobs in registration order with their last and next runs
+ */
+export async function getJobStatuses(): Promise<JobStatus[]> {
+    const states = await getJobStates();
+    return [...jobs.values()].map(job => ({
+        schedule: job.definition.schedule,
+        ...states[job.definition.name],
+        name: job.definition.name,
+        description: job.definition.description,
+        running: job.running,
+    }));
+}
+
+/**
+ * Computes the first run of a job after it was registered
+ *
+ * @param {RegisteredJob} job - Registered job
+ * @param {JobState} state - Persisted state of the job, if it ran before
+ * @returns {Date} - Time of the first run
+ */
+function getFirstRun(job: RegisteredJob, state?: JobState): Date {
+    const now = new Date();
+    let nextRun: Date | null = null;
+
+    if (state?.schedule === job.definition.schedule && state.next_run) {
+        nextRun = new Date(state.next_run);
+    } else if (job.schedule.interval && state?.last_run) {
+        nextRun = new Date(new Date(state.last_run).getTime() + job.schedule.interval);
+    }
+
+    if (!nextRun || isNaN(nextRun.getTime())) {
+        return getNextRun(job, now);
+    }
+    if (nextRun <= now) {
+        return new Date(now.getTime() + getJitter(job));
+    }
+    return nextRun;
+}
+
+/**
+ * Computes the next run of a job from its schedule, with jitter
+ *
+ * @param {RegisteredJob} job - Registered job
+ * @param {Date} from - Time to compute the next run from
+ * @returns {Date} - Time of the next run
+ */
+function getNextRun(job: RegisteredJob, from: Date): Date {
+    return new Date(job.schedule.next(from).getTime() + getJitter(job));
+}
+
+/**
+ * Picks a random delay within the jitter of a job
+ *
+ * @param {RegisteredJob} job - Registered job
+ * @returns {number} - Delay in milliseconds
+ */
+function getJitter(job: RegisteredJob): number {
+    return Math.floor(Math.random() * (job.definition.jitter || 0) * 1000);
+}
+
+/**
+ * Arms the timer of a job for its next run
+ *
+ * @param {RegisteredJob} job - Registered job
+ * @param {Date} nextRun - Time of the next run
+ */
+function armTimer(job: RegisteredJob, nextRun: Date) {
+    const delay = Math.max(nextRun.getTime() - Date.now(), 0);
+    job.nextRun = nextRun;
+    job.timer = setTimeout(() => {
+        if (delay > MAX_TIMER_DELAY) {
+            armTimer(job, nextRun);
+        } else {
+            runJob(job).catch(error => logger.error(`Error running job ${job.definition.name}: ${error}`));
+        }
+    }, Math.min(delay, MAX_TIMER_DELAY));
+}
+
+/**
+ * Runs a job unless it has to be skipped, stores the outcome and arms the next run
+ *
+ * @param {RegisteredJob} job - Registered job
+ */
+async function runJob(job: RegisteredJob) {
+    const { definition } = job;
+    const startedAt = new Date();
+    let status: JobRunStatus = 'success';
+    let error: string | undefined;
+    let lockBusy = false;
+
+    const skipReason = job.running ? 'the previous run is still running' : definition.skip?.() || null;
+    if (skipReason) {
+        status = 'skipped';
+        error = skipReason;
+    } else {
+        job.running = true;
+        try {
+            const run = async () => {
+                try {
+                    return await definition.run();
+                } catch (runError) {
+                    status = 'error';
+                    error = String(runError);
+                    return undefined;
+                }
+            };
+            const result = definition.lock ? await withLock(definition.lock, run) : await run();
+            if (definition.lock && result === null) {
+                status = 'skipped';
+                error = `${definition.lock} is locked by another task`;
+                lockBusy = true;
+            } else if (result === false) {
+                status = 'failed';
+            }
+        } finally {
+            job.running = false;
+        }
+    }
+
+    const level = status === 'success' ? 'info' : status === 'skipped' ? 'debug' : 'warn';
+    logger[level](`Job ${definition.name} ${status}${error ? `: ${error}` : ''}`);
+
+    // A job re-registered while it ran already has a new timer
+    if (jobs.get(definition.name) !== job) {
+        return;
+    }
+
+    const nextRun = getNextRun(job, job.schedule.interval ? startedAt : new Date());
+    try {
+        await setJobState(definition.name, {
+            schedule: definition.schedule,
+            next_run: nextRun.toISOString(),
+            last_run: startedAt.toISOString(),
+            last_status: status,
+            last_duration: Date.now() - startedAt.getTime(),
+            last_error: error,
+        });
+    } catch (stateError) {
+        logger.error(`Error storing the state of job ${definition.name}: ${stateError}`);
+    } finally {
+        // The job keeps running on schedule even if its state could not be stored
+        armTimer(job, nextRun);
+    }
+
+    if (definition.lock && lockBusy) {
+        if (isLocked(definition.lock)) {
+            const waiting = lockWaiters.get(definition.lock) || new Set();
+            lockWaiters.set(definition.lock, waiting.add(job));
+        } else {
+            await retryJob(job);
+        }
+    }
+}
+
+/**
+ * Retries the jobs that were skipped while a lock was held
+ *
+ * @param {string} name - Name of the released lock
+ */
+function retryLockWaiters(name: string) {
+    const waiting = lockWaiters.get(name);
+    lockWaiters.delete(name);
+    for (const job of waiting || []) {
+        retryJob(job).catch(error => logger.error(`Error retrying ${job.definition.name}: ${error}`));
+    }
+}
+
+/**
+ * Moves the next run of a job that lost its lock to shortly from now, unless it is scheduled earlier anyway
+ *
+ * @param {RegisteredJob} job - Registered job
+ * @returns {Promise<void>}
+ */
+async function retryJob(job: RegisteredJob): Promise<void> {
+    const retryAt = new Date(Date.now() + LOCK_RETRY_DELAY);
+    if (jobs.get(job.definition.name) !== job || job.running || (job.nextRun && job.nextRun <= retryAt)) {
+        return;
+    }
+
+    if (job.timer) {
+        clearTimeout(job.timer);
+    }
+    armTimer(job, retryAt);
+    logger.debug(`Retrying ${job.definition.name} at ${retryAt.toLocaleString()}, ${job.definition.lock} was released`);
+
+    const state = (await getJobStates())[job.definition.name];
+    await setJobState(job.definition.name, { schedule: job.definition.schedule, ...state, next_run: retryAt.toISOString() });
+}
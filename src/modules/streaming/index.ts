@@ -3,18 +3,97 @@ import { Streamer } from '@dank074/discord-video-stream';
 import { prepareStream, playStream, Utils } from "@dank074/discord-video-stream";
 import { getLogger } from '../../utils/logger';
 import { config } from '../../utils/config';
-import type { ChannelEntry } from '../../interfaces/iptv';
+import { addSessionProgramme, endSession, getCurrentProgramme, startSession, touchSession } from '../database';
+import type { ChannelEntry, ProgrammeEntry } from '../../interfaces/iptv';
+import type { StopReason, StreamRequester } from '../../interfaces/history';
+import type { QueueEntry, QueueStatus } from '../../interfaces/queue';
 
 const logger = getLogger();
-let streamer = new Streamer(new Client());
-let abortController = new AbortController();
-let currentChannelEntry: ChannelEntry | null = null;
-let streamSpectatorMonitor: ReturnType<typeof setInterval> | null = null;
-let streamAloneTime: number = 0;
 
 /**
- * Initializes the streaming client
- * Logs in the streamer client for video streaming capabilities
+ * How often the queues check whether their first entry is due, in milliseconds
+ */
+const QUEUE_CHECK_INTERVAL = 10000;
+
+/**
+ * Streamer account of the pool. A user can only be in one voice channel at a time,
+ * so an account serves at most one session.
+ */
+interface StreamerAccount {
+    /** Number of the account in logs, the token is never logged */
+    number: number;
+    token: string;
+    streamer: Streamer;
+    session: VoiceSession | null;
+}
+
+/**
+ * Connection of a streamer account to a voice channel, with its own stream, spectator monitor and watch history
+ */
+interface VoiceSession {
+    guildId: string;
+    voiceChannelId: string;
+    account: StreamerAccount;
+    /** Channel being streamed, or null while connected without a stream */
+    channelEntry: ChannelEntry | null;
+    abortController: AbortController;
+    spectatorMonitor: ReturnType<typeof setInterval> | null;
+    aloneTime: number;
+    historyId: number | null;
+    historyProgramme: ProgrammeEntry | null;
+    replay: boolean;
+    /** Channels to switch to, in order */
+    queue: QueueEntry[];
+    queueTimer: ReturnType<typeof setInterval> | null;
+    /** Streamed channel and time the programme to wait for is looked up at, for the first queue entry */
+    queueAnchor: { entryId: number, channelName: string, at: number } | null;
+    queueChecking: boolean;
+}
+
+/**
+ * Voice channel a streamer account is connected to
+ */
+export interface ActiveSession {
+    guildId: string;
+    voiceChannelId: string;
+    /** Channel being streamed, or null while connected without a stream */
+    channelEntry: ChannelEntry | null;
+    /** Number of the streamer account serving the session */
+    account: number;
+}
+
+/**
+ * Details of a stream recorded in the watch history
+ */
+export interface StreamOptions {
+    /** User who started the stream */
+    requester?: StreamRequester;
+    /** Past programme being replayed, live streams record the airing programmes instead */
+    replay?: ProgrammeEntry;
+}
+
+const accounts: StreamerAccount[] = config.DISCORD_USER_TOKENS.map((token, index) => ({
+    number: index + 1,
+    token,
+    streamer: new Streamer(new Client()),
+    session: null,
+}));
+const sessions = new Map<string, VoiceSession>();
+let nextQueueEntryId = 1;
+
+/**
+ * Builds the key of the session in a voice channel
+ * @param guildId - Discord guild ID
+ * @param voiceChannelId - Voice channel ID
+ * @returns Key in the session map
+ */
+function getSessionKey(guildId: string, voiceChannelId: string): string {
+    return `${guildId}:${voiceChannelId}`;
+}
+
+/**
+ * Initializes the streaming clients
+ * Logs in the streamer accounts for video streaming capabilities
  */
 export async function initializeStreamer() {
     try {
@@ -25,7 +104,7 @@ export async function initializeStreamer() {
 }
 
 /**
- * Re-authenticates the user client by logging out and back in
+ * Re-authenticates the user clients by logging out and back in
  * Useful for refreshing authentication tokens
  */
 export async function relogUser() {
@@ -39,118 +118,212 @@ export async function relogUser() {
 }
 
 /**
- * Logs out the streamer client if currently logged in
+ * Logs out the streamer accounts that are logged in, except those serving a session
  */
 export async function logoutStreamer() {
-    if (!streamer.client.isReady()) {
-        logger.debug('Streamer client is not logged in');
-        return;
+    for (const account of accounts) {
+        if (!account.streamer.client.isReady()) {
+            logger.debug(`Streamer account ${account.number} is not logged in`);
+            continue;
+        }
+        if (account.session) {
+            logger.debug(`Streamer account ${account.number} is connected to a voice channel, keeping it logged in`);
+            continue;
+        }
+        await (account.streamer.client as Client).logout();
+        logger.info(`Streamer account ${account.number} logged out successfully`);
     }
-    await (streamer.client as Client).logout();
-    logger.info('Streamer client logged out successfully');
 }
 
 /**
- * Logs in the streamer client using the user token
+ * Logs in the streamer accounts using their user tokens
+ * An account that fails to log in does not keep the others from streaming
  */
 export async function loginStreamer() {
-    if (streamer.client.isReady()) {
-        logger.debug('Streamer client is already logged in');
-        return;
+    for (const account of accounts) {
+        if (account.streamer.client.isReady()) {
+            logger.debug(`Streamer account ${account.number} is already logged in`);
+            continue;
+        }
+        try {
+            await (account.streamer.client as Client).login(account.token);
+            logger.info(`Streamer account ${account.number} logged in successfully`);
+        } catch (error) {
+            logger.error(`Error logging in streamer account ${account.number}: ${error}`);
+        }
     }
-    await (streamer.client as Client).login(config.DISCORD_USER_TOKEN);
-    logger.info('Streamer client logged in successfully');
 }
 
 /**
- * Get the current streaming channel entry
+ * Get the channel streamed to a voice channel
+ * @param guildId - Discord guild ID
+ * @param voiceChannelId - Voice channel ID
  * @returns Channel entry object or null if not streaming
-    */
-export function getCurrentChannelEntry(): ChannelEntry | null {
-    return currentChannelEntry;
+ */
+export function getCurrentChannelEntry(guildId: string, voiceChannelId: string): ChannelEntry | null {
+    return sessions.get(getSessionKey(guildId, voiceChannelId))?.channelEntry || null;
+}
+
+/**
+ * Lists the voice channels the streamer accounts are connected to
+ * @param guildId - Only list sessions in this guild
+ * @returns Sessions with the channel they stream
+ */
+export function getActiveSessions(guildId?: string): ActiveSession[] {
+    return [...sessions.values()]
+        .filter(session => !guildId || session.guildId === guildId)
+        .map(session => ({
+            guildId: session.guildId,
+            voiceChannelId: session.voiceChannelId,
+            channelEntry: session.channelEntry,
+            account: session.account.number,
+        }));
 }
 
 /**
- * Joins a voice channel in the specified guild
+ * Finds the session of a voice channel. Members who can manage channels may also control
+ * the only session in the guild from anywhere, other members have to join its voice channel.
+ * @param guildId - Discord guild ID
+ * @param voiceChannelId - Voice channel of the caller
+ * @param canManage - Whether the caller has the Manage Channels permission
+ * @returns The session or undefined if none matches
+ */
+export function findActiveSession(guildId: string, voiceChannelId?: string, canManage = false): ActiveSession | undefined {
+    const guildSessions = getActiveSessions(guildId);
+    return guildSessions.find(session => session.voiceChannelId === voiceChannelId)
+        || (canManage && guildSessions.length === 1 ? guildSessions[0] : undefined);
+}
+
+/**
+ * Checks whether any session is streaming
+ * @returns True while at least one channel is streamed
+ */
+export function isStreaming(): boolean {
+    return [...sessions.values()].some(session => session.channelEntry !== null);
+}
+
+/**
+ * Joins a voice channel with a free streamer account that is a member of the guild
+ * A voice channel that already has a session keeps its account
  * @param guildId - Discord guild ID
  * @param channelId - Voice channel ID to join
+ * @throws Error if no streamer account is free or the voice channel cannot be joined
  */
 export async function joinVoiceChannel(guildId: string, channelId: string) {
-    if (!streamer.client.isReady()) {
-        logger.error('Streamer client is not logged in.');
+    const key = getSessionKey(guildId, channelId);
+    if (sessions.has(key)) {
+        logger.debug(`Already connected to voice channel ${channelId} in guild ${guildId}`);
         return;
     }
 
-    const guild = streamer.client.guilds.cache.get(guildId);
-    const channel = guild?.channels.cache.get(channelId);
+    const members = accounts.filter(account => account.streamer.client.isReady() && account.streamer.client.guilds.cache.has(guildId));
+    if (members.length === 0) {
+        throw new Error('No streamer account is logged in and a member of this server.');
+    }
+    const account = members.find(candidate => !candidate.session);
+    if (!account) {
+        throw new Error(`All ${members.length} streamer account(s) are streaming in other voice channels. Stop one of those streams or add more accounts to DISCORD_USER_TOKENS.`);
+    }
 
+    const guild = account.streamer.client.guilds.cache.get(guildId);
+    const channel = guild?.channels.cache.get(channelId);
     if (!guild || !channel || !channel.isVoice()) {
-        logger.error('Invalid guild or channel ID.');
-        return;
+        throw new Error('Invalid guild or voice channel.');
     }
 
-    const connection = streamer.voiceConnection;
-    if (connection && connection.channelId === channelId) {
-        logger.debug(`Already connected to voice channel: ${channel.name} in guild: ${guild.name}`);
-        return;
-    }
+    // Claimed before joining, so a join running at the same time picks another account
+    const session: VoiceSession = {
+        guildId,
+        voiceChannelId: channelId,
+        account,
+        channelEntry: null,
+        abortController: new AbortController(),
+        spectatorMonitor: null,
+        aloneTime: 0,
+        historyId: null,
+        historyProgramme: null,
+        replay: false,
+        queue: [],
+        queueTimer: null,
+        queueAnchor: null,
+        queueChecking: false,
+    };
+    account.session = session;
+    sessions.set(key, session);
+
     try {
-        let response = await streamer.joinVoice(guildId, channelId);
-        if (response.ready) {
-            logger.info(`Connected to voice channel: ${channel.name} in guild: ${guild.name}`);
-        } else {
-            logger.error(`Failed to connect to voice channel: ${channel.name} in guild: ${guild.name}`);
+        const response = await account.streamer.joinVoice(guildId, channelId);
+        if (!response.ready) {
+            throw new Error(`Failed to connect to voice channel: ${channel.name}`);
         }
+        logger.info(`Streamer account ${account.number} connected to voice channel: ${channel.name} in guild: ${guild.name}`);
     } catch (error) {
         logger.error(`Error joining voice channel: ${error}`);
+        releaseSession(session);
+        throw error;
+    }
+}
+
+/**
+ * Removes a session and frees its streamer account
+ * @param session - Session to remove
+ */
+function releaseSession(session: VoiceSession) {
+    stopQueueTimer(session);
+    session.queue = [];
+    const key = getSessionKey(session.guildId, session.voiceChannelId);
+    if (sessions.get(key) === session) {
+        sessions.delete(key);
+    }
+    if (session.account.session === session) {
+        session.account.session = null;
     }
 }
 
 /**
- * Stops the stream and leaves the current voice channel
+ * Stops the stream and leaves a voice channel, freeing its streamer account
+ * @param guildId - Discord guild ID
+ * @param voiceChannelId - Voice channel ID to leave
  */
-export async function leaveVoiceChannel() {
-    if (!streamer.client.isReady()) {
-        logger.error('Streamer client is not logged in');
+export async function leaveVoiceChannel(guildId: string, voiceChannelId: string) {
+    const session = sessions.get(getSessionKey(guildId, voiceChannelId));
+    if (!session) {
+        logger.debug(`Not connected to voice channel ${voiceChannelId} in guild ${guildId}`);
         return;
     }
     try {
-        if (currentChannelEntry) {
-            await stopStreaming();
+        if (session.channelEntry) {
+            await stopSession(session);
         }
-        const guildId = streamer.voiceConnection?.guildId;
-        const channelId = streamer.voiceConnection?.channelId;
-        const guild = guildId ? streamer.client.guilds.cache.get(guildId) : undefined;
-        const channel = guild && channelId ? guild.channels.cache.get(channelId) : undefined;
+        const streamer = session.account.streamer;
+        const guild = streamer.client.guilds.cache.get(guildId);
+        const channel = guild?.channels.cache.get(voiceChannelId);
         streamer.leaveVoice();
         logger.info(`Stopped video stream and disconnected from the voice channel: ${channel?.name || 'unknown'} in guild: ${guild?.name || 'unknown'}`);
     } catch (error) {
         logger.error(`Error leaving voice channel: ${error}`);
+    } finally {
+        releaseSession(session);
     }
 }
 
 /**
- * Starts monitoring spectators in the voice channel
+ * Starts monitoring spectators in the voice channel of a session
  * Automatically stops the stream if there are no viewers for a specified time
+ * @param session - Session to monitor
  * @returns Cleanup function to stop monitoring
  */
-function startSpectatorMonitoring(): () => void {
-    streamAloneTime = 0;
-    if (streamSpectatorMonitor) {
-        clearInterval(streamSpectatorMonitor);
-        streamSpectatorMonitor = null;
+function startSpectatorMonitoring(session: VoiceSession): () => void {
+    session.aloneTime = 0;
+    if (session.spectatorMonitor) {
+        clearInterval(session.spectatorMonitor);
+        session.spectatorMonitor = null;
     }
-    logger.debug('Starting spectator monitoring');
+    logger.debug(`Starting spectator monitoring in voice channel ${session.voiceChannelId}`);
 
-    streamSpectatorMonitor = setInterval(() => {
+    const monitor = setInterval(() => {
         try {
-            const channelId = streamer.voiceConnection?.channelId;
-            if (!channelId) {
-                logger.debug('No active voice connection found during monitoring');
-                return;
-            }
-
-            const channel = streamer.client.channels.cache.get(channelId);
+            const channel = session.account.streamer.client.channels.cache.get(session.voiceChannelId);
             if (!channel || !channel.isVoice()) {
                 logger.debug('Could not retrieve valid voice channel during monitoring');
                 return;
@@ -159,49 +332,94 @@ function startSpectatorMonitoring(): () => void {
             // we don't count bots as spectators, and we don't count the bot itself
             const members = channel.members.filter(member => !member.user.bot).size - 1;
             if (members === 0) {
-                streamAloneTime += 10;
-                logger.debug(`No spectators for ${streamAloneTime} seconds`);
+                session.aloneTime += 10;
+                logger.debug(`No spectators in ${channel.name} for ${session.aloneTime} seconds`);
 
-                if (streamAloneTime >= config.DEFAULT_STREAM_TIMEOUT * 60) {
-                    logger.info(`No spectators for ${config.DEFAULT_STREAM_TIMEOUT} ${config.DEFAULT_STREAM_TIMEOUT > 1 ? 'minutes' : 'minute'}. Stopping stream.`);
+                if (session.aloneTime >= config.DEFAULT_STREAM_TIMEOUT * 60) {
+                    logger.info(`No spectators in ${channel.name} for ${config.DEFAULT_STREAM_TIMEOUT} ${config.DEFAULT_STREAM_TIMEOUT > 1 ? 'minutes' : 'minute'}. Stopping stream.`);
 
-                    stopStreaming().then(() => {
-                        return leaveVoiceChannel();
+                    stopSession(session, 'idle').then(() => {
+                        return leaveVoiceChannel(session.guildId, session.voiceChannelId);
                     }).catch(err => {
                         logger.error(`Error during automated stream cleanup: ${err}`);
                     });
                 }
             } else {
-                streamAloneTime = 0;
+                session.aloneTime = 0;
             }
+
+            recordSessionProgress(session, Math.max(members, 0));
         } catch (error) {
             logger.error(`Error in spectator monitoring: ${error}`);
         }
     }, 10000);
+    session.spectatorMonitor = monitor;
 
     return () => {
-        if (streamSpectatorMonitor) {
+        // A newer stream in the same session starts its own monitor, which must keep running
+        if (session.spectatorMonitor === monitor) {
             logger.debug('Cleaning up spectator monitor');
-            clearInterval(streamSpectatorMonitor);
-            streamSpectatorMonitor = null;
+            clearInterval(monitor);
+            session.spectatorMonitor = null;
+            session.aloneTime = 0;
         }
-        streamAloneTime = 0;
     };
 }
 
 /**
- * Starts streaming the specified channel to a Discord voice channel
+ * Updates the watch history of a session with the viewer count and, for live streams, the airing programme
+ * @param session - Session streaming the channel
+ * @param viewers - Viewers in the voice channel
+ */
+function recordSessionProgress(session: VoiceSession, viewers: number) {
+    const historyId = session.historyId;
+    const channelEntry = session.channelEntry;
+    if (historyId === null || !channelEntry) {
+        return;
+    }
+
+    touchSession(historyId, viewers);
+
+    const now = Math.floor(Date.now() / 1000);
+    if (session.replay || (session.historyProgramme && session.historyProgramme.stop_timestamp > now)) {
+        return;
+    }
+    getCurrentProgramme(channelEntry, now).then(programme => {
+        if (programme && session.historyId === historyId) {
+            session.historyProgramme = programme;
+            addSessionProgramme(historyId, programme);
+        }
+    }).catch(error => {
+        logger.error(`Error recording the airing programme: ${error}`);
+    });
+}
+
+/**
+ * Starts streaming the specified channel to a voice channel joined with joinVoiceChannel
+ * Only replaces the stream of that voice channel, other sessions keep streaming
+ * @param guildId - Discord guild ID
+ * @param voiceChannelId - Voice channel ID to stream to
  * @param channelEntry - Channel information containing stream URL and metadata
+ * @param options - Requester and replayed programme for the watch history
  */
-export async function startStreaming(channelEntry: ChannelEntry) {
-    if (!streamer.client.isReady()) {
-        logger.error('Streamer client is not logged in');
+export async function startStreaming(guildId: string, voiceChannelId: string, channelEntry: ChannelEntry, options: StreamOptions = {}) {
+    const session = sessions.get(getSessionKey(guildId, voiceChannelId));
+    if (!session) {
+        logger.error(`Not connected to voice channel ${voiceChannelId} in guild ${guildId}`);
         return;
     }
 
     try {
-        logger.info(`Stopping any possible existing stream.`);
-        await stopStreaming();
+        logger.info(`Stopping any possible existing stream in voice channel ${voiceChannelId}.`);
+        await stopSession(session, 'switched');
+
+        if (channelEntry.http_headers) {
+            logger.debug(`Using custom HTTP headers for ${channelEntry.tvg_name}: ${Object.keys(channelEntry.http_headers).join(', ')}`);
+        }
+
+        // FFmpeg events of a replaced stream must not stop the stream that replaced it
+        const abortController = session.abortController;
+        const isCurrent = () => session.abortController === abortController;
 
         const { command, output } = prepareStream(channelEntry.url, {
             noTranscoding: false,
@@ -210,14 +428,21 @@ export async function startStreaming(channelEntry: ChannelEntry) {
             bitrateVideoMax: config.BITRATE_VIDEO_MAX,
             videoCodec: Utils.normalizeVideoCodec("H264"),
             h26xPreset: "veryfast",
+            customHeaders: channelEntry.http_headers,
         }, abortController.signal);
 
-        currentChannelEntry = channelEntry;
+        session.channelEntry = channelEntry;
+        session.historyProgramme = null;
+        const replay = options.replay;
+        session.replay = !!replay;
+        session.historyId = startSession(channelEntry.tvg_name || 'Unknown', options.requester, voiceChannelId,
+            replay ? [{ title: replay.title, start_timestamp: replay.start_timestamp }] : [], !!replay);
+        recordSessionProgress(session, 0);
 
         command.on("error", async (err: any, _stdout: any, _stderr: any) => {
-            if (!err.toString().includes('ffmpeg exited with code 255')) {
+            if (!err.toString().includes('ffmpeg exited with code 255') && isCurrent()) {
                 logger.error(`FFmpeg ${err}`);
-                await stopStreaming();
+                await stopSession(session, 'error', err.toString());
             }
         });
 
@@ -226,15 +451,17 @@ export async function startStreaming(channelEntry: ChannelEntry) {
             if (stderr) {
                 logger.error(`FFmpeg stderr: ${stderr}`);
             }
-            await stopStreaming();
+            if (isCurrent()) {
+                await stopSession(session, 'ended');
+            }
         });
 
-        logger.info(`Streaming channel: ${channelEntry.tvg_name}.`);
+        logger.info(`Streaming channel: ${channelEntry.tvg_name} with streamer account ${session.account.number}.`);
 
-        const cleanupMonitoring = startSpectatorMonitoring();
+        const cleanupMonitoring = startSpectatorMonitoring(session);
 
         try {
-            await playStream(output, streamer, {
+            await playStream(output, session.account.streamer, {
                 type: "go-live",
                 //readrateInitialBurst: 1000000,
             }, abortController.signal);
@@ -243,44 +470,259 @@ export async function startStreaming(channelEntry: ChannelEntry) {
             cleanupMonitoring();
         } catch (error) {
             cleanupMonitoring();
-            throw error;
+            if (isCurrent()) {
+                throw error;
+            }
         }
     } catch (error) {
         logger.error(`Error starting stream: ${error}`);
-        await stopStreaming();
+        await stopSession(session, 'error', String(error));
     }
 }
 
 /**
- * Stops the current stream and cleans up resources
+ * Stops the stream in a voice channel, the streamer account stays connected
+ * @param guildId - Discord guild ID
+ * @param voiceChannelId - Voice channel ID
+ * @param reason - Why the stream stops, recorded in the watch history
+ * @param error - Error that stopped the stream, if any
  */
-export async function stopStreaming() {
-    if (!streamer.client.isReady()) {
-        logger.error('Streamer client is not logged in');
+export async function stopStreaming(guildId: string, voiceChannelId: string, reason: StopReason = 'manual', error?: string) {
+    const session = sessions.get(getSessionKey(guildId, voiceChannelId));
+    if (!session) {
+        logger.debug(`Not connected to voice channel ${voiceChannelId} in guild ${guildId}`);
         return;
     }
+    await stopSession(session, reason, error);
+}
+
+/**
+ * Stops the stream of a session and cleans up its resources
+ * @param session - Session to stop
+ * @param reason - Why the stream stops, recorded in the watch history
+ * @param error - Error that stopped the stream, if any
+ */
+async function stopSession(session: VoiceSession, reason: StopReason = 'manual', error?: string) {
+    // The first stop ends the history record, the FFmpeg events that follow the abort only clean up
+    const historyId = session.historyId;
+    session.historyId = null;
+    if (historyId !== null) {
+        endSession(historyId, reason, error);
+    }
 
     try {
+        // Replaced before waiting, so the events of the aborted stream are recognized as stale
+        const abortController = session.abortController;
+        session.abortController = new AbortController();
         abortController.abort();
         await new Promise(resolve => setTimeout(resolve, 1000));
-        abortController = new AbortController();
 
-        if (streamSpectatorMonitor) {
+        if (session.spectatorMonitor) {
             logger.debug('Clearing spectator monitor');
-            clearInterval(streamSpectatorMonitor);
-            streamSpectatorMonitor = null;
+            clearInterval(session.spectatorMonitor);
+            session.spectatorMonitor = null;
         }
-        streamAloneTime = 0;
+        session.aloneTime = 0;
 
-        if (!currentChannelEntry) {
+        if (!session.channelEntry) {
             logger.debug('No channel currently playing');
             return;
         }
 
-        logger.info(`Stopped video stream from ${currentChannelEntry?.tvg_name || 'unknown channel'}`);
-        currentChannelEntry = null;
+        logger.info(`Stopped video stream from ${session.channelEntry.tvg_name || 'unknown channel'}`);
+        session.channelEntry = null;
     } catch (error) {
         logger.error(`Error stopping stream: ${error}`);
     }
 }
 
+/**
+ * Stops checking the queue of a session
+ * @param session - Session whose queue is checked
+ */
+function stopQueueTimer(session: VoiceSession) {
+    if (session.queueTimer) {
+        clearInterval(session.queueTimer);
+        session.queueTimer = null;
+    }
+    session.queueAnchor = null;
+}
+
+/**
+ * Looks up when the first entry of a session's queue is due. Entries without a fixed time wait for the end
+ * of the programme that airs on the streamed channel when they become first, read from the database on
+ * every check so guide updates move the switch as well.
+ * @param session - Session with a non-empty queue
+ * @param now - Current Unix timestamp in seconds
+ * @returns Switch time, or null while a replay or a channel without guide data is still streaming, and the programme waited for
+ */
+async function getQueueSwitch(session: VoiceSession, now: number): Promise<{ at: number | null, programme: ProgrammeEntry | null }> {
+    const entry = session.queue[0];
+    if (!entry || entry.switch_at !== null) {
+        return { at: entry?.switch_at ?? null, programme: null };
+    }
+
+    const channel = session.channelEntry;
+    if (!channel) {
+        // Nothing to wait for once the stream has stopped
+        return { at: now, programme: null };
+    }
+    if (session.replay) {
+        // Replays have no airing programme, the stream ending starts the entry
+        return { at: null, programme: null };
+    }
+
+    const channelName = channel.tvg_name || '';
+    const anchor = session.queueAnchor;
+    if (!anchor || anchor.entryId !== entry.id || anchor.channelName !== channelName) {
+        session.queueAnchor = { entryId: entry.id, channelName, at: now };
+    }
+
+    // Without guide data the entry waits for the stream to end instead of switching right away
+    const programme = await getCurrentProgramme(channel, session.queueAnchor!.at);
+    return { at: programme ? programme.stop_timestamp : null, programme };
+}
+
+/**
+ * Switches a session to the first entry of its queue if it is due
+ * @param session - Session to check
+ */
+async function checkQueue(session: VoiceSession) {
+    if (session.queueChecking) {
+        return;
+    }
+    session.queueChecking = true;
+
+    try {
+        const entry = session.queue[0];
+        if (!entry) {
+            stopQueueTimer(session);
+            return;
+        }
+
+        const now = Math.floor(Date.now() / 1000);
+        const { at } = await getQueueSwitch(session, now);
+        // Skipped, cleared or left while the guide was read
+        if (at === null || at > now || session.queue[0] !== entry || sessions.get(getSessionKey(session.guildId, session.voiceChannelId)) !== session) {
+            return;
+        }
+
+        switchToQueueEntry(session);
+    } catch (error) {
+        logger.error(`Error checking the stream queue: ${error}`);
+    } finally {
+        session.queueChecking = false;
+    }
+}
+
+/**
+ * Removes the first entry of a session's queue and streams its channel, staying in the voice channel
+ * @param session - Session with a non-empty queue
+ * @returns The entry switched to, or null if the queue is empty
+ */
+function switchToQueueEntry(session: VoiceSession): QueueEntry | null {
+    const entry = session.queue.shift();
+    session.queueAnchor = null;
+    if (session.queue.length === 0) {
+        stopQueueTimer(session);
+    }
+    if (!entry) {
+        return null;
+    }
+
+    logger.info(`Switching voice channel ${session.voiceChannelId} to queued channel: ${entry.channel.tvg_name}`);
+    // we will not await this as it's a void function, the stream runs until it is stopped
+    startStreaming(session.guildId, session.voiceChannelId, entry.channel, { requester: entry.requester });
+    return entry;
+}
+
+/**
+ * Adds a channel to the queue of a voice channel
+ * @param guildId - Discord guild ID
+ * @param voiceChannelId - Voice channel ID of the session
+ * @param channelEntry - Channel to switch to
+ * @param switchAt - Unix timestamp in seconds to switch at, or null to switch after the airing programme
+ * @param requester - User who queued the channel, recorded in the watch history
+ * @returns The queued entry
+ * @throws Error if no streamer account is connected to the voice channel, or if the entry would wait for
+ * the airing programme while the guide has none
+ */
+export async function addToQueue(guildId: string, voiceChannelId: string, channelEntry: ChannelEntry, switchAt: number | null, requester?: StreamRequester): Promise<QueueEntry> {
+    const session = sessions.get(getSessionKey(guildId, voiceChannelId));
+    if (!session) {
+        throw new Error('Nothing is streaming in this voice channel.');
+    }
+
+    const streamed = session.channelEntry;
+    if (switchAt === null && session.queue.length === 0 && streamed && !session.replay && !(await getCurrentProgramme(streamed))) {
+        throw new Error(`The guide has no programme airing on ${streamed.tvg_name}, so there is no end to wait for. Add the channel with a time instead, e.g. \`at: 22:00\`.`);
+    }
+
+    const entry: QueueEntry = {
+        id: nextQueueEntryId++,
+        channel: channelEntry,
+        switch_at: switchAt,
+        requester,
+        added_at: Math.floor(Date.now() / 1000),
+    };
+    session.queue.push(entry);
+    logger.info(`Queued channel ${channelEntry.tvg_name} in voice channel ${voiceChannelId}`);
+
+    if (!session.queueTimer) {
+        session.queueTimer = setInterval(() => {
+            checkQueue(session);
+        }, QUEUE_CHECK_INTERVAL);
+    }
+    checkQueue(session);
+    return entry;
+}
+
+/**
+ * Gets the queue of a voice channel and when its first entry starts
+ * @param guildId - Discord guild ID
+ * @param voiceChannelId - Voice channel ID of the session
+ * @returns Queue status, or null if no streamer account is connected to the voice channel
+ */
+export async function getQueue(guildId: string, voiceChannelId: string): Promise<QueueStatus | null> {
+    const session = sessions.get(getSessionKey(guildId, voiceChannelId));
+    if (!session) {
+        return null;
+    }
+    if (session.queue.length === 0) {
+        return { entries: [], next_switch: null, waiting_for: null };
+    }
+
+    const { at, programme } = await getQueueSwitch(session, Math.floor(Date.now() / 1000));
+    return { entries: [...session.queue], next_switch: at, waiting_for: programme };
+}
+
+/**
+ * Switches a voice channel to the first entry of its queue right away
+ * @param guildId - Discord guild ID
+ * @param voiceChannelId - Voice channel ID of the session
+ * @returns The entry switched to, or null if the queue is empty
+ */
+export function skipQueue(guildId: string, voiceChannelId: string): QueueEntry | null {
+    const session = sessions.get(getSessionKey(guildId, voiceChannelId));
+    if (!session) {
+        return null;
+    }
+    return switchToQueueEntry(session);
+}
+
+/**
+ * Removes all entries from the queue of a voice channel, the current stream continues
+ * @param guildId - Discord guild ID
+ * @param voiceChannelId - Voice channel ID of the session
+ * @returns Number of removed entries
+ */
+export function clearQueue(guildId: string, voiceChannelId: string): number {
+    const session = sessions.get(getSessionKey(guildId, voiceChannelId));
+    if (!session) {
+        return 0;
+    }
+    const removed = session.queue.length;
+    session.queue = [];
+    stopQueueTimer(session);
+    return removed;
+}
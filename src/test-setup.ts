@@ -0,0 +1,20 @@
+import { afterAll } from 'bun:test';
+import { mkdirSync, mkdtempSync, rmSync } from 'fs';
+import { tmpdir } from 'os';
+import { join } from 'path';
+
+// Test files share one config, which is read when it is first imported, so the directories are set before any test runs.
+// Tests must never touch the cache, database or rules of the installation.
+const tempDir = mkdtempSync(join(tmpdir(), 'orbiscast-test-'));
+process.env.RAM_CACHE = 'false';
+process.env.CACHE_DIR = join(tempDir, 'cache');
+process.env.DATA_DIR = join(tempDir, 'data');
+process.env.CHANNEL_RULES = join(tempDir, 'rules.json');
+mkdirSync(process.env.CACHE_DIR);
+// A local .env does not override these, so tests see the defaults
+process.env.CATCHUP_DAYS = '7';
+process.env.CATCHUP_TIMEZONE = 'UTC';
+
+afterAll(() => {
+    rmSync(tempDir, { recursive: true, force: true });
+});
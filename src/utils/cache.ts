@@ -1,5 +1,6 @@
-import { promises as fs } from 'fs';
+import { createWriteStream, promises as fs } from 'fs';
 import { join } from 'path';
+import { pipeline } from 'stream/promises';
 import { getLogger } from './logger';
 import { config } from './config';
 
@@ -26,6 +27,29 @@ export async function cacheFile(filePath: string, content: Buffer): Promise<void
     }
 }
 
+/**
+ * Saves a stream to the cache directory. The stream is written to a temporary file first,
+ * so a failed download never replaces the cached file.
+ * @param filePath - Relative path within cache directory
+ * @param content - File content, written as it is read
+ * @returns Absolute path to the cached file
+ * @throws If the stream fails or the file cannot be written
+ */
+export async function cacheStream(filePath: string, content: AsyncIterable<Buffer>): Promise<string> {
+    const cachePath = join(cacheDir, filePath);
+    const tempPath = `${cachePath}.part`;
+    logger.debug(`Caching stream at: ${cachePath}`);
+    try {
+        await pipeline(content, createWriteStream(tempPath));
+        await fs.rename(tempPath, cachePath);
+        logger.debug(`File cached successfully: ${cachePath}`);
+        return cachePath;
+    } catch (err) {
+        await fs.rm(tempPath, { force: true });
+        throw err;
+    }
+}
+
 /**
  * Retrieves a file from cache as Buffer
  * @param filePath - Relative path within cache directory
@@ -1,22 +1,45 @@
+import { readFileSync } from 'fs';
 import { config as dotenvConfig } from 'dotenv';
 import { getLogger } from './logger';
+import type { EpgSource, PlaylistSource } from '../interfaces/iptv';
 
 const logger = getLogger();
 
 class Config {
     PLAYLIST: string;
+    PLAYLIST_SOURCES: PlaylistSource[];
     XMLTV: string;
+    XMLTV_SOURCES: EpgSource[];
     REFRESH_IPTV: number;
     DEFAULT_STREAM_TIMEOUT: number;
     RAM_CACHE: boolean;
     DISCORD_BOT_TOKEN: string;
     DISCORD_USER_TOKEN: string;
+    DISCORD_USER_TOKENS: string[];
     GUILD: string;
     DEBUG: boolean;
     CACHE_DIR: string;
+    DATA_DIR: string;
     MINIMIZE_LATENCY: boolean;
     BITRATE_VIDEO: number;
     BITRATE_VIDEO_MAX: number;
+    CATCHUP_DAYS: number;
+    CATCHUP_TIMEZONE: string;
+    CHANNEL_RULES: string;
+    REFRESH_MAX_DROP: number;
+    HEALTH_CHECK_INTERVAL: number;
+    HEALTH_CHECK_BATCH: number;
+    HEALTH_CHECK_TIMEOUT: number;
+    HIDE_OFFLINE_CHANNELS: boolean;
+    REFRESH_CHANNELS_SCHEDULE: string;
+    REFRESH_PROGRAMMES_SCHEDULE: string;
+    SCHEDULE_JITTER: number;
+    WATCH_DEBOUNCE: number;
+    REMINDER_LEAD: number;
+    QUEUE_TIMEZONE: string;
+    BACKUP_DIR: string;
+    BACKUP_SCHEDULE: string;
+    BACKUP_KEEP: number;
 
     constructor() {
         logger.info("Loading environment variables");
@@ -30,14 +53,38 @@ class Config {
         this.RAM_CACHE = env.RAM_CACHE?.trim().toLowerCase() !== 'false' || false;
         this.DISCORD_BOT_TOKEN = env.DISCORD_BOT_TOKEN?.trim() || '';
         this.DISCORD_USER_TOKEN = env.DISCORD_USER_TOKEN?.trim() || '';
+        this.DISCORD_USER_TOKENS = [...new Set([this.DISCORD_USER_TOKEN, ...(env.DISCORD_USER_TOKENS || '').split(',')]
+            .map(token => token.trim())
+            .filter(Boolean))];
         this.GUILD = env.GUILD?.trim() || '0';
         this.DEBUG = env.DEBUG?.trim().toLowerCase() === 'true';
         this.CACHE_DIR = (this.RAM_CACHE ? '/dev/shm/orbiscast' : env.CACHE_DIR?.trim()) || '../cache';
+        this.DATA_DIR = env.DATA_DIR?.trim() || '';
         this.MINIMIZE_LATENCY = env.MINIMIZE_LATENCY?.trim().toLowerCase() !== 'false';
         this.BITRATE_VIDEO = parseInt(env.BITRATE_VIDEO?.trim() || '5000');
         this.BITRATE_VIDEO_MAX = parseInt(env.BITRATE_VIDEO_MAX?.trim() || '7500');
+        this.CATCHUP_DAYS = parseInt(env.CATCHUP_DAYS?.trim() || '7');
+        this.CATCHUP_TIMEZONE = this.loadTimeZone(env.CATCHUP_TIMEZONE?.trim() || 'UTC');
+        this.CHANNEL_RULES = env.CHANNEL_RULES?.trim() || '';
+        this.REFRESH_MAX_DROP = parseInt(env.REFRESH_MAX_DROP?.trim() || '50');
+        this.HEALTH_CHECK_INTERVAL = parseInt(env.HEALTH_CHECK_INTERVAL?.trim() || '5');
+        this.HEALTH_CHECK_BATCH = parseInt(env.HEALTH_CHECK_BATCH?.trim() || '5');
+        this.HEALTH_CHECK_TIMEOUT = parseInt(env.HEALTH_CHECK_TIMEOUT?.trim() || '15');
+        this.HIDE_OFFLINE_CHANNELS = env.HIDE_OFFLINE_CHANNELS?.trim().toLowerCase() === 'true';
+        this.REFRESH_CHANNELS_SCHEDULE = env.REFRESH_CHANNELS_SCHEDULE?.trim() || '';
+        this.REFRESH_PROGRAMMES_SCHEDULE = env.REFRESH_PROGRAMMES_SCHEDULE?.trim() || '';
+        this.SCHEDULE_JITTER = parseInt(env.SCHEDULE_JITTER?.trim() || '60');
+        this.WATCH_DEBOUNCE = parseInt(env.WATCH_DEBOUNCE?.trim() || '5');
+        this.REMINDER_LEAD = parseInt(env.REMINDER_LEAD?.trim() || '5');
+        this.QUEUE_TIMEZONE = this.loadTimeZone(env.QUEUE_TIMEZONE?.trim() || 'UTC');
+        this.BACKUP_DIR = env.BACKUP_DIR?.trim() || '';
+        this.BACKUP_SCHEDULE = env.BACKUP_SCHEDULE?.trim() || '@daily';
+        this.BACKUP_KEEP = parseInt(env.BACKUP_KEEP?.trim() || '7');
+        this.PLAYLIST_SOURCES = this.loadPlaylistSources(env.PLAYLIST_SOURCES?.trim() || '');
+        this.XMLTV_SOURCES = this.loadEpgSources(env.XMLTV_SOURCES?.trim() || '');
 
         logger.info(`Loaded GUILD ID: ${this.GUILD}`);
+        logger.info(`Loaded ${this.DISCORD_USER_TOKENS.length} streamer account(s)`);
 
         if (!this.validateEnvVars()) {
             logger.error("Failed to load environment variables");
@@ -55,9 +102,19 @@ class Config {
      * @returns True if all required variables are set, false otherwise
      */
     private validateEnvVars(): boolean {
-        const requiredVars = ['PLAYLIST', 'DISCORD_BOT_TOKEN', 'DISCORD_USER_TOKEN', 'GUILD'];
+        const requiredVars = ['DISCORD_BOT_TOKEN', 'GUILD'];
         let allVarsSet = true;
 
+        if (this.DISCORD_USER_TOKENS.length === 0) {
+            logger.error('DISCORD_USER_TOKEN or DISCORD_USER_TOKENS environment variable not set');
+            allVarsSet = false;
+        }
+
+        if (this.PLAYLIST_SOURCES.length === 0) {
+            logger.error('PLAYLIST or PLAYLIST_SOURCES environment variable not set');
+            allVarsSet = false;
+        }
+
         requiredVars.forEach(varName => {
             if (!this[varName as keyof Config]) {
                 logger.error(`${varName} environment variable not set`);
@@ -68,6 +125,117 @@ class Config {
         return allVarsSet;
     }
 
+    /**
+     * Loads the playlist sources from a JSON file, falling back to the single PLAYLIST URL
+     * @param sourcesFile - Path to a JSON file containing an array of playlist sources
+     * @returns List of playlist sources
+     */
+    private loadPlaylistSources(sourcesFile: string): PlaylistSource[] {
+        if (!sourcesFile) {
+            return this.PLAYLIST
+                ? [{ name: 'default', type: 'm3u', url: this.PLAYLIST, priority: 0, refresh: this.REFRESH_IPTV }]
+                : [];
+        }
+
+        try {
+            const rawSources = JSON.parse(readFileSync(sourcesFile, 'utf8'));
+            if (!Array.isArray(rawSources)) {
+                throw new Error('Expected an array of sources');
+            }
+
+            const sources: PlaylistSource[] = [];
+            rawSources.forEach((source: any, index: number) => {
+                if (!source?.name || !source?.url) {
+                    logger.warn(`Skipping playlist source #${index + 1}: missing name or url`);
+                    return;
+                }
+                if (sources.some(existing => existing.name === source.name)) {
+                    logger.warn(`Skipping playlist source #${index + 1}: duplicate name "${source.name}"`);
+                    return;
+                }
+                const type = source.type === 'xtream' ? 'xtream' : 'm3u';
+                if (type === 'xtream' && (!source.username || !source.password)) {
+                    logger.warn(`Skipping playlist source #${index + 1}: Xtream sources need a username and password`);
+                    return;
+                }
+                sources.push({
+                    name: String(source.name),
+                    type,
+                    url: String(source.url).trim(),
+                    priority: Number.isFinite(source.priority) ? source.priority : index,
+                    refresh: Number.isFinite(source.refresh) ? source.refresh : this.REFRESH_IPTV,
+                    username: source.username,
+                    password: source.password,
+                    epg: source.epg === true,
+                    output: source.output === 'm3u8' ? 'm3u8' : 'ts',
+                });
+            });
+
+            logger.info(`Loaded ${sources.length} playlist sources from ${sourcesFile}`);
+            return sources;
+        } catch (error) {
+            logger.error(`Error loading playlist sources from ${sourcesFile}: ${error}`);
+            return [];
+        }
+    }
+
+    /**
+     * Checks that a time zone is known, falling back to UTC
+     * @param timeZone - IANA time zone name such as "Europe/Ljubljana"
+     * @returns The time zone, or UTC if it is unknown
+     */
+    private loadTimeZone(timeZone: string): string {
+        try {
+            new Intl.DateTimeFormat('en-US', { timeZone });
+            return timeZone;
+        } catch {
+            logger.warn(`Unknown time zone "${timeZone}", using UTC`);
+            return 'UTC';
+        }
+    }
+
+    /**
+     * Loads the XMLTV guide sources from a JSON file, falling back to the single XMLTV URL
+     * @param sourcesFile - Path to a JSON file containing an array of guide sources
+     * @returns List of guide sources, sorted by priority
+     */
+    private loadEpgSources(sourcesFile: string): EpgSource[] {
+        if (!sourcesFile) {
+            return this.XMLTV ? [{ name: 'default', url: this.XMLTV, priority: 0 }] : [];
+        }
+
+        try {
+            const rawSources = JSON.parse(readFileSync(sourcesFile, 'utf8'));
+            if (!Array.isArray(rawSources)) {
+                throw new Error('Expected an array of sources');
+            }
+
+            const sources: EpgSource[] = [];
+            rawSources.forEach((source: any, index: number) => {
+                if (!source?.name || !source?.url) {
+                    logger.warn(`Skipping XMLTV source #${index + 1}: missing name or url`);
+                    return;
+                }
+                if (sources.some(existing => existing.name === source.name)) {
+                    logger.warn(`Skipping XMLTV source #${index + 1}: duplicate name "${source.name}"`);
+                    return;
+                }
+                sources.push({
+                    name: String(source.name),
+                    url: String(source.url).trim(),
+                    priority: Number.isFinite(source.priority) ? source.priority : index,
+                    shift: Number.isFinite(source.shift) ? source.shift : undefined,
+                });
+            });
+
+            logger.info(`Loaded ${sources.length} XMLTV sources from ${sourcesFile}`);
+            return sources.sort((a, b) => a.priority - b.priority);
+        } catch (error) {
+            logger.error(`Error loading XMLTV sources from ${sourcesFile}: ${error}`);
+            return [];
+        }
+    }
+
     /**
      * Creates a sanitized version of the config for logging, with sensitive values hidden
      * @returns Sanitized configuration object
@@ -78,9 +246,18 @@ class Config {
         if (sanitized.PLAYLIST) {
             sanitized.PLAYLIST = this.obfuscateString(sanitized.PLAYLIST, true);
         }
+        sanitized.PLAYLIST_SOURCES = sanitized.PLAYLIST_SOURCES.map(source => ({
+            ...source,
+            url: this.obfuscateString(source.url, true),
+            password: source.password ? this.obfuscateString(source.password, true) : undefined
+        }));
         if (sanitized.XMLTV) {
             sanitized.XMLTV = this.obfuscateString(sanitized.XMLTV, true);
         }
+        sanitized.XMLTV_SOURCES = sanitized.XMLTV_SOURCES.map(source => ({
+            ...source,
+            url: this.obfuscateString(source.url, true)
+        }));
 
         if (sanitized.DISCORD_BOT_TOKEN) {
             sanitized.DISCORD_BOT_TOKEN = this.obfuscateString(sanitized.DISCORD_BOT_TOKEN);
@@ -88,6 +265,7 @@ class Config {
         if (sanitized.DISCORD_USER_TOKEN) {
             sanitized.DISCORD_USER_TOKEN = this.obfuscateString(sanitized.DISCORD_USER_TOKEN);
         }
+        sanitized.DISCORD_USER_TOKENS = sanitized.DISCORD_USER_TOKENS.map(token => this.obfuscateString(token));
 
         return sanitized;
     }
@@ -1,8 +1,9 @@
-import { Client, GatewayIntentBits, GuildMember, Partials, REST, Routes, SlashCommandBuilder } from 'discord.js';
+import { Client, GatewayIntentBits, GuildMember, Partials, PermissionFlagsBits, REST, Routes, SlashCommandBuilder } from 'discord.js';
 import { getLogger } from './logger';
 import { config } from './config';
-import { getChannelEntries } from '../modules/database';
-import { handleStreamCommand, handleStopCommand, handleListCommand, handleRefreshCommand, handleProgrammeCommand } from '../modules/commands';
+import { getChannelHealth, getFavorites, searchChannels } from '../modules/database';
+import { getHealthIcon } from '../modules/iptv';
+import { handleStreamCommand, handleStopCommand, handleListCommand, handleRefreshCommand, handleProgrammeCommand, handleEpgMapCommand, getEpgChannelChoices, handleReplayCommand, getReplayChannelChoices, getReplayProgrammeChoices, handleChannelRulesCommand, handleIngestReportCommand, handleScheduleStatusCommand, handleSearchCommand, getSearchGroupChoices, handleHistoryCommand, handleStatsCommand, handleFavoritesCommand, getFavoriteChoices, handleBackupCommand, getBackupChoices, handleQueueCommand } from '../modules/commands';
 
 const logger = getLogger();
 
@@ -36,16 +37,88 @@ client.once('ready', async () => {
             .addStringOption(option => option.setName('channel').setDescription('The IPTV channel to stream').setAutocomplete(true)),
         new SlashCommandBuilder().setName('stop').setDescription('Stop streaming the IPTV channel'),
         new SlashCommandBuilder().setName('channels').setDescription('List all IPTV channels')
-            .addStringOption(option => option.setName('page').setDescription('Page number to display or "all" to list all channels')),
+            .addStringOption(option => option.setName('page').setDescription('Page number to display, "all" to list all channels or "favorites" for your favourites')),
         new SlashCommandBuilder().setName('refresh').setDescription('Refresh the specified data')
+            .setDefaultMemberPermissions(PermissionFlagsBits.Administrator)
             .addStringOption(option => option.setName('type').setDescription('The type of data to refresh').setRequired(true)
                 .addChoices(
                     { name: 'all', value: 'all' },
                     { name: 'channels', value: 'channels' },
-                    { name: 'programme', value: 'programme' }
-                )),
+                    { name: 'programme', value: 'programme' },
+                    { name: 'rollback', value: 'rollback' }
+                ))
+            .addBooleanOption(option => option.setName('skip_checks').setDescription('Store the new data even if it drops too many channels or programmes')),
         new SlashCommandBuilder().setName('programme').setDescription('Show programme guide for a channel')
             .addStringOption(option => option.setName('channel').setDescription('The channel name').setAutocomplete(true).setRequired(false)),
+        new SlashCommandBuilder().setName('epg-map').setDescription('Show or override which XMLTV channel a channel uses')
+            .setDefaultMemberPermissions(PermissionFlagsBits.Administrator)
+            .addStringOption(option => option.setName('action').setDescription('What to do with the mapping').setRequired(true)
+                .addChoices(
+                    { name: 'show', value: 'show' },
+                    { name: 'set', value: 'set' },
+                    { name: 'clear', value: 'clear' },
+                    { name: 'shift', value: 'shift' }
+                ))
+            .addStringOption(option => option.setName('channel').setDescription('The channel name').setAutocomplete(true).setRequired(true))
+            .addStringOption(option => option.setName('epg_id').setDescription('The XMLTV channel ID to map to').setAutocomplete(true))
+            .addNumberOption(option => option.setName('hours').setDescription('Hours to shift the guide by, leave empty to remove the override').setMinValue(-24).setMaxValue(24)),
+        new SlashCommandBuilder().setName('replay').setDescription('Replay a programme that already aired')
+            .addStringOption(option => option.setName('channel').setDescription('The channel name').setAutocomplete(true).setRequired(true))
+            .addStringOption(option => option.setName('programme').setDescription('The programme to replay').setAutocomplete(true).setRequired(true)),
+        new SlashCommandBuilder().setName('channel-rules').setDescription('Preview how the channel rules change the channel list')
+            .setDefaultMemberPermissions(PermissionFlagsBits.Administrator),
+        new SlashCommandBuilder().setName('ingest-report').setDescription('Show the report of the last channel and programme refresh')
+            .setDefaultMemberPermissions(PermissionFlagsBits.Administrator),
+        new SlashCommandBuilder().setName('schedule-status').setDescription('Show the last and next runs of the scheduled refreshes')
+            .setDefaultMemberPermissions(PermissionFlagsBits.Administrator),
+        new SlashCommandBuilder().setName('search').setDescription('Search upcoming and airing programmes')
+            .addStringOption(option => option.setName('query').setDescription('Words in the title, episode, description or category').setRequired(true))
+            .addStringOption(option => option.setName('when').setDescription('When the programme airs')
+                .addChoices(
+                    { name: 'now', value: 'now' },
+                    { name: 'today', value: 'today' },
+                    { name: 'tomorrow', value: 'tomorrow' },
+                    { name: 'this week', value: 'week' }
+                ))
+            .addStringOption(option => option.setName('group').setDescription('Only channels in this group').setAutocomplete(true)),
+        new SlashCommandBuilder().setName('history').setDescription('Show the channels streamed recently')
+            .addIntegerOption(option => option.setName('page').setDescription('Page number to display').setMinValue(1)),
+        new SlashCommandBuilder().setName('stats').setDescription('Show the most watched channels, top requesters and failure rates')
+            .addStringOption(option => option.setName('period').setDescription('Period to show, the last 7 days by default')
+                .addChoices(
+                    { name: 'last 24 hours', value: 'day' },
+                    { name: 'last 7 days', value: 'week' },
+                    { name: 'last 30 days', value: 'month' },
+                    { name: 'all time', value: 'all' }
+                )),
+        new SlashCommandBuilder().setName('favorites').setDescription('Manage your favourite channels')
+            .addStringOption(option => option.setName('action').setDescription('What to do with your favourites').setRequired(true)
+                .addChoices(
+                    { name: 'add', value: 'add' },
+                    { name: 'remove', value: 'remove' },
+                    { name: 'list', value: 'list' }
+                ))
+            .addStringOption(option => option.setName('channel').setDescription('The channel name').setAutocomplete(true)),
+        new SlashCommandBuilder().setName('backup').setDescription('Back up or restore the database and channel rules')
+            .setDefaultMemberPermissions(PermissionFlagsBits.Administrator)
+            .addStringOption(option => option.setName('action').setDescription('What to do').setRequired(true)
+                .addChoices(
+                    { name: 'create', value: 'create' },
+                    { name: 'list', value: 'list' },
+                    { name: 'restore', value: 'restore' }
+                ))
+            .addStringOption(option => option.setName('file').setDescription('Backup to restore from the backup directory').setAutocomplete(true))
+            .addAttachmentOption(option => option.setName('archive').setDescription('Backup archive to restore')),
+        new SlashCommandBuilder().setName('queue').setDescription('Queue channels to switch to in your voice channel')
+            .addStringOption(option => option.setName('action').setDescription('What to do with the queue').setRequired(true)
+                .addChoices(
+                    { name: 'add', value: 'add' },
+                    { name: 'list', value: 'list' },
+                    { name: 'skip', value: 'skip' },
+                    { name: 'clear', value: 'clear' }
+                ))
+            .addStringOption(option => option.setName('channel').setDescription('The channel to switch to').setAutocomplete(true))
+            .addStringOption(option => option.setName('at').setDescription(`Time of day in ${config.QUEUE_TIMEZONE} to switch at, e.g. 22:00. Defaults to after the current programme`)),
     ].map(command => command.toJSON());
 
     try {
@@ -74,23 +147,59 @@ client.on('interactionCreate', async interaction => {
             await handleRefreshCommand(interaction);
         } else if (commandName === 'programme') {
             await handleProgrammeCommand(interaction);
+        } else if (commandName === 'epg-map') {
+            await handleEpgMapCommand(interaction);
+        } else if (commandName === 'replay') {
+            await handleReplayCommand(interaction);
+        } else if (commandName === 'channel-rules') {
+            await handleChannelRulesCommand(interaction);
+        } else if (commandName === 'ingest-report') {
+            await handleIngestReportCommand(interaction);
+        } else if (commandName === 'schedule-status') {
+            await handleScheduleStatusCommand(interaction);
+        } else if (commandName === 'search') {
+            await handleSearchCommand(interaction);
+        } else if (commandName === 'history') {
+            await handleHistoryCommand(interaction);
+        } else if (commandName === 'stats') {
+            await handleStatsCommand(interaction);
+        } else if (commandName === 'favorites') {
+            await handleFavoritesCommand(interaction);
+        } else if (commandName === 'backup') {
+            await handleBackupCommand(interaction);
+        } else if (commandName === 'queue') {
+            await handleQueueCommand(interaction);
         }
     } else if (interaction.isAutocomplete()) {
         const { commandName, options } = interaction;
+        const focused = options.getFocused(true);
 
-        if (commandName === 'stream' || commandName === 'programme') {
-            const current = options.getFocused();
-            const channelEntries = await getChannelEntries();
-            const choices = channelEntries.map(entry => entry.tvg_name).filter((name): name is string => name !== undefined && name.toLowerCase().includes(current.toLowerCase()));
-
-            const chunks = [];
-            for (let i = 0; i < choices.length; i += 25) {
-                chunks.push(choices.slice(i, i + 25));
-            }
+        if (commandName === 'epg-map' && focused.name === 'epg_id') {
+            await interaction.respond(await getEpgChannelChoices(focused.value));
+        } else if (commandName === 'replay' && focused.name === 'programme') {
+            await interaction.respond(await getReplayProgrammeChoices(options.getString('channel') || '', focused.value));
+        } else if (commandName === 'replay') {
+            await interaction.respond(await getReplayChannelChoices(focused.value));
+        } else if (commandName === 'search' && focused.name === 'group') {
+            await interaction.respond(await getSearchGroupChoices(focused.value));
+        } else if (commandName === 'backup' && focused.name === 'file') {
+            await interaction.respond(await getBackupChoices(focused.value));
+        } else if (commandName === 'favorites' && options.getString('action') === 'remove') {
+            await interaction.respond(await getFavoriteChoices(interaction.user.id, focused.value));
+        } else if (commandName === 'stream' || commandName === 'programme' || commandName === 'epg-map' || commandName === 'favorites' || commandName === 'queue') {
+            const health = await getChannelHealth();
+            // Admins mapping channels to the guide need to see offline channels as well
+            const hideOffline = config.HIDE_OFFLINE_CHANNELS && commandName !== 'epg-map';
+            const favorites = new Set((await getFavorites(interaction.user.id)).map(name => name.toLowerCase()));
+            const choices = await searchChannels(focused.value, 25, {
+                filter: entry => !hideOffline || health[entry.url]?.status !== 'offline',
+                preferred: [...favorites]
+            });
 
-            if (chunks[0]) {
-                await interaction.respond(chunks[0].map(choice => ({ name: choice!, value: choice! })));
-            }
+            await interaction.respond(choices.items.map(choice => ({
+                name: `${favorites.has(choice.tvg_name!.toLowerCase()) ? '⭐ ' : ''}${getHealthIcon(health[choice.url])} ${choice.tvg_name}`.slice(0, 100),
+                value: choice.tvg_name!
+            })));
         }
     }
 });